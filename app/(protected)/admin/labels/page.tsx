@@ -0,0 +1,283 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Plus, Save, Tags, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import type { LabelCategory, LabelTaxonomy, LabelTaxonomyMode, TaxonomyLabel } from '@/lib/labelTaxonomy';
+
+type LabelUsage = {
+  label: string;
+  count: number;
+  canonical: string | null;
+};
+
+type DraftLabel = Omit<TaxonomyLabel, 'synonyms'> & { synonyms: string };
+
+const MODE_LABELS: Record<LabelTaxonomyMode, string> = {
+  off: 'Off — store labels exactly as typed',
+  map: 'Map — rewrite synonyms, allow unknown labels',
+  strict: 'Strict — rewrite synonyms, reject unknown labels',
+};
+
+const CATEGORY_LABELS: Record<LabelCategory, string> = {
+  occupancy: 'Occupancy',
+  activity: 'Activity',
+  'people-count': 'People count',
+};
+
+function toDraft(label: TaxonomyLabel): DraftLabel {
+  return { ...label, synonyms: label.synonyms.join(', ') };
+}
+
+export default function LabelTaxonomyPage() {
+  const { user } = useAuth();
+  const toast = useToast();
+  const [mode, setMode] = useState<LabelTaxonomyMode>('map');
+  const [labels, setLabels] = useState<DraftLabel[]>([]);
+  const [usage, setUsage] = useState<LabelUsage[]>([]);
+  const [updatedAt, setUpdatedAt] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const applyTaxonomy = (taxonomy: LabelTaxonomy) => {
+    setMode(taxonomy.mode);
+    setLabels(taxonomy.labels.map(toDraft));
+    setUpdatedAt(taxonomy.updated_at || '');
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/data/labels/taxonomy', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load taxonomy');
+      applyTaxonomy(data.taxonomy);
+      setUsage(Array.isArray(data.usage) ? data.usage : []);
+    } catch (error) {
+      toast.error('Taxonomy failed to load', error instanceof Error ? error.message : 'Unable to load taxonomy');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user?.role === 1) load();
+  }, [load, user]);
+
+  const updateLabel = (index: number, patch: Partial<DraftLabel>) => {
+    setLabels((current) => current.map((label, i) => (i === index ? { ...label, ...patch } : label)));
+  };
+
+  const addSynonym = (target: string, synonym: string) => {
+    setLabels((current) => current.map((label) => (
+      label.name === target
+        ? { ...label, synonyms: [label.synonyms, synonym].filter(Boolean).join(', ') }
+        : label
+    )));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/data/labels/taxonomy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode,
+          labels: labels.map((label) => ({
+            ...label,
+            synonyms: label.synonyms.split(',').map((synonym) => synonym.trim()).filter(Boolean),
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to save taxonomy');
+      applyTaxonomy(data.taxonomy);
+      toast.success('Taxonomy saved', `${data.taxonomy.labels.length} canonical labels`);
+      await load();
+    } catch (error) {
+      toast.error('Taxonomy not saved', error instanceof Error ? error.message : 'Unable to save taxonomy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (user?.role !== 1) {
+    return <div className="p-8 text-red-500">Admin access required</div>;
+  }
+
+  const unmapped = usage.filter((item) => !item.canonical);
+
+  return (
+    <div className="p-8">
+      <Link href="/admin" className="mb-4 inline-flex items-center gap-2 text-sm text-slate-400 hover:text-white">
+        <ArrowLeft className="h-4 w-4" />
+        Admin dashboard
+      </Link>
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold text-white">Label taxonomy</h1>
+          <p className="text-slate-400">
+            Canonical labels, their synonyms and categories. Label edits on captured minutes are checked against this list.
+          </p>
+          {updatedAt && <p className="mt-1 text-xs text-slate-500">Last saved {new Date(updatedAt).toLocaleString()}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving || loading}
+          className="inline-flex items-center gap-2 rounded bg-indigo-600 px-4 py-2 text-sm text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving…' : 'Save taxonomy'}
+        </button>
+      </div>
+
+      <div className="mb-8 rounded-lg border border-slate-700 bg-slate-800 p-4">
+        <label className="mb-2 block text-sm text-slate-400">Enforcement</label>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as LabelTaxonomyMode)}
+          className="w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-white md:w-auto"
+        >
+          {(Object.keys(MODE_LABELS) as LabelTaxonomyMode[]).map((value) => (
+            <option key={value} value={value}>{MODE_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mb-8 rounded-lg border border-slate-700 bg-slate-800">
+        <div className="flex items-center justify-between border-b border-slate-700 p-4">
+          <h2 className="text-lg font-semibold text-white">Canonical labels</h2>
+          <button
+            type="button"
+            onClick={() => setLabels((current) => [...current, { name: '', category: 'occupancy', color: '#64748b', synonyms: '' }])}
+            className="inline-flex items-center gap-1 rounded bg-slate-700 px-3 py-1 text-sm text-white hover:bg-slate-600"
+          >
+            <Plus className="h-4 w-4" />
+            Add label
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-700">
+              <tr>
+                <th className="px-4 py-2 text-left text-slate-300">Color</th>
+                <th className="px-4 py-2 text-left text-slate-300">Name</th>
+                <th className="px-4 py-2 text-left text-slate-300">Category</th>
+                <th className="px-4 py-2 text-left text-slate-300">Synonyms</th>
+                <th className="px-4 py-2 text-left text-slate-300">In use</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {labels.map((label, index) => (
+                <tr key={index} className="border-t border-slate-700">
+                  <td className="px-4 py-2">
+                    <input
+                      type="color"
+                      value={label.color}
+                      onChange={(e) => updateLabel(index, { color: e.target.value })}
+                      className="h-8 w-10 cursor-pointer rounded border border-slate-600 bg-slate-700"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      value={label.name}
+                      onChange={(e) => updateLabel(index, { name: e.target.value })}
+                      placeholder="occupied"
+                      className="w-40 rounded border border-slate-600 bg-slate-700 px-2 py-1 text-white"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={label.category}
+                      onChange={(e) => updateLabel(index, { category: e.target.value as LabelCategory })}
+                      className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-white"
+                    >
+                      {(Object.keys(CATEGORY_LABELS) as LabelCategory[]).map((category) => (
+                        <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      value={label.synonyms}
+                      onChange={(e) => updateLabel(index, { synonyms: e.target.value })}
+                      placeholder="occ, present"
+                      className="w-full min-w-[16rem] rounded border border-slate-600 bg-slate-700 px-2 py-1 text-white"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-slate-300">
+                    {usage.filter((item) => item.canonical === label.name).reduce((sum, item) => sum + item.count, 0)}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setLabels((current) => current.filter((_, i) => i !== index))}
+                      className="text-red-400 hover:text-red-300"
+                      title="Remove label"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {!labels.length && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-slate-400">
+                    {loading ? 'Loading…' : 'No canonical labels defined.'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-slate-700 bg-slate-800">
+        <div className="border-b border-slate-700 p-4">
+          <h2 className="text-lg font-semibold text-white">Labels outside the taxonomy</h2>
+          <p className="mt-1 text-sm text-slate-400">Labels found in minute manifests that match no canonical label or synonym.</p>
+        </div>
+        <div className="divide-y divide-slate-700">
+          {unmapped.map((item) => (
+            <div key={item.label} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+              <div className="flex items-center gap-2 text-white">
+                <Tags className="h-4 w-4 text-slate-400" />
+                <span className="font-mono">{item.label}</span>
+                <span className="text-xs text-slate-400">{item.count} minute{item.count === 1 ? '' : 's'}</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && addSynonym(e.target.value, item.label)}
+                  className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-sm text-white"
+                >
+                  <option value="">Synonym of…</option>
+                  {labels.filter((label) => label.name).map((label) => (
+                    <option key={label.name} value={label.name}>{label.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setLabels((current) => [...current, { name: item.label, category: 'occupancy', color: '#64748b', synonyms: '' }])}
+                  className="rounded bg-slate-700 px-3 py-1 text-sm text-white hover:bg-slate-600"
+                >
+                  Add as label
+                </button>
+              </div>
+            </div>
+          ))}
+          {!unmapped.length && (
+            <div className="px-4 py-6 text-center text-sm text-slate-400">
+              {loading ? 'Loading…' : 'Every label in use maps to the taxonomy.'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
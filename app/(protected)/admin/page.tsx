@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Users, DollarSign, HardDrive, Brain, CreditCard, Settings, Plus, Edit, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import Link from 'next/link';
+import { Users, DollarSign, HardDrive, Brain, CreditCard, Settings, Plus, Edit, Trash2, ChevronDown, ChevronUp, Tags } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useApi } from '@/hooks/useApi';
 import { useToast } from '@/contexts/ToastContext';
@@ -162,8 +163,19 @@ export default function AdminDashboard() {
 
   return (
     <div className="p-8">
-      <h1 className="text-3xl font-bold text-white mb-2">Admin Dashboard</h1>
-      <p className="text-slate-400 mb-8">Manage users, plans, and payments</p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Admin Dashboard</h1>
+          <p className="text-slate-400">Manage users, plans, and payments</p>
+        </div>
+        <Link
+          href="/admin/labels"
+          className="inline-flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded text-sm"
+        >
+          <Tags className="w-4 h-4" />
+          Label taxonomy
+        </Link>
+      </div>
 
       {/* Stats Cards */}
       {stats && (
@@ -3,207 +3,142 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { useMinuteEvents } from '@/hooks/useMinuteEvents';
+import { ChunkCard, Heatmap, normalizeChunk } from '@/components/CaptureViews';
 
 type Asset = { file_id: number; filename: string; kind?: string; content_type?: string };
+type LabelInterval = { id: string; start_s: number; end_s: number; labels: string[]; chunk_index?: number };
+type MinuteTiming = { chunkSeconds: number; expectedChunks: number; durationSeconds: number };
 
-function chunkDotStyle(state: string, classification?: string | number) {
-  const background = state === 'occupied' || classification === 'green'
-    ? 'hsl(145 68% 39%)'
-    : state === 'empty' || classification === 'red'
-      ? 'hsl(4 76% 51%)'
-      : 'hsl(217 88% 55%)';
-  return { background, boxShadow: `0 0 0 1px color-mix(in srgb, ${background} 55%, transparent)`, transition: 'background-color .45s ease, box-shadow .45s ease' };
+function LinePlot({ points }: { points: number[] }) {
+  const clean = (points || []).filter(Number.isFinite);
+  const min = Math.min(...clean), max = Math.max(...clean);
+  const path = clean.map((v, i) => `${i ? 'L' : 'M'} ${i * 800 / Math.max(1, clean.length - 1)} ${240 - (v - min) * 220 / (max - min || 1)}`).join(' ');
+  return <svg viewBox="0 0 800 260" className="w-full bg-slate-950"><path d={path} fill="none" stroke="#22d3ee" strokeWidth="2" /></svg>;
 }
 
-function frameImage(frame: any, fallback: any) {
-  if (Array.isArray(frame?.z)) return frame.z;
-  if (!Array.isArray(frame?.z_shape) || !Array.isArray(frame?.z_sparse)) return fallback;
-  const rows = Number(frame.z_shape[0]) || 0;
-  const columns = Number(frame.z_shape[1]) || 0;
-  const image = Array.from({ length: rows }, () => Array(columns).fill(0));
-  frame.z_sparse.forEach((cell: unknown) => {
-    if (!Array.isArray(cell)) return;
-    const row = Number(cell[0]), column = Number(cell[1]);
-    if (image[row] && column >= 0 && column < columns) image[row][column] = Number(cell[2]) || 0;
+// Stacks overlapping intervals into rows so every bar stays visible.
+function intervalLanes(intervals: LabelInterval[]) {
+  const laneEnds: number[] = [];
+  return intervals.map((interval) => {
+    let lane = laneEnds.findIndex((end) => end <= interval.start_s);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = interval.end_s;
+    return lane;
   });
-  return image;
-}
-
-function viridis(value: number) {
-  const stops = [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]];
-  const scaled = Math.max(0, Math.min(1, value)) * (stops.length - 1);
-  const index = Math.min(stops.length - 2, Math.floor(scaled));
-  const amount = scaled - index;
-  return stops[index].map((channel, offset) => Math.round(channel + (stops[index + 1][offset] - channel) * amount));
 }
 
-function CompactXYMap({ map }: { map: any }) {
-  const ref = useRef<HTMLCanvasElement>(null);
-  useEffect(() => {
-    const canvas = ref.current;
-    const rows = Number(map?.rows || 0);
-    const columns = Number(map?.columns || 0);
-    const values = Array.isArray(map?.values) ? map.values : [];
-    if (!canvas || !rows || !columns || values.length !== rows * columns) return;
-    const context = canvas.getContext('2d');
-    if (!context) return;
-    const image = context.createImageData(columns, rows);
-    values.forEach((raw: number, sourceIndex: number) => {
-      const sourceRow = Math.floor(sourceIndex / columns);
-      const column = sourceIndex % columns;
-      const destinationIndex = ((rows - 1 - sourceRow) * columns + column) * 4;
-      const [red, green, blue] = viridis((Number(raw) || 0) / 255);
-      image.data[destinationIndex] = red;
-      image.data[destinationIndex + 1] = green;
-      image.data[destinationIndex + 2] = blue;
-      image.data[destinationIndex + 3] = 255;
-    });
-    const buffer = document.createElement('canvas');
-    buffer.width = columns;
-    buffer.height = rows;
-    buffer.getContext('2d')?.putImageData(image, 0, 0);
-    context.imageSmoothingEnabled = true;
-    context.clearRect(0, 0, canvas.width, canvas.height);
-    context.drawImage(buffer, 0, 0, canvas.width, canvas.height);
-  }, [map]);
-  return <div className="bg-slate-950 p-2">
-    <canvas ref={ref} width={512} height={512} className="aspect-square h-auto w-full" />
-    <div className="mt-2 flex items-center gap-2 text-[10px] font-medium text-slate-300">
-      <span>0</span>
-      <span className="h-1.5 flex-1 rounded-full" style={{ background: 'linear-gradient(90deg,#440154,#3b528b,#21918c,#5ec962,#fde725)' }} />
-      <span>1 normalized intensity</span>
-    </div>
-  </div>;
-}
+function IntervalEditor({ minute, selectedChunks, onSaved }: { minute: string; selectedChunks: number[]; onSaved: () => void }) {
+  const [intervals, setIntervals] = useState<LabelInterval[]>([]);
+  const [timing, setTiming] = useState<MinuteTiming | null>(null);
+  const [revision, setRevision] = useState(0);
+  const [available, setAvailable] = useState(true);
+  const [labels, setLabels] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const endpoint = `/api/data/minutes/${encodeURIComponent(minute)}/labels/intervals`;
 
-function normalizeChunk(entry: any, fallbackIndex = 0) {
-  const occupancy = entry?.occupancy && typeof entry.occupancy === 'object' ? entry.occupancy : {};
-  const index = Number(entry?.chunk_index ?? entry?.index ?? fallbackIndex);
-  const status = String(entry?.status || entry?.state || occupancy?.label || 'loading');
-  const state = status === 'occupied' || status === 'empty'
-    ? status
-    : status === 'waiting'
-      ? 'waiting'
-      : status === 'error'
-        ? 'error'
-        : 'loading';
-  const locationValue = entry?.location;
-  const location = Array.isArray(locationValue)
-    ? { x: Number(locationValue[0]), y: Number(locationValue[1]) }
-    : locationValue;
-  return {
-    index,
-    state,
-    classification: occupancy?.classification || entry?.classification || (state === 'occupied' ? 'green' : state === 'empty' ? 'red' : undefined),
-    prediction: occupancy?.label || entry?.prediction || (state === 'loading' ? 'processing' : state === 'error' ? 'analysis error' : state),
-    detectedFrames: Number(occupancy?.detected_frames ?? entry?.detected_frames ?? entry?.detectedFrames ?? 0),
-    evaluatedFrames: Number(occupancy?.evaluated_frames ?? entry?.evaluated_frames ?? entry?.evaluatedFrames ?? 0),
-    ratio: Number(occupancy?.ratio ?? entry?.ratio ?? 0),
-    peopleCount: Number(entry?.people_count ?? entry?.peopleCount ?? 0),
-    score: entry?.score == null ? null : Number(entry.score),
-    location,
-    targets: Array.isArray(entry?.targets) ? entry.targets : [],
-    labels: Array.isArray(entry?.labels) ? entry.labels : [],
-    activityLabels: Array.isArray(entry?.activity_labels ?? entry?.activityLabels) ? (entry.activity_labels ?? entry.activityLabels) : [],
-    xyMap: entry?.xy_map || entry?.xyMap || entry?.analysis?.xy_map,
-    cameraFilename: entry?.camera_filename || entry?.cameraFilename,
-    error: entry?.error,
-  };
-}
+  const load = useCallback(async () => {
+    const response = await fetch(endpoint, { cache: 'no-store' });
+    if (response.status === 404) {
+      setAvailable(false);
+      return;
+    }
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      setError(data.error || 'Unable to load interval labels');
+      return;
+    }
+    setAvailable(true);
+    setIntervals(Array.isArray(data.intervals) ? data.intervals : []);
+    setTiming(data.timing);
+    setRevision(Number(data.revision || 0));
+  }, [endpoint]);
 
-function Heatmap({ payload, tracking = false }: { payload: any; tracking?: boolean }) {
-  const ref = useRef<HTMLCanvasElement>(null);
-  const frames = Array.isArray(payload?.frames) && payload.frames.length ? payload.frames : [payload];
-  const [frameIndex, setFrameIndex] = useState(0);
-  const [playing, setPlaying] = useState(frames.length > 1);
-  const [occupancyThreshold, setOccupancyThreshold] = useState(Number(payload?.occupancy?.threshold_percent ?? 50));
-  const latest = frames[Math.min(frameIndex, frames.length - 1)] || payload;
-  const confirmed = latest?.detected === true;
-  const snr = Number(latest?.snr_db);
-  const threshold = Number(latest?.threshold_normalized ?? payload?.threshold_normalized);
-  const detectedFrames = Number(payload?.occupancy?.detected_frames) || 0;
-  const evaluatedFrames = Number(payload?.occupancy?.evaluated_frames) || 0;
-  const detectedPercent = evaluatedFrames ? detectedFrames * 100 / evaluatedFrames : 0;
-  const occupancyLabel = evaluatedFrames > 0 && detectedPercent >= occupancyThreshold ? 'occupied' : 'empty';
   useEffect(() => {
-    const canvas = ref.current;
-    const z = frameImage(latest, payload?.z);
-    if (!canvas || !Array.isArray(z) || !z.length) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    const rows = z.length;
-    const cols = Math.max(...z.map((row: unknown[]) => row?.length || 0));
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    z.forEach((row: number[], y: number) => row.forEach((value, x) => {
-      const t = Math.max(0, Math.min(1, Number(value) || 0));
-      const [red, green, blue] = viridis(t);
-      ctx.fillStyle = `rgb(${red} ${green} ${blue})`;
-      ctx.fillRect(x * canvas.width / cols, (rows - 1 - y) * canvas.height / rows, canvas.width / cols + 1, canvas.height / rows + 1);
-    }));
-    if (tracking) {
-      const room = payload?.room || {};
-      const width = Number(room.width_m) || Number(payload?.x?.at?.(-1)) || 1;
-      const depth = Number(room.depth_m) || Number(payload?.y?.at?.(-1)) || 1;
-      const point = (x: number, y: number) => [x * canvas.width / width, canvas.height - y * canvas.height / depth];
-      ctx.strokeStyle = '#e2e8f0'; ctx.lineWidth = 3; ctx.strokeRect(1, 1, canvas.width - 2, canvas.height - 2);
-      const cones = Array.isArray(room.radar_cones) && room.radar_cones.length ? room.radar_cones : [{ wall: room.sensor_wall || 'Back', position_m: room.sensor_position_m || width / 2, horizontal_deg: 40, range_m: 15 }];
-      cones.filter((cone: any) => cone.enabled !== false).forEach((cone: any) => {
-        const wall = cone.wall || 'Back', position = Number(cone.position_m || 0);
-        const origin = wall === 'Back' ? [position, 0] : wall === 'Front' ? [position, depth] : wall === 'Left' ? [0, position] : [width, position];
-        const heading = wall === 'Back' ? 90 : wall === 'Front' ? -90 : wall === 'Left' ? 0 : 180;
-        const center = (heading + Number(cone.azimuth_deg || 0)) * Math.PI / 180;
-        const half = Number(cone.horizontal_deg || 40) * Math.PI / 360, range = Number(cone.range_m || 15);
-        const ends = [-half, half].map((offset) => [origin[0] + Math.cos(center + offset) * range, origin[1] + Math.sin(center + offset) * range]);
-        const o = point(origin[0], origin[1]), a = point(ends[0][0], ends[0][1]), b = point(ends[1][0], ends[1][1]);
-        ctx.beginPath(); ctx.moveTo(o[0], o[1]); ctx.lineTo(a[0], a[1]); ctx.lineTo(b[0], b[1]); ctx.closePath(); ctx.fillStyle = 'rgba(34,211,238,.14)'; ctx.fill(); ctx.strokeStyle = '#22d3ee'; ctx.stroke();
+    load();
+  }, [load]);
+
+  const save = async (next: Array<Partial<LabelInterval>>) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intervals: next, revision }),
       });
-      (room.furniture || []).forEach((item: any) => { const a = point(Number(item.x || 0), Number(item.y || 0) + Number(item.depth || .8)); const b = point(Number(item.x || 0) + Number(item.width || .8), Number(item.y || 0)); ctx.fillStyle = 'rgba(168,162,158,.35)'; ctx.fillRect(a[0], a[1], b[0] - a[0], b[1] - a[1]); });
-      (room.zones || []).forEach((zone: any) => { const a = point(Number(zone.x || 0), Number(zone.y || 0) + Number(zone.depth || 1)); const b = point(Number(zone.x || 0) + Number(zone.width || 1), Number(zone.y || 0)); ctx.fillStyle = `${zone.color || '#22c55e'}22`; ctx.fillRect(a[0], a[1], b[0] - a[0], b[1] - a[1]); ctx.strokeStyle = zone.color || '#22c55e'; ctx.lineWidth = 2; ctx.strokeRect(a[0], a[1], b[0] - a[0], b[1] - a[1]); ctx.fillStyle = zone.color || '#22c55e'; ctx.font = 'bold 14px sans-serif'; ctx.fillText(String(zone.label || 'Zone'), a[0] + 7, a[1] + 18); });
-      const targets = Array.isArray(latest?.targets) ? latest.targets : [];
-      targets.forEach((target: any) => { const position = target?.position || []; if (!Number.isFinite(Number(position[0])) || !Number.isFinite(Number(position[1]))) return; const p = point(Number(position[0]), Number(position[1])); const error = Number(target.position_error_m || 0); ctx.beginPath(); ctx.arc(p[0], p[1], Math.max(7, error * canvas.width / width), 0, Math.PI * 2); ctx.fillStyle = 'rgba(239,68,68,.24)'; ctx.fill(); ctx.strokeStyle = '#ef4444'; ctx.lineWidth = 3; ctx.stroke(); ctx.fillStyle = '#fff'; ctx.font = 'bold 18px sans-serif'; ctx.fillText(`T${target.id} ${Number(position[0]).toFixed(2)},${Number(position[1]).toFixed(2)} ±${error.toFixed(2)}m`, p[0] + 10, p[1] - 10); });
+      const data = await response.json();
+      if (response.status === 409) {
+        await load();
+        throw new Error('The manifest changed while you were editing; reloaded the latest intervals');
+      }
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to save interval labels');
+      setIntervals(data.intervals);
+      setRevision(Number(data.revision || 0));
+      setLabels('');
+      setStart('');
+      setEnd('');
+      onSaved();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Unable to save interval labels');
+    } finally {
+      setSaving(false);
     }
-  }, [latest, payload, tracking]);
-  useEffect(() => {
-    setFrameIndex(0);
-    setPlaying(frames.length > 1);
-    setOccupancyThreshold(Number(payload?.occupancy?.threshold_percent ?? 50));
-  }, [payload, frames.length]);
-  useEffect(() => {
-    if (!playing || frames.length < 2) return;
-    const timer = window.setInterval(() => setFrameIndex((current) => (current + 1) % frames.length), Math.min(750, Number(payload?.frame_interval_ms) || 120));
-    return () => window.clearInterval(timer);
-  }, [frames.length, payload?.frame_interval_ms, playing]);
-  return <div className="space-y-3">
-    <canvas ref={ref} width={720} height={720} className="mx-auto h-auto w-full max-w-3xl bg-slate-950" />
-    {tracking && <div className="mx-auto flex max-w-3xl items-center gap-3 text-[11px] font-mono text-slate-600"><span>0</span><div className="h-2 flex-1 rounded-full" style={{ background: 'linear-gradient(90deg,#440154,#3b528b,#21918c,#5ec962,#fde725)' }} /><span>1 normalized intensity</span></div>}
-    {frames.length > 1 && <div className="flex items-center gap-3 text-xs text-slate-600">
-      <button type="button" onClick={() => setPlaying((value) => !value)} className="rounded-md border border-slate-300 bg-white px-3 py-1.5 font-semibold hover:bg-slate-50">{playing ? 'Pause' : 'Play'}</button>
-      <input aria-label="Localization frame" type="range" min={0} max={frames.length - 1} value={frameIndex} onChange={(event) => { setPlaying(false); setFrameIndex(Number(event.target.value)); }} className="min-w-0 flex-1 accent-cyan-600" />
-      <span className="w-20 text-right font-mono">{frameIndex + 1} / {frames.length}</span>
-    </div>}
-    {tracking && <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
-      <span className={`rounded-full px-2.5 py-1 font-semibold ${confirmed ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-600'}`}>
-        {confirmed ? 'Target detected' : 'No current target'}
-      </span>
-      {Number.isFinite(snr) && Number.isFinite(threshold) && <span className="font-mono text-slate-600">
-        Normalized gate {threshold.toFixed(2)} / diagnostic SNR {snr.toFixed(1)} dB
-      </span>}
-      {payload?.occupancy && <span className="font-semibold capitalize text-slate-700">
-        Minute: {occupancyLabel} — {detectedFrames} / {evaluatedFrames} frames detected ({Math.round(detectedPercent * 10) / 10}%)
-      </span>}
-      {payload?.occupancy && <label className="flex items-center gap-2 font-medium text-slate-600">
-        Occupied at ≥
-        <input aria-label="Occupancy threshold percentage" type="number" min={0} max={100} step={1} value={occupancyThreshold} onChange={(event) => setOccupancyThreshold(Math.min(100, Math.max(0, Number(event.target.value) || 0)))} className="w-16 rounded-md border border-slate-300 px-2 py-1 text-right" />%
-      </label>}
-    </div>}
-  </div>;
-}
+  };
 
-function LinePlot({ points }: { points: number[] }) {
-  const clean = (points || []).filter(Number.isFinite);
-  const min = Math.min(...clean), max = Math.max(...clean);
-  const path = clean.map((v, i) => `${i ? 'L' : 'M'} ${i * 800 / Math.max(1, clean.length - 1)} ${240 - (v - min) * 220 / (max - min || 1)}`).join(' ');
-  return <svg viewBox="0 0 800 260" className="w-full bg-slate-950"><path d={path} fill="none" stroke="#22d3ee" strokeWidth="2" /></svg>;
+  if (!available) {
+    return <div className="p-4 text-sm text-slate-500">Interval labels are edited on the hub that stores this minute.</div>;
+  }
+  if (!timing) return <div className="p-4 text-sm text-slate-500">Loading interval labels…</div>;
+
+  const entered = labels.split(',').map((label) => label.trim()).filter(Boolean);
+  const added: Array<Partial<LabelInterval>> = selectedChunks.length
+    ? selectedChunks.map((index) => ({ chunk_index: index, labels: entered }))
+    : start !== '' && end !== '' ? [{ start_s: Number(start), end_s: Number(end), labels: entered }] : [];
+  const lanes = intervalLanes(intervals);
+  const laneCount = Math.max(1, ...lanes.map((lane) => lane + 1));
+
+  return <div className="space-y-4">
+    <div className="relative border border-slate-200 bg-slate-50" style={{ height: `${laneCount * 28 + 20}px` }}>
+      {Array.from({ length: timing.expectedChunks }, (_, index) => (
+        <div key={index} className={`absolute inset-y-0 border-l border-slate-200 ${selectedChunks.includes(index) ? 'bg-cyan-100' : ''}`} style={{ left: `${index * 100 / timing.expectedChunks}%`, width: `${100 / timing.expectedChunks}%` }}>
+          <span className="absolute bottom-0.5 left-1 text-[10px] text-slate-500">{index * timing.chunkSeconds}s</span>
+        </div>
+      ))}
+      {intervals.map((interval, index) => (
+        <div
+          key={interval.id}
+          title={`${interval.start_s}–${interval.end_s}s: ${interval.labels.join(', ')}`}
+          className="absolute flex h-6 items-center justify-between gap-1 overflow-hidden rounded-sm bg-cyan-700 px-1.5 text-[11px] font-semibold text-white"
+          style={{ left: `${interval.start_s * 100 / timing.durationSeconds}%`, width: `${(interval.end_s - interval.start_s) * 100 / timing.durationSeconds}%`, top: `${lanes[index] * 28 + 2}px` }}
+        >
+          <span className="truncate">{interval.labels.join(', ')}</span>
+          <button type="button" aria-label="Remove interval" disabled={saving} onClick={() => save(intervals.filter((item) => item.id !== interval.id))} className="shrink-0 opacity-80 hover:opacity-100">×</button>
+        </div>
+      ))}
+    </div>
+    <div className="flex flex-wrap items-end gap-3 text-sm">
+      <label className="flex min-w-[12rem] flex-1 flex-col gap-1"><span className="text-xs text-slate-500">Labels</span>
+        <input value={labels} onChange={(event) => setLabels(event.target.value)} placeholder="walking, 1-person" className="rounded-md border border-slate-300 px-2 py-1.5" />
+      </label>
+      {selectedChunks.length ? <div className="text-xs text-slate-600">{selectedChunks.length} selected chunk{selectedChunks.length === 1 ? '' : 's'} ({selectedChunks.map((index) => index + 1).join(', ')})</div> : <>
+        <label className="flex flex-col gap-1"><span className="text-xs text-slate-500">Start (s)</span>
+          <input type="number" min={0} max={timing.durationSeconds} step={0.1} value={start} onChange={(event) => setStart(event.target.value)} className="w-24 rounded-md border border-slate-300 px-2 py-1.5" />
+        </label>
+        <label className="flex flex-col gap-1"><span className="text-xs text-slate-500">End (s)</span>
+          <input type="number" min={0} max={timing.durationSeconds} step={0.1} value={end} onChange={(event) => setEnd(event.target.value)} className="w-24 rounded-md border border-slate-300 px-2 py-1.5" />
+        </label>
+      </>}
+      <button type="button" disabled={saving || !entered.length || !added.length} onClick={() => save([...intervals, ...added])} className="rounded-md bg-slate-950 px-3 py-1.5 font-semibold text-white hover:bg-slate-800 disabled:opacity-50">
+        {saving ? 'Saving…' : 'Add interval'}
+      </button>
+    </div>
+    <p className="text-xs text-slate-500">Select chunks below to label them, or enter a range in seconds. {timing.expectedChunks} chunks of {timing.chunkSeconds}s.</p>
+    {error && <div className="text-sm text-red-700">{error}</div>}
+  </div>;
 }
 
 export default function CaptureViewerPage() {
@@ -215,8 +150,11 @@ export default function CaptureViewerPage() {
   const [waiting, setWaiting] = useState(true);
   const [liveChunks, setLiveChunks] = useState<any[]>([]);
   const [storedChunks, setStoredChunks] = useState<any[]>([]);
+  const [localLive, setLocalLive] = useState(false);
+  const [selectedChunks, setSelectedChunks] = useState<number[]>([]);
   const liveCursor = useRef<string | null>(null);
   const liveLoading = useRef(false);
+  const scrolledToHash = useRef(false);
 
   const load = useCallback(async () => {
     if (!user?.token) return;
@@ -292,11 +230,39 @@ export default function CaptureViewerPage() {
     return () => window.clearInterval(timer);
   }, [load, waiting]);
 
+  const streamConnected = useMinuteEvents((event) => {
+    const chunk = event.chunk;
+    if (!chunk) return;
+    setLocalLive(true);
+    setLiveChunks((current) => {
+      const merged = new Map<number, any>(
+        current.map((entry): [number, any] => [Number(entry.chunk_index), entry]),
+      );
+      merged.set(chunk.index, {
+        chunk_index: chunk.index,
+        status: chunk.state,
+        classification: chunk.classification,
+        prediction: typeof chunk.prediction === 'string' ? chunk.prediction : undefined,
+        location: chunk.location,
+        ratio: chunk.ratio,
+        score: chunk.score,
+        detected_frames: chunk.detectedFrames,
+        evaluated_frames: chunk.evaluatedFrames,
+        error: chunk.error,
+      });
+      return Array.from(merged.values()).sort((a, b) => Number(a.chunk_index) - Number(b.chunk_index));
+    });
+  }, { minutes: [params.minute] });
+  // Fast polling resumes whenever the stream drops.
+  const streaming = localLive && streamConnected;
+
   useEffect(() => {
     loadLiveChunks();
+    // Once the local minute stream delivers chunks, it replaces fast polling.
+    if (streaming) return;
     const timer = window.setInterval(loadLiveChunks, 500);
     return () => window.clearInterval(timer);
-  }, [loadLiveChunks]);
+  }, [loadLiveChunks, streaming]);
 
   useEffect(() => {
     loadStoredChunks();
@@ -325,31 +291,28 @@ export default function CaptureViewerPage() {
     .filter((chunk) => chunk.state !== 'waiting')
     .sort((a, b) => a.index - b.index);
 
+  // Search results link to #chunk-N; the chunks only exist once data arrives.
+  useEffect(() => {
+    if (scrolledToHash.current || !chunks.length || !window.location.hash) return;
+    const target = document.getElementById(window.location.hash.slice(1));
+    if (!target) return;
+    target.scrollIntoView({ block: 'center' });
+    scrolledToHash.current = true;
+  }, [chunks.length]);
+
   return <div className="space-y-6 text-slate-950">
     <header className="border border-slate-300 bg-white p-5"><div className="text-xs font-semibold uppercase text-slate-600">Live capture metadata</div><h1 className="mt-1 font-mono text-2xl font-semibold">{params.minute}</h1><p className="mt-2 text-sm text-slate-700">Device {params.deviceId}</p></header>
     {waiting && <div className="sr-only" role="status">Live metadata is updating while capture files remain on the device.</div>}
+    <section className="border border-slate-300 bg-white p-4">
+      <div className="mb-4"><div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Interval labels</div><h2 className="mt-1 text-xl font-semibold">Labels on chunks and time ranges</h2></div>
+      <IntervalEditor minute={params.minute} selectedChunks={selectedChunks} onSaved={() => setSelectedChunks([])} />
+    </section>
     <section className="border border-slate-300 bg-white p-4">
       <div className="mb-4"><div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Detection windows</div><h2 className="mt-1 text-xl font-semibold">All captured chunks and detections</h2></div>
       {chunks.length ? <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
         {chunks.map((chunk) => {
-          const location = chunk.location && Number.isFinite(Number(chunk.location.x)) && Number.isFinite(Number(chunk.location.y))
-            ? `${Number(chunk.location.x).toFixed(2)}, ${Number(chunk.location.y).toFixed(2)} m`
-            : 'N/A';
-          return <article key={chunk.index} className="overflow-hidden border border-slate-200 bg-slate-50">
-            <div className="flex items-center justify-between gap-3 p-4 pb-3">
-              <strong>Chunk {chunk.index + 1}</strong>
-              <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase text-slate-600"><span className="h-2.5 w-2.5 rounded-full" style={chunkDotStyle(chunk.state, chunk.classification)} />{chunk.prediction}</span>
-            </div>
-            {chunk.xyMap ? <CompactXYMap map={chunk.xyMap} /> : <div className="flex aspect-square items-center justify-center bg-slate-950 text-xs font-medium text-slate-400">{chunk.state === 'loading' ? 'Map loading' : 'Map unavailable'}</div>}
-            <div className="grid grid-cols-2 gap-3 p-4 text-sm">
-              <div><span className="block text-xs text-slate-500">Detected frames</span>{chunk.detectedFrames} / {chunk.evaluatedFrames}</div>
-              <div><span className="block text-xs text-slate-500">Detection ratio</span>{(chunk.ratio * 100).toFixed(1)}%</div>
-              <div><span className="block text-xs text-slate-500">People</span>{chunk.peopleCount}</div>
-              <div><span className="block text-xs text-slate-500">Normalized peak</span>{chunk.score == null ? 'N/A' : chunk.score.toFixed(3)}</div>
-              <div className="col-span-2"><span className="block text-xs text-slate-500">Coordinates</span>{location}</div>
-              {chunk.error && <div className="col-span-2 text-red-700">{chunk.error}</div>}
-            </div>
-          </article>;
+          const selected = selectedChunks.includes(chunk.index);
+          return <ChunkCard key={chunk.index} chunk={chunk} selected={selected} onToggle={() => setSelectedChunks((current) => (selected ? current.filter((index) => index !== chunk.index) : [...current, chunk.index].sort((a, b) => a - b)))} />;
         })}
       </div> : <div className="border border-dashed border-slate-300 p-8 text-sm text-slate-500">Waiting for the first 10-frame chunk.</div>}
     </section>
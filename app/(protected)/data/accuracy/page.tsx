@@ -0,0 +1,269 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowUpRight, Download, RefreshCw, Target } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import type { AccuracyBucket, ModelEvaluation } from '@/lib/predictionEvaluation';
+
+function percent(value: number | null) {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function AccuracyBars({ title, buckets }: { title: string; buckets: AccuracyBucket[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold">{title}</h3>
+      <ul className="mt-2 space-y-1.5">
+        {buckets.map((bucket) => (
+          <li key={bucket.key} className="grid grid-cols-[8rem_minmax(0,1fr)_5rem] items-center gap-2 text-xs">
+            <span className="truncate font-mono text-slate-700">{bucket.key}</span>
+            <span className="h-2 overflow-hidden rounded-full bg-slate-100">
+              <span
+                className="block h-full rounded-full bg-emerald-500"
+                style={{ width: `${(bucket.accuracy || 0) * 100}%` }}
+              />
+            </span>
+            <span className="text-right text-slate-600">{percent(bucket.accuracy)} · {bucket.total}</span>
+          </li>
+        ))}
+        {!buckets.length && <li className="text-xs text-slate-500">No scored predictions.</li>}
+      </ul>
+    </div>
+  );
+}
+
+export default function PredictionAccuracyPage() {
+  const toast = useToast();
+  const [evaluations, setEvaluations] = useState<ModelEvaluation[]>([]);
+  const [models, setModels] = useState<string[]>([]);
+  const [devices, setDevices] = useState<string[]>([]);
+  const [model, setModel] = useState('');
+  const [device, setDevice] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [cell, setCell] = useState<{ model: string; actual: string; predicted: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (model) params.set('model', model);
+      if (device) params.set('device', device);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await fetch(`/api/data/predictions/evaluation?${params}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to evaluate predictions');
+      setEvaluations(Array.isArray(data.evaluations) ? data.evaluations : []);
+      setModels(Array.isArray(data.models) ? data.models : []);
+      setDevices(Array.isArray(data.devices) ? data.devices : []);
+      setCell(null);
+    } catch (error) {
+      toast.error('Evaluation failed', error instanceof Error ? error.message : 'Unable to evaluate predictions');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, model, device, from, to]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const exportHref = (format: string) => {
+    const params = new URLSearchParams({ format });
+    if (model) params.set('model', model);
+    if (device) params.set('device', device);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return `/api/data/predictions/export?${params}`;
+  };
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Prediction accuracy</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Each model's predictions scored against the manual labels of the minutes they were made on. Predictions on minutes without a matching label are not scored.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <select value={model} onChange={(event) => setModel(event.target.value)} className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm">
+              <option value="">All models</option>
+              {models.map((name) => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select value={device} onChange={(event) => setDevice(event.target.value)} className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm">
+              <option value="">All devices</option>
+              {devices.map((key) => <option key={key} value={key}>{key}</option>)}
+            </select>
+            <input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className="rounded-xl border border-slate-300 px-3 py-2 text-sm" />
+            <input type="date" value={to} onChange={(event) => setTo(event.target.value)} className="rounded-xl border border-slate-300 px-3 py-2 text-sm" />
+            {['csv', 'jsonl', 'parquet'].map((format) => (
+              <a
+                key={format}
+                href={exportHref(format)}
+                className="inline-flex items-center justify-center gap-1.5 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100"
+              >
+                <Download className="h-4 w-4" />
+                {format.toUpperCase()}
+              </a>
+            ))}
+            <button
+              type="button"
+              onClick={load}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {evaluations.map((evaluation) => {
+        const drill = cell?.model === evaluation.model
+          ? evaluation.misclassified.filter((item) => item.actual === cell.actual && item.predicted === cell.predicted)
+          : evaluation.misclassified;
+        return (
+          <section key={evaluation.model} className="space-y-4 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h2 className="font-mono text-lg font-semibold">{evaluation.model}</h2>
+              <p className="text-xs text-slate-500">
+                {evaluation.unlabeled} without a label · {evaluation.ambiguous} with conflicting labels · {evaluation.unscored} unreadable
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {[
+                ['Accuracy', percent(evaluation.accuracy)],
+                ['Macro F1', percent(evaluation.macroF1)],
+                ['Scored', String(evaluation.evaluated)],
+                ['Misclassified', String(evaluation.misclassifiedCount)],
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">{label}</div>
+                  <div className="mt-1 text-lg font-semibold">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="overflow-x-auto">
+                <h3 className="text-sm font-semibold">Confusion matrix</h3>
+                <p className="text-xs text-slate-500">Rows are labels, columns predictions. Select an off-diagonal cell to list those minutes.</p>
+                <table className="mt-2 text-xs">
+                  <thead>
+                    <tr>
+                      <th className="p-1.5 text-left text-slate-500">label ↓ / predicted →</th>
+                      {evaluation.classes.map((label) => <th key={label} className="p-1.5 font-mono">{label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {evaluation.classes.map((actual, row) => (
+                      <tr key={actual}>
+                        <th className="p-1.5 text-left font-mono">{actual}</th>
+                        {evaluation.classes.map((predicted, column) => {
+                          const count = evaluation.matrix[row][column];
+                          const active = cell?.model === evaluation.model && cell.actual === actual && cell.predicted === predicted;
+                          return (
+                            <td key={predicted} className="p-0.5">
+                              <button
+                                type="button"
+                                disabled={row === column || !count}
+                                onClick={() => setCell(active ? null : { model: evaluation.model, actual, predicted })}
+                                className={`w-full min-w-[3rem] rounded-md px-2 py-1.5 font-semibold ${
+                                  row === column
+                                    ? 'bg-emerald-100 text-emerald-900'
+                                    : count
+                                      ? active ? 'bg-red-600 text-white' : 'bg-red-100 text-red-900 hover:bg-red-200'
+                                      : 'bg-slate-50 text-slate-400'
+                                }`}
+                              >
+                                {count}
+                              </button>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="overflow-x-auto">
+                <h3 className="text-sm font-semibold">Per class</h3>
+                <table className="mt-2 w-full text-xs">
+                  <thead className="text-left text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-2">Label</th>
+                      <th className="py-1 pr-2">Precision</th>
+                      <th className="py-1 pr-2">Recall</th>
+                      <th className="py-1 pr-2">F1</th>
+                      <th className="py-1">Support</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {evaluation.perClass.map((item) => (
+                      <tr key={item.label}>
+                        <td className="py-1 pr-2 font-mono">{item.label}</td>
+                        <td className="py-1 pr-2">{percent(item.precision)}</td>
+                        <td className="py-1 pr-2">{percent(item.recall)}</td>
+                        <td className="py-1 pr-2">{percent(item.f1)}</td>
+                        <td className="py-1">{item.support}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <AccuracyBars title="Accuracy by day" buckets={evaluation.byDay} />
+              <AccuracyBars title="Accuracy by device" buckets={evaluation.byDevice} />
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold">
+                Misclassified{cell?.model === evaluation.model ? `: labeled ${cell.actual}, predicted ${cell.predicted}` : ''}
+              </h3>
+              {evaluation.misclassifiedCount > evaluation.misclassified.length && (
+                <p className="text-xs text-slate-500">Showing the latest {evaluation.misclassified.length} of {evaluation.misclassifiedCount}.</p>
+              )}
+              <ul className="mt-2 divide-y divide-slate-100">
+                {drill.map((item, index) => (
+                  <li key={`${item.minute}-${item.chunk_index}-${index}`} className="flex items-center justify-between gap-2 py-1.5 text-xs">
+                    <span>
+                      <span className="font-mono font-semibold">{item.minute}</span>
+                      {item.chunk_index !== null ? ` · chunk ${item.chunk_index}` : ''} · {item.deviceKey} · labeled <strong>{item.actual}</strong>, predicted <strong>{item.predicted}</strong>
+                      {item.probability !== null ? ` (${item.probability.toFixed(2)})` : ''}
+                    </span>
+                    <Link
+                      href={`/captures/${encodeURIComponent(item.deviceId)}/${encodeURIComponent(item.minute)}${item.chunk_index !== null ? `#chunk-${item.chunk_index}` : ''}`}
+                      className="inline-flex shrink-0 items-center gap-1 rounded-lg border border-slate-300 px-2 py-0.5 font-semibold hover:bg-slate-100"
+                    >
+                      Open
+                      <ArrowUpRight className="h-3 w-3" />
+                    </Link>
+                  </li>
+                ))}
+                {!drill.length && <li className="py-2 text-xs text-slate-500">No misclassified predictions.</li>}
+              </ul>
+            </div>
+          </section>
+        );
+      })}
+
+      {!loading && !evaluations.length && (
+        <div className="flex items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-sm text-slate-600">
+          <Target className="h-4 w-4" />
+          No predictions stored for these filters.
+        </div>
+      )}
+    </div>
+  );
+}
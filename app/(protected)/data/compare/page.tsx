@@ -0,0 +1,323 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { ArrowUpRight, GitCompare, RefreshCw, X } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import type { ChunkDisagreement, DisagreementHotspot, PairAgreement } from '@/lib/modelComparison';
+
+type Comparison = {
+  models: string[];
+  compared: string[];
+  devices: string[];
+  shared: number;
+  unanimous: number;
+  agreementRate: number | null;
+  pairs: PairAgreement[];
+  hotspots: DisagreementHotspot[];
+  disagreements: ChunkDisagreement[];
+  disagreementCount: number;
+};
+
+type ChunkOutputs = {
+  minute: string;
+  deviceId: string;
+  labels: string[];
+  chunk_index: number | null;
+  entries: Array<Record<string, any>>;
+};
+
+function percent(value: number | null) {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+// The first 2-D numeric array in a model output: heatmaps are stored under
+// different keys (heatmap, z, xy_map.z, …) depending on the model.
+function findHeatmap(value: any, depth = 0): number[][] | null {
+  if (!value || typeof value !== 'object' || depth > 3) return null;
+  if (Array.isArray(value)) {
+    return value.length > 1 && value.every((row) => Array.isArray(row) && row.length && row.every((cell) => typeof cell === 'number'))
+      ? value
+      : null;
+  }
+  for (const key of Object.keys(value)) {
+    const found = findHeatmap(value[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+function HeatmapCanvas({ z }: { z: number[][] }) {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = ref.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const values = z.flat();
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const rows = z.length;
+    const cols = Math.max(...z.map((row) => row.length));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    z.forEach((row, y) => row.forEach((value, x) => {
+      const t = max > min ? (value - min) / (max - min) : 0;
+      ctx.fillStyle = `hsl(${240 - t * 180} 80% ${20 + t * 45}%)`;
+      ctx.fillRect(x * canvas.width / cols, (rows - 1 - y) * canvas.height / rows, canvas.width / cols + 1, canvas.height / rows + 1);
+    }));
+  }, [z]);
+  return <canvas ref={ref} width={240} height={180} className="w-full rounded-lg bg-slate-950" />;
+}
+
+export default function ModelComparisonPage() {
+  const toast = useToast();
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+  const [device, setDevice] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [drill, setDrill] = useState<ChunkOutputs | null>(null);
+  const [radarFailed, setRadarFailed] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      selectedModels.forEach((model) => params.append('model', model));
+      if (device) params.set('device', device);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await fetch(`/api/data/predictions/compare?${params}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to compare models');
+      setComparison(data);
+    } catch (error) {
+      toast.error('Comparison failed', error instanceof Error ? error.message : 'Unable to compare models');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, selectedModels, device, from, to]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openChunk = async (item: ChunkDisagreement) => {
+    try {
+      const params = new URLSearchParams(item.chunk_index === null ? {} : { chunk: String(item.chunk_index) });
+      const response = await fetch(`/api/data/predictions/compare/${encodeURIComponent(item.minute)}?${params}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load model outputs');
+      setRadarFailed(false);
+      setDrill(data);
+    } catch (error) {
+      toast.error('Drill-down failed', error instanceof Error ? error.message : 'Unable to load model outputs');
+    }
+  };
+
+  const toggleModel = (model: string) => {
+    setSelectedModels((current) => (current.includes(model) ? current.filter((item) => item !== model) : [...current, model]));
+  };
+
+  const compared = comparison?.compared || [];
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Model comparison</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Per-chunk outputs of deployed models aligned on the minutes they both scored. Only chunks with at least two of the selected models are compared.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <select value={device} onChange={(event) => setDevice(event.target.value)} className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm">
+              <option value="">All devices</option>
+              {(comparison?.devices || []).map((key) => <option key={key} value={key}>{key}</option>)}
+            </select>
+            <input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className="rounded-xl border border-slate-300 px-3 py-2 text-sm" />
+            <input type="date" value={to} onChange={(event) => setTo(event.target.value)} className="rounded-xl border border-slate-300 px-3 py-2 text-sm" />
+            <button
+              type="button"
+              onClick={load}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {(comparison?.models || []).map((model) => (
+            <label key={model} className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-slate-300 px-2.5 py-1 font-mono text-xs">
+              <input type="checkbox" checked={!selectedModels.length || selectedModels.includes(model)} onChange={() => toggleModel(model)} />
+              {model}
+            </label>
+          ))}
+        </div>
+      </section>
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            {[
+              ['Agreement', percent(comparison.agreementRate)],
+              ['Shared chunks', String(comparison.shared)],
+              ['Unanimous', String(comparison.unanimous)],
+              ['Disagreements', String(comparison.disagreementCount)],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl border border-slate-200 bg-white p-3 shadow-sm">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">{label}</div>
+                <div className="mt-1 text-lg font-semibold">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+              <h2 className="text-lg font-semibold">Pairwise agreement</h2>
+              <table className="mt-2 w-full text-xs">
+                <thead className="text-left text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-2">Models</th>
+                    <th className="py-1 pr-2">Shared</th>
+                    <th className="py-1">Agreement</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {comparison.pairs.map((pair) => (
+                    <tr key={`${pair.a}-${pair.b}`}>
+                      <td className="py-1.5 pr-2 font-mono">{pair.a} ↔ {pair.b}</td>
+                      <td className="py-1.5 pr-2">{pair.shared}</td>
+                      <td className="py-1.5">{percent(pair.rate)}</td>
+                    </tr>
+                  ))}
+                  {!comparison.pairs.length && (
+                    <tr><td colSpan={3} className="py-3 text-slate-500">No minutes were scored by more than one of these models.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+              <h2 className="text-lg font-semibold">Disagreement hotspots</h2>
+              <ul className="mt-2 space-y-1.5">
+                {comparison.hotspots.map((hotspot) => (
+                  <li key={`${hotspot.dimension}-${hotspot.key}`} className="grid grid-cols-[9rem_minmax(0,1fr)_6rem] items-center gap-2 text-xs">
+                    <span className="truncate"><span className="text-slate-500">{hotspot.dimension}</span> <span className="font-mono">{hotspot.key}</span></span>
+                    <span className="h-2 overflow-hidden rounded-full bg-slate-100">
+                      <span className="block h-full rounded-full bg-red-500" style={{ width: `${hotspot.rate * 100}%` }} />
+                    </span>
+                    <span className="text-right text-slate-600">{percent(hotspot.rate)} of {hotspot.shared}</span>
+                  </li>
+                ))}
+                {!comparison.hotspots.length && <li className="text-xs text-slate-500">No device, day, hour or chunk stands out.</li>}
+              </ul>
+            </section>
+          </div>
+
+          <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+            <h2 className="text-lg font-semibold">Disagreements</h2>
+            {comparison.disagreementCount > comparison.disagreements.length && (
+              <p className="text-xs text-slate-500">Showing the latest {comparison.disagreements.length} of {comparison.disagreementCount}.</p>
+            )}
+            <div className="mt-2 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="text-left text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-3">Minute</th>
+                    <th className="py-1 pr-3">Chunk</th>
+                    <th className="py-1 pr-3">Device</th>
+                    {compared.map((model) => <th key={model} className="py-1 pr-3 font-mono">{model}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {comparison.disagreements.map((item) => (
+                    <tr key={`${item.minute}-${item.chunk_index}`} onClick={() => openChunk(item)} className="cursor-pointer hover:bg-slate-50">
+                      <td className="py-1.5 pr-3 font-mono">{item.minute}</td>
+                      <td className="py-1.5 pr-3">{item.chunk_index ?? 'minute'}</td>
+                      <td className="py-1.5 pr-3">{item.deviceKey}</td>
+                      {compared.map((model) => (
+                        <td key={model} className="py-1.5 pr-3">
+                          {item.outputs[model]
+                            ? `${item.outputs[model].predicted}${item.outputs[model].probability !== null ? ` (${item.outputs[model].probability?.toFixed(2)})` : ''}`
+                            : '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  {!comparison.disagreements.length && (
+                    <tr><td colSpan={3 + compared.length} className="py-3 text-slate-500">The models agree on every shared chunk.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+
+      {drill && (
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-semibold">
+                <span className="font-mono">{drill.minute}</span>
+                {drill.chunk_index !== null ? ` · chunk ${drill.chunk_index}` : ''}
+              </h2>
+              <p className="text-xs text-slate-500">Labels: {drill.labels.length ? drill.labels.join(', ') : 'none'}</p>
+            </div>
+            <div className="flex gap-2">
+              <Link
+                href={`/captures/${encodeURIComponent(drill.deviceId)}/${encodeURIComponent(drill.minute)}${drill.chunk_index !== null ? `#chunk-${drill.chunk_index}` : ''}`}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+              >
+                Open minute
+                <ArrowUpRight className="h-3.5 w-3.5" />
+              </Link>
+              <button type="button" onClick={() => setDrill(null)} className="rounded-lg border border-slate-300 p-1 hover:bg-slate-100" aria-label="Close">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+          <div className="mt-3 grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            <article className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+              <h3 className="text-sm font-semibold">Radar range-doppler</h3>
+              {radarFailed ? (
+                <p className="mt-2 text-xs text-slate-500">No radar heatmap could be rendered for this minute.</p>
+              ) : (
+                <img
+                  src={`/api/data/minutes/${encodeURIComponent(drill.minute)}/radar/range-doppler`}
+                  alt={`Range-doppler heatmap of ${drill.minute}`}
+                  onError={() => setRadarFailed(true)}
+                  className="mt-2 w-full rounded-lg bg-white"
+                />
+              )}
+            </article>
+            {drill.entries.map((entry, index) => {
+              const heatmap = findHeatmap(entry);
+              return (
+                <article key={`${entry.model_name}-${index}`} className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                  <h3 className="font-mono text-sm font-semibold">{entry.model_name}</h3>
+                  {heatmap ? <div className="mt-2"><HeatmapCanvas z={heatmap} /></div> : <p className="mt-2 text-xs text-slate-500">No heatmap in this output.</p>}
+                  <pre className="mt-2 max-h-64 overflow-auto rounded-lg bg-white p-2 text-[11px] leading-4">
+                    {JSON.stringify(entry, (key, value) => (Array.isArray(value) && value.length > 16 ? `[${value.length} values]` : value), 2)}
+                  </pre>
+                </article>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {!loading && comparison && comparison.models.length < 2 && (
+        <div className="flex items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-sm text-slate-600">
+          <GitCompare className="h-4 w-4" />
+          Fewer than two models have stored predictions.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Activity, AlertTriangle, RefreshCw } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import type { DriftSeries, ShiftTest } from '@/lib/predictionDrift';
+
+const CLASS_COLORS = ['bg-red-500', 'bg-emerald-500', 'bg-blue-500', 'bg-amber-500', 'bg-violet-500', 'bg-cyan-500', 'bg-slate-500'];
+
+function formatP(test: ShiftTest | null) {
+  if (!test) return '—';
+  return test.pValue < 0.001 ? test.pValue.toExponential(1) : test.pValue.toFixed(3);
+}
+
+function Histogram({ values, highlight }: { values: number[]; highlight?: boolean }) {
+  const max = Math.max(...values, 0.0001);
+  return (
+    <span className="flex h-6 w-24 items-end gap-px" title="Confidence distribution, 0 → 1">
+      {values.map((value, index) => (
+        <span
+          key={index}
+          className={`flex-1 rounded-sm ${highlight ? 'bg-red-400' : 'bg-slate-400'}`}
+          style={{ height: `${Math.max(4, (value / max) * 100)}%`, opacity: value ? 1 : 0.25 }}
+        />
+      ))}
+    </span>
+  );
+}
+
+function ClassMixBar({ mix, classes }: { mix: Record<string, number>; classes: string[] }) {
+  const total = classes.reduce((sum, label) => sum + (mix[label] || 0), 0);
+  return (
+    <span className="flex h-3 w-32 overflow-hidden rounded-full bg-slate-100">
+      {classes.map((label, index) => (
+        <span
+          key={label}
+          className={CLASS_COLORS[index % CLASS_COLORS.length]}
+          style={{ width: `${total ? ((mix[label] || 0) / total) * 100 : 0}%` }}
+          title={`${label}: ${mix[label] || 0}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+export default function PredictionDriftPage() {
+  const toast = useToast();
+  const [series, setSeries] = useState<DriftSeries[]>([]);
+  const [models, setModels] = useState<string[]>([]);
+  const [devices, setDevices] = useState<string[]>([]);
+  const [model, setModel] = useState('');
+  const [device, setDevice] = useState('');
+  const [baselineDays, setBaselineDays] = useState(7);
+  const [baselineFrom, setBaselineFrom] = useState('');
+  const [baselineTo, setBaselineTo] = useState('');
+  const [alpha, setAlpha] = useState(0.01);
+  const [minSamples, setMinSamples] = useState(20);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ baselineDays: String(baselineDays), alpha: String(alpha) });
+      if (model) params.set('model', model);
+      if (device) params.set('device', device);
+      if (baselineFrom) params.set('baselineFrom', baselineFrom);
+      if (baselineTo) params.set('baselineTo', baselineTo);
+      const response = await fetch(`/api/data/predictions/drift?${params}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to analyze drift');
+      setSeries(Array.isArray(data.series) ? data.series : []);
+      setModels(Array.isArray(data.models) ? data.models : []);
+      setDevices(Array.isArray(data.devices) ? data.devices : []);
+      setMinSamples(Number(data.minSamples || 0));
+    } catch (error) {
+      toast.error('Drift analysis failed', error instanceof Error ? error.message : 'Unable to analyze drift');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, model, device, baselineDays, baselineFrom, baselineTo, alpha]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const flagged = series.reduce((sum, item) => sum + item.flaggedDays, 0);
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Prediction drift</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Daily confidence and predicted-class mix per model and device, compared with a baseline window. A day is flagged when either shift is significant; days with fewer than {minSamples} predictions are never flagged.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <select value={model} onChange={(event) => setModel(event.target.value)} className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm">
+              <option value="">All models</option>
+              {models.map((name) => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select value={device} onChange={(event) => setDevice(event.target.value)} className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm">
+              <option value="">All devices</option>
+              {devices.map((key) => <option key={key} value={key}>{key}</option>)}
+            </select>
+            <button
+              type="button"
+              onClick={load}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap items-end gap-3 text-xs font-semibold uppercase tracking-wide text-slate-700">
+          <label>
+            Baseline days
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={baselineDays}
+              disabled={Boolean(baselineFrom || baselineTo)}
+              onChange={(event) => setBaselineDays(Math.max(1, Number(event.target.value) || 1))}
+              className="mt-1 block w-24 rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case disabled:opacity-50"
+            />
+          </label>
+          <label>
+            or baseline from
+            <input type="date" value={baselineFrom} onChange={(event) => setBaselineFrom(event.target.value)} className="mt-1 block rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+          </label>
+          <label>
+            to
+            <input type="date" value={baselineTo} onChange={(event) => setBaselineTo(event.target.value)} className="mt-1 block rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+          </label>
+          <label>
+            Significance
+            <select value={alpha} onChange={(event) => setAlpha(Number(event.target.value))} className="mt-1 block rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-normal normal-case">
+              <option value={0.05}>p &lt; 0.05</option>
+              <option value={0.01}>p &lt; 0.01</option>
+              <option value={0.001}>p &lt; 0.001</option>
+            </select>
+          </label>
+          {!loading && (
+            <span className={`inline-flex items-center gap-1.5 rounded-lg px-2.5 py-2 normal-case ${flagged ? 'bg-red-50 text-red-800' : 'bg-emerald-50 text-emerald-800'}`}>
+              {flagged ? <AlertTriangle className="h-4 w-4" /> : <Activity className="h-4 w-4" />}
+              {flagged ? `${flagged} flagged day${flagged === 1 ? '' : 's'}` : 'No significant shifts'}
+            </span>
+          )}
+        </div>
+      </section>
+
+      {series.map((item) => (
+        <section key={`${item.model}-${item.deviceKey}`} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-lg font-semibold">
+              <span className="font-mono">{item.model}</span>
+              <span className="text-slate-500"> on </span>
+              {item.deviceKey}
+            </h2>
+            <p className="text-xs text-slate-500">
+              Baseline {item.baseline.from || '—'} → {item.baseline.to || '—'} · {item.baseline.count} predictions
+              {item.baseline.meanConfidence !== null ? ` · mean confidence ${item.baseline.meanConfidence.toFixed(2)}` : ''}
+            </p>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-3 text-xs text-slate-600">
+            {item.classes.map((label, index) => (
+              <span key={label} className="inline-flex items-center gap-1">
+                <span className={`h-2.5 w-2.5 rounded-full ${CLASS_COLORS[index % CLASS_COLORS.length]}`} />
+                {label}
+              </span>
+            ))}
+          </div>
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-left text-slate-500">
+                <tr>
+                  <th className="py-1 pr-3">Day</th>
+                  <th className="py-1 pr-3">Predictions</th>
+                  <th className="py-1 pr-3">Confidence</th>
+                  <th className="py-1 pr-3">Mean</th>
+                  <th className="py-1 pr-3">KS p</th>
+                  <th className="py-1 pr-3">Class mix</th>
+                  <th className="py-1">χ² p</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {item.days.map((day) => (
+                  <tr key={day.day} className={day.flagged ? 'bg-red-50' : day.inBaseline ? 'bg-slate-50' : ''}>
+                    <td className="py-1.5 pr-3 font-mono">
+                      {day.day}
+                      {day.inBaseline && <span className="ml-1.5 rounded bg-slate-200 px-1 text-[10px] uppercase text-slate-600">baseline</span>}
+                      {day.flagged && <AlertTriangle className="ml-1.5 inline h-3.5 w-3.5 text-red-600" />}
+                    </td>
+                    <td className="py-1.5 pr-3">{day.count}</td>
+                    <td className="py-1.5 pr-3"><Histogram values={day.histogram} highlight={Boolean(day.confidenceShift && day.confidenceShift.pValue < alpha)} /></td>
+                    <td className="py-1.5 pr-3">{day.meanConfidence === null ? '—' : day.meanConfidence.toFixed(2)}</td>
+                    <td className={`py-1.5 pr-3 ${day.confidenceShift && day.confidenceShift.pValue < alpha ? 'font-semibold text-red-700' : ''}`}>{formatP(day.confidenceShift)}</td>
+                    <td className="py-1.5 pr-3"><ClassMixBar mix={day.classMix} classes={item.classes} /></td>
+                    <td className={`py-1.5 ${day.mixShift && day.mixShift.pValue < alpha ? 'font-semibold text-red-700' : ''}`}>{formatP(day.mixShift)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ))}
+
+      {!loading && !series.length && (
+        <div className="flex items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-sm text-slate-600">
+          <Activity className="h-4 w-4" />
+          No predictions stored for these filters.
+        </div>
+      )}
+    </div>
+  );
+}
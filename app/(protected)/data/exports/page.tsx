@@ -0,0 +1,314 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Boxes, ClipboardList, Eye, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { DatasetStats } from '@/components/DatasetStats';
+import type { DatasetCard } from '@/lib/datasetCard';
+import { formatFileSize } from '@/lib/utils';
+import type { DatasetExportIndex, DatasetExportSummary, DatasetGrouping, DatasetSplit } from '@/lib/datasetExport';
+
+const SPLITS: DatasetSplit[] = ['train', 'val', 'test'];
+const KINDS = ['video', 'radar', 'csi', 'manifest', 'other'];
+
+function SplitTable({ summary }: { summary: DatasetExportSummary }) {
+  return (
+    <table className="mt-2 w-full text-xs">
+      <thead className="text-left text-slate-500">
+        <tr>
+          <th className="py-1 pr-3">Split</th>
+          <th className="py-1 pr-3">Minutes</th>
+          <th className="py-1 pr-3">Groups</th>
+          {summary.labels.map((label) => <th key={label} className="py-1 pr-3 font-mono">{label}</th>)}
+          <th className="py-1">Size</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {SPLITS.map((split) => (
+          <tr key={split}>
+            <td className="py-1.5 pr-3 font-semibold">{split}</td>
+            <td className="py-1.5 pr-3">{summary.splits[split].minutes}</td>
+            <td className="py-1.5 pr-3">{summary.splits[split].groups}</td>
+            {summary.labels.map((label) => <td key={label} className="py-1.5 pr-3">{summary.splits[split].byLabel[label] || 0}</td>)}
+            <td className="py-1.5">{formatFileSize(summary.splits[split].bytes)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function DatasetExportsPage() {
+  const toast = useToast();
+  const [exports, setExports] = useState<DatasetExportSummary[]>([]);
+  const [exportsDir, setExportsDir] = useState('');
+  const [availableLabels, setAvailableLabels] = useState<string[]>([]);
+  const [labels, setLabels] = useState<string[]>([]);
+  const [kinds, setKinds] = useState<string[]>([]);
+  const [groupBy, setGroupBy] = useState<DatasetGrouping>('session');
+  const [ratios, setRatios] = useState<Record<DatasetSplit, number>>({ train: 70, val: 15, test: 15 });
+  const [seed, setSeed] = useState('0');
+  const [name, setName] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [preview, setPreview] = useState<DatasetExportSummary | null>(null);
+  const [cardView, setCardView] = useState<{ index: DatasetExportIndex; card: DatasetCard | null } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [exportsResponse, taxonomyResponse] = await Promise.all([
+        fetch('/api/data/exports', { cache: 'no-store' }),
+        fetch('/api/data/labels/taxonomy', { cache: 'no-store' }),
+      ]);
+      const data = await exportsResponse.json();
+      const taxonomy = await taxonomyResponse.json();
+      if (!exportsResponse.ok || !data.success) throw new Error(data.error || 'Unable to load exports');
+      setExports(Array.isArray(data.exports) ? data.exports : []);
+      setExportsDir(data.exportsDir || '');
+      setAvailableLabels(Array.isArray(taxonomy.taxonomy?.labels) ? taxonomy.taxonomy.labels.map((label: { name: string }) => label.name) : []);
+    } catch (error) {
+      toast.error('Exports failed to load', error instanceof Error ? error.message : 'Unable to load exports');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const submit = async (dryRun: boolean) => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/data/exports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          labels,
+          kinds,
+          groupBy,
+          ratios,
+          seed,
+          name: name || undefined,
+          from: from || undefined,
+          to: to || undefined,
+          preview: dryRun,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to export dataset');
+      setPreview(data.export);
+      if (!dryRun) {
+        toast.success('Dataset exported', `${data.count} minutes written to ${data.path}${data.copied ? ` (${data.copied} files copied)` : ''}`);
+        await load();
+      }
+    } catch (error) {
+      toast.error(dryRun ? 'Preview failed' : 'Export failed', error instanceof Error ? error.message : 'Unable to export dataset');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (exportName: string) => {
+    if (!window.confirm(`Delete export ${exportName}? The minutes it was built from are kept.`)) return;
+    try {
+      const response = await fetch(`/api/data/exports/${encodeURIComponent(exportName)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to delete export');
+      toast.success('Export deleted', exportName);
+      await load();
+    } catch (error) {
+      toast.error('Delete failed', error instanceof Error ? error.message : 'Unable to delete export');
+    }
+  };
+
+  const openCard = async (exportName: string) => {
+    try {
+      const response = await fetch(`/api/data/exports/${encodeURIComponent(exportName)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to read export');
+      setCardView({ index: data.export, card: data.card });
+    } catch (error) {
+      toast.error('Dataset card unavailable', error instanceof Error ? error.message : 'Unable to read export');
+    }
+  };
+
+  const toggle = (list: string[], value: string) => (list.includes(value) ? list.filter((item) => item !== value) : [...list, value]);
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">ML dataset export</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Labeled minutes split into train, val and test folders with an index.csv and index.json, written next to the data{exportsDir ? ` in ${exportsDir}` : ''}. Whole recording sessions or devices go to one split, and the same seed always gives the same split.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-3 text-xs font-semibold uppercase tracking-wide text-slate-700">
+          <div>
+            Labels
+            <div className="mt-1 flex flex-wrap gap-2 normal-case">
+              {availableLabels.map((label) => (
+                <label key={label} className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-slate-300 px-2.5 py-1 font-mono font-normal">
+                  <input type="checkbox" checked={labels.includes(label)} onChange={() => setLabels((current) => toggle(current, label))} />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            Files <span className="font-normal normal-case text-slate-500">(all when none are selected)</span>
+            <div className="mt-1 flex flex-wrap gap-2 normal-case">
+              {KINDS.map((kind) => (
+                <label key={kind} className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-slate-300 px-2.5 py-1 font-normal">
+                  <input type="checkbox" checked={kinds.includes(kind)} onChange={() => setKinds((current) => toggle(current, kind))} />
+                  {kind}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <label>
+              Group by
+              <select value={groupBy} onChange={(event) => setGroupBy(event.target.value as DatasetGrouping)} className="mt-1 block rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-normal normal-case">
+                <option value="session">Recording session</option>
+                <option value="device">Device</option>
+              </select>
+            </label>
+            {SPLITS.map((split) => (
+              <label key={split}>
+                {split} %
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={ratios[split]}
+                  onChange={(event) => setRatios((current) => ({ ...current, [split]: Math.max(0, Number(event.target.value) || 0) }))}
+                  className="mt-1 block w-20 rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case"
+                />
+              </label>
+            ))}
+            <label>
+              Seed
+              <input value={seed} onChange={(event) => setSeed(event.target.value)} className="mt-1 block w-24 rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+            </label>
+            <label>
+              From
+              <input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className="mt-1 block rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+            </label>
+            <label>
+              To
+              <input type="date" value={to} onChange={(event) => setTo(event.target.value)} className="mt-1 block rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+            </label>
+            <label>
+              Name
+              <input value={name} onChange={(event) => setName(event.target.value)} placeholder="generated" className="mt-1 block w-48 rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-2 normal-case">
+            <button
+              type="button"
+              onClick={() => submit(true)}
+              disabled={busy || !labels.length}
+              className="inline-flex items-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <Eye className="h-4 w-4" />
+              Preview split
+            </button>
+            <button
+              type="button"
+              onClick={() => submit(false)}
+              disabled={busy || !labels.length}
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-950 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              <Boxes className="h-4 w-4" />
+              Export
+            </button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="mt-4 rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-sm font-semibold">
+              <span className="font-mono">{preview.name}</span> · {preview.minuteCount} minutes
+            </div>
+            <p className="text-xs text-slate-500">
+              Skipped {preview.skipped.ambiguous} with several selected labels, {preview.skipped.collecting} still collecting, {preview.skipped.empty} without matching files.
+            </p>
+            <SplitTable summary={preview} />
+          </div>
+        )}
+      </section>
+
+      {exports.map((item) => (
+        <section key={item.name} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <h2 className="font-mono text-lg font-semibold">{item.name}</h2>
+              <p className="text-xs text-slate-500">
+                {item.created_at ? new Date(item.created_at).toLocaleString() : '—'} · {item.minuteCount} minutes · grouped by {item.groupBy} · seed {item.seed}
+                {item.kinds ? ` · ${item.kinds.join(', ')}` : ''}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => openCard(item.name)}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+              >
+                <ClipboardList className="h-3.5 w-3.5" />
+                Dataset card
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(item.name)}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                Delete
+              </button>
+            </div>
+          </div>
+          <SplitTable summary={item} />
+        </section>
+      ))}
+
+      {!loading && !exports.length && (
+        <div className="flex items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-sm text-slate-600">
+          <Boxes className="h-4 w-4" />
+          No local dataset exports yet.
+        </div>
+      )}
+
+      {cardView && (
+        <DatasetStats
+          datasetName={cardView.index.name}
+          files={cardView.index.items.map((entry, index) => ({
+            id: index,
+            filename: entry.path,
+            size_bytes: entry.bytes,
+            label: entry.label,
+          }))}
+          card={cardView.card}
+          onClose={() => setCardView(null)}
+        />
+      )}
+    </div>
+  );
+}
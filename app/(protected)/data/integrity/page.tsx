@@ -0,0 +1,239 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, RefreshCw, Wrench } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import type {
+  DeviceIntegritySummary,
+  MinuteIntegrityReport,
+  MinuteRepairAction,
+} from '@/lib/minuteIntegrity';
+
+const REPAIR_LABELS: Record<MinuteRepairAction, string> = {
+  'regenerate-manifest': 'Regenerate manifest',
+  'mark-finished': 'Mark capture finished',
+};
+
+export default function DataIntegrityPage() {
+  const toast = useToast();
+  const [devices, setDevices] = useState<DeviceIntegritySummary[]>([]);
+  const [reports, setReports] = useState<MinuteIntegrityReport[]>([]);
+  const [checked, setChecked] = useState(0);
+  const [checkedAt, setCheckedAt] = useState('');
+  const [deviceKey, setDeviceKey] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [repairing, setRepairing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/data/integrity', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to check minutes');
+      setDevices(Array.isArray(data.devices) ? data.devices : []);
+      setReports(Array.isArray(data.minutes) ? data.minutes : []);
+      setChecked(Number(data.checked || 0));
+      setCheckedAt(data.checkedAt || '');
+    } catch (error) {
+      toast.error('Integrity check failed', error instanceof Error ? error.message : 'Unable to check minutes');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const repair = async (minutes: string[], action: MinuteRepairAction) => {
+    const key = `${action}:${minutes.join(',')}`;
+    setRepairing(key);
+    try {
+      const response = await fetch('/api/data/integrity/repair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes, action }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Repair failed');
+      if (data.skipped?.length) {
+        toast.warning('Some minutes were skipped', data.skipped.map((item: { minute: string; error: string }) => `${item.minute}: ${item.error}`).join('; '));
+      } else {
+        toast.success('Repaired', `${data.repaired.length} minute${data.repaired.length === 1 ? '' : 's'} updated`);
+      }
+      await load();
+    } catch (error) {
+      toast.error('Repair failed', error instanceof Error ? error.message : 'Unable to repair');
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  const visibleReports = useMemo(
+    () => reports.filter((report) => !deviceKey || report.deviceKey === deviceKey),
+    [deviceKey, reports],
+  );
+  const bulkRepairs = useMemo(() => {
+    const grouped = new Map<MinuteRepairAction, string[]>();
+    visibleReports.forEach((report) => report.repairs.forEach((action) => {
+      grouped.set(action, [...(grouped.get(action) || []), report.minute]);
+    }));
+    return Array.from(grouped.entries());
+  }, [visibleReports]);
+  const errorMinutes = reports.filter((report) => report.errors).length;
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Minute integrity</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Cross-checks every captured minute against its manifest: missing or empty chunks, truncated recordings, out-of-range predictions and failed analysis.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Checking…' : 'Re-check'}
+          </button>
+        </div>
+        <div className="mt-5 grid gap-3 sm:grid-cols-3">
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Checked minutes</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{checked}</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">With issues</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{reports.length}</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">With errors</div>
+            <div className="mt-1 text-2xl font-semibold text-red-700">{errorMinutes}</div>
+          </div>
+        </div>
+        {checkedAt && <p className="mt-3 text-xs text-slate-500">Last checked {new Date(checkedAt).toLocaleString()}</p>}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <h2 className="text-lg font-semibold">Devices</h2>
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-slate-600">
+              <tr>
+                <th className="py-2 pr-4">Device</th>
+                <th className="py-2 pr-4">Minutes</th>
+                <th className="py-2 pr-4">Healthy</th>
+                <th className="py-2 pr-4">Errors</th>
+                <th className="py-2 pr-4">Warnings</th>
+                <th className="py-2">Most common issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {devices.map((device) => (
+                <tr
+                  key={device.deviceKey}
+                  onClick={() => setDeviceKey((current) => current === device.deviceKey ? '' : device.deviceKey)}
+                  className={`cursor-pointer border-t border-slate-200 hover:bg-slate-50 ${deviceKey === device.deviceKey ? 'bg-cyan-50' : ''}`}
+                >
+                  <td className="py-2 pr-4 font-medium">{device.deviceLabel}</td>
+                  <td className="py-2 pr-4">{device.minuteCount}</td>
+                  <td className="py-2 pr-4 text-emerald-700">{device.healthyCount}</td>
+                  <td className="py-2 pr-4 text-red-700">{device.errorCount}</td>
+                  <td className="py-2 pr-4 text-amber-700">{device.warningCount}</td>
+                  <td className="py-2 text-xs text-slate-600">
+                    {Object.entries(device.issueCounts)
+                      .sort((a, b) => Number(b[1]) - Number(a[1]))
+                      .slice(0, 3)
+                      .map(([code, count]) => `${code} ×${count}`)
+                      .join(', ') || '—'}
+                  </td>
+                </tr>
+              ))}
+              {!devices.length && (
+                <tr><td colSpan={6} className="py-6 text-center text-slate-500">{loading ? 'Checking minutes…' : 'No captured minutes found.'}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <h2 className="text-lg font-semibold">
+            Minutes with issues{deviceKey ? ` on ${devices.find((device) => device.deviceKey === deviceKey)?.deviceLabel || deviceKey}` : ''}
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {bulkRepairs.map(([action, minutes]) => (
+              <button
+                key={action}
+                type="button"
+                disabled={Boolean(repairing)}
+                onClick={() => {
+                  if (!window.confirm(`${REPAIR_LABELS[action]} for ${minutes.length} minute${minutes.length === 1 ? '' : 's'}?`)) return;
+                  repair(minutes, action);
+                }}
+                className="inline-flex items-center gap-2 rounded-xl border border-slate-300 px-3 py-1.5 text-xs font-semibold hover:bg-slate-100 disabled:opacity-50"
+              >
+                <Wrench className="h-3.5 w-3.5" />
+                {REPAIR_LABELS[action]} ({minutes.length})
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="mt-4 space-y-3">
+          {visibleReports.map((report) => (
+            <article key={report.minute} className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <div className="font-mono text-sm font-semibold">{report.minute}</div>
+                  <div className="text-xs text-slate-600">{report.deviceLabel} · {report.state}</div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {report.repairs.map((action) => (
+                    <button
+                      key={action}
+                      type="button"
+                      disabled={Boolean(repairing)}
+                      onClick={() => repair([report.minute], action)}
+                      className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold hover:bg-slate-100 disabled:opacity-50"
+                    >
+                      <Wrench className="h-3.5 w-3.5" />
+                      {repairing === `${action}:${report.minute}` ? 'Repairing…' : REPAIR_LABELS[action]}
+                    </button>
+                  ))}
+                  <a
+                    href={`/api/data/minutes/${encodeURIComponent(report.minute)}/download`}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    Download
+                  </a>
+                </div>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {report.issues.map((issue, index) => (
+                  <li key={`${issue.code}-${index}`} className="flex items-start gap-2">
+                    <AlertTriangle className={`mt-0.5 h-4 w-4 shrink-0 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`} />
+                    <span><span className="font-mono text-xs text-slate-500">{issue.code}</span> {issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </article>
+          ))}
+          {!visibleReports.length && !loading && (
+            <div className="flex items-center justify-center gap-2 rounded-xl border border-dashed border-slate-300 p-8 text-sm text-slate-600">
+              <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+              No integrity issues found.
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { History, RefreshCw, Undo2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import type { LabelAuditEntry } from '@/lib/labelAudit';
+
+type AuditRow = LabelAuditEntry & { undone: boolean };
+
+type AuditBatch = {
+  batchId: string;
+  entries: AuditRow[];
+};
+
+const MODE_STYLES: Record<LabelAuditEntry['mode'], string> = {
+  replace: 'bg-amber-100 text-amber-800',
+  merge: 'bg-cyan-100 text-cyan-800',
+  undo: 'bg-slate-200 text-slate-700',
+  'rename-label': 'bg-violet-100 text-violet-800',
+  'merge-labels': 'bg-indigo-100 text-indigo-800',
+  'delete-label': 'bg-rose-100 text-rose-800',
+};
+
+function LabelChips({ labels }: { labels: string[] }) {
+  if (!labels.length) return <span className="text-xs italic text-slate-500">none</span>;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {labels.map((label) => (
+        <span key={label} className="rounded-md border border-slate-300 bg-white px-1.5 py-0.5 text-xs">{label}</span>
+      ))}
+    </span>
+  );
+}
+
+export default function LabelHistoryPage() {
+  const { user } = useAuth();
+  const toast = useToast();
+  const [entries, setEntries] = useState<AuditRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [minuteFilter, setMinuteFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [undoing, setUndoing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '500' });
+      if (minuteFilter.trim()) params.set('minute', minuteFilter.trim());
+      const response = await fetch(`/api/data/labels/audit?${params}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load label history');
+      setEntries(Array.isArray(data.entries) ? data.entries : []);
+      setTotal(Number(data.total || 0));
+    } catch (error) {
+      toast.error('Label history failed', error instanceof Error ? error.message : 'Unable to load label history');
+    } finally {
+      setLoading(false);
+    }
+  }, [minuteFilter, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const batches = useMemo(() => {
+    const grouped: AuditBatch[] = [];
+    entries.forEach((entry) => {
+      const last = grouped[grouped.length - 1];
+      if (last && last.batchId === entry.batchId) last.entries.push(entry);
+      else grouped.push({ batchId: entry.batchId, entries: [entry] });
+    });
+    return grouped;
+  }, [entries]);
+
+  const undo = async (target: { id?: string; batchId?: string }, force = false) => {
+    const key = target.id || target.batchId || '';
+    setUndoing(key);
+    try {
+      const response = await fetch('/api/data/labels/audit/undo', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(user?.token ? { Authorization: `Bearer ${user.token}` } : {}),
+        },
+        body: JSON.stringify({ ...target, force }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Undo failed');
+      const conflicts = (data.skipped || []).filter((item: { error: string }) => item.error === 'Labels changed since this edit');
+      if (conflicts.length && !force) {
+        if (window.confirm(`${conflicts.length} minute${conflicts.length === 1 ? ' was' : 's were'} relabeled after this change. Restore the earlier labels anyway?`)) {
+          await undo(target, true);
+          return;
+        }
+      }
+      if (data.undone.length) {
+        toast.success('Labels restored', `${data.undone.length} minute${data.undone.length === 1 ? '' : 's'} reverted`);
+      } else {
+        toast.warning('Nothing undone', (data.skipped || []).map((item: { minute: string; error: string }) => `${item.minute}: ${item.error}`).join('; '));
+      }
+      await load();
+    } catch (error) {
+      toast.error('Undo failed', error instanceof Error ? error.message : 'Unable to undo');
+    } finally {
+      setUndoing(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Label history</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Every label edit on a captured minute, newest first. Undo a single minute or a whole bulk edit.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={minuteFilter}
+              onChange={(event) => setMinuteFilter(event.target.value)}
+              placeholder="Filter by minute"
+              className="rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-sm"
+            />
+            <button
+              type="button"
+              onClick={load}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-slate-500">
+          Showing {entries.length} of {total} change{total === 1 ? '' : 's'}
+        </p>
+      </section>
+
+      <section className="space-y-3">
+        {batches.map((batch) => {
+          const head = batch.entries[0];
+          const pending = batch.entries.filter((entry) => !entry.undone);
+          return (
+            <article key={batch.batchId} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className={`rounded-md px-2 py-0.5 text-xs font-semibold uppercase ${MODE_STYLES[head.mode]}`}>{head.mode}</span>
+                  <span className="font-semibold">{head.actor.username}</span>
+                  <span className="text-slate-600">{new Date(head.at).toLocaleString()}</span>
+                  {batch.entries.length > 1 && <span className="text-xs text-slate-500">{batch.entries.length} minutes</span>}
+                </div>
+                {batch.entries.length > 1 && pending.length > 0 && (
+                  <button
+                    type="button"
+                    disabled={Boolean(undoing)}
+                    onClick={() => {
+                      if (!window.confirm(`Undo this edit on ${pending.length} minute${pending.length === 1 ? '' : 's'}?`)) return;
+                      undo({ batchId: batch.batchId });
+                    }}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100 disabled:opacity-50"
+                  >
+                    <Undo2 className="h-3.5 w-3.5" />
+                    {undoing === batch.batchId ? 'Undoing…' : 'Undo all'}
+                  </button>
+                )}
+              </div>
+              <ul className="mt-3 divide-y divide-slate-100">
+                {batch.entries.map((entry) => (
+                  <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                    <div className="min-w-0 space-y-1">
+                      <div className="font-mono text-xs font-semibold">{entry.minute}</div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <LabelChips labels={entry.before} />
+                        <span className="text-slate-400">→</span>
+                        <LabelChips labels={entry.after} />
+                      </div>
+                      {entry.moved && (
+                        <div className="font-mono text-xs text-slate-500">
+                          {entry.moved.from} → {entry.moved.to}
+                        </div>
+                      )}
+                    </div>
+                    {entry.undone ? (
+                      <span className="text-xs text-slate-500">Undone</span>
+                    ) : (
+                      <button
+                        type="button"
+                        disabled={Boolean(undoing)}
+                        onClick={() => undo({ id: entry.id })}
+                        className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold hover:bg-slate-100 disabled:opacity-50"
+                      >
+                        <Undo2 className="h-3.5 w-3.5" />
+                        {undoing === entry.id ? 'Undoing…' : 'Undo'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </article>
+          );
+        })}
+        {!batches.length && (
+          <div className="flex items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-sm text-slate-600">
+            <History className="h-4 w-4" />
+            {loading ? 'Loading label history…' : 'No label changes recorded yet.'}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, FolderInput, FolderTree, History, RefreshCw, Tags } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import type { LabelOperationAction, LabelOperationChange, LabelUsage } from '@/lib/labelOperations';
+import type { MinuteLayoutPlan } from '@/lib/minuteLayout';
+
+type Preview = {
+  changes: LabelOperationChange[];
+  manifestCount: number;
+  folderCount: number;
+  blockedCount: number;
+  mapped: Array<{ from: string; to: string }>;
+};
+
+const ACTION_HELP: Record<LabelOperationAction, string> = {
+  rename: 'Rename one label everywhere it is used.',
+  merge: 'Replace several labels with a single one.',
+  delete: 'Remove the labels from every minute and move minutes out of their label folders.',
+};
+
+function LabelChips({ labels }: { labels: string[] }) {
+  if (!labels.length) return <span className="text-xs italic text-slate-500">none</span>;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {labels.map((label) => (
+        <span key={label} className="rounded-md border border-slate-300 bg-white px-1.5 py-0.5 text-xs">{label}</span>
+      ))}
+    </span>
+  );
+}
+
+export default function LabelsPage() {
+  const { user } = useAuth();
+  const toast = useToast();
+  const [labels, setLabels] = useState<LabelUsage[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [action, setAction] = useState<LabelOperationAction>('rename');
+  const [target, setTarget] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [layout, setLayout] = useState<MinuteLayoutPlan | null>(null);
+  const [reorganizing, setReorganizing] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/data/labels/operations', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load labels');
+      setLabels(Array.isArray(data.labels) ? data.labels : []);
+      const layoutResponse = await fetch('/api/data/layout', { cache: 'no-store' });
+      const layoutData = await layoutResponse.json();
+      if (!layoutResponse.ok || !layoutData.success) throw new Error(layoutData.error || 'Unable to check folder layout');
+      setLayout(layoutData);
+    } catch (error) {
+      toast.error('Labels failed to load', error instanceof Error ? error.message : 'Unable to load labels');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [action, selected, target]);
+
+  const toggle = (label: string) => {
+    setSelected((current) => (current.includes(label) ? current.filter((item) => item !== label) : [...current, label]));
+  };
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/data/labels/operations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(user?.token ? { Authorization: `Bearer ${user.token}` } : {}),
+        },
+        body: JSON.stringify({ action, from: selected, to: target, dryRun }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Label operation failed');
+      if (dryRun) {
+        setPreview(data);
+        return;
+      }
+      const moved = data.applied.filter((item: { moved: boolean }) => item.moved).length;
+      toast.success('Labels updated', `${data.applied.length} minute${data.applied.length === 1 ? '' : 's'} changed, ${moved} moved`);
+      if (data.skipped.length) {
+        toast.warning('Some minutes were skipped', data.skipped.map((item: { minute: string; error: string }) => `${item.minute}: ${item.error}`).join('; '));
+      }
+      setSelected([]);
+      setTarget('');
+      await load();
+    } catch (error) {
+      toast.error('Label operation failed', error instanceof Error ? error.message : 'Label operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reorganize = async () => {
+    if (!layout) return;
+    const dropping = layout.moves.filter((move) => !move.blocked && move.dropped.length).length;
+    const warning = dropping ? ` ${dropping} will no longer carry their current folder label.` : '';
+    if (!window.confirm(`Move ${layout.movable} minute folder${layout.movable === 1 ? '' : 's'}?${warning}`)) return;
+    setReorganizing(true);
+    try {
+      const response = await fetch('/api/data/layout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: false }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to move minute folders');
+      toast.success('Folders reorganized', `${data.moved.length} minute${data.moved.length === 1 ? '' : 's'} moved; old IDs still resolve`);
+      if (data.skipped.length) {
+        toast.warning('Some minutes were skipped', data.skipped.map((item: { minute: string; error: string }) => `${item.minute}: ${item.error}`).join('; '));
+      }
+      await load();
+    } catch (error) {
+      toast.error('Reorganize failed', error instanceof Error ? error.message : 'Unable to move minute folders');
+    } finally {
+      setReorganizing(false);
+    }
+  };
+
+  const apply = () => {
+    if (!preview) return;
+    const verb = action === 'delete' ? 'Remove' : action === 'merge' ? 'Merge' : 'Rename';
+    if (!window.confirm(`${verb} ${selected.join(', ')} on ${preview.changes.length} minute${preview.changes.length === 1 ? '' : 's'}?`)) return;
+    run(false);
+  };
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Labels</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Rename, merge or remove a label across every captured minute, including the label folders minutes are stored in.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/data/label-history"
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100"
+            >
+              <History className="h-4 w-4" />
+              History
+            </Link>
+            <button
+              type="button"
+              onClick={load}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          <h2 className="text-lg font-semibold">Labels in use</h2>
+          <p className="mt-1 text-xs text-slate-500">Select the labels to change.</p>
+          <ul className="mt-3 divide-y divide-slate-100">
+            {labels.map((item) => (
+              <li key={item.label}>
+                <label className="flex cursor-pointer items-center justify-between gap-3 py-2 text-sm">
+                  <span className="flex items-center gap-2">
+                    <input type="checkbox" checked={selected.includes(item.label)} onChange={() => toggle(item.label)} />
+                    <span className="font-mono">{item.label}</span>
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {item.manifestCount} in manifests · {item.folderCount} in folder
+                  </span>
+                </label>
+              </li>
+            ))}
+            {!labels.length && (
+              <li className="flex items-center justify-center gap-2 py-6 text-sm text-slate-600">
+                <Tags className="h-4 w-4" />
+                {loading ? 'Loading labels…' : 'No labels stored on any minute.'}
+              </li>
+            )}
+          </ul>
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          <h2 className="text-lg font-semibold">Change labels</h2>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {(Object.keys(ACTION_HELP) as LabelOperationAction[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setAction(value)}
+                className={`rounded-xl border px-3 py-1.5 text-sm font-semibold capitalize ${action === value ? 'border-slate-950 bg-slate-950 text-white' : 'border-slate-300 hover:bg-slate-100'}`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-sm text-slate-600">{ACTION_HELP[action]}</p>
+          <div className="mt-3 text-sm">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-700">Selected</span>
+            <div className="mt-1"><LabelChips labels={selected} /></div>
+          </div>
+          {action !== 'delete' && (
+            <input
+              value={target}
+              onChange={(event) => setTarget(event.target.value)}
+              placeholder={action === 'rename' ? 'New name' : 'Merge into'}
+              className="mt-3 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-sm"
+            />
+          )}
+          <div className="mt-4 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => run(true)}
+              disabled={busy || !selected.length}
+              className="rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold hover:bg-slate-100 disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              type="button"
+              onClick={apply}
+              disabled={busy || !preview || !preview.changes.length}
+              className="rounded-xl bg-slate-950 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              {busy ? 'Working…' : 'Apply'}
+            </button>
+          </div>
+
+          {preview && (
+            <div className="mt-4 space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Manifests</div>
+                  <div className="mt-1 text-xl font-semibold">{preview.manifestCount}</div>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Folders moved</div>
+                  <div className="mt-1 text-xl font-semibold">{preview.folderCount}</div>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Blocked</div>
+                  <div className="mt-1 text-xl font-semibold">{preview.blockedCount}</div>
+                </div>
+              </div>
+              {preview.mapped.map((item) => (
+                <p key={item.from} className="text-xs text-slate-600">
+                  Target “{item.from}” maps to taxonomy label “{item.to}”.
+                </p>
+              ))}
+              <ul className="max-h-[28rem] divide-y divide-slate-100 overflow-y-auto rounded-xl border border-slate-200">
+                {preview.changes.map((change) => (
+                  <li key={change.relativePath} className="space-y-1 px-3 py-2 text-sm">
+                    <div className="font-mono text-xs font-semibold">{change.minute}</div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <LabelChips labels={change.before} />
+                      <span className="text-slate-400">→</span>
+                      <LabelChips labels={change.after} />
+                    </div>
+                    {change.folder && (
+                      <div className="flex items-center gap-1.5 font-mono text-xs text-slate-500">
+                        <FolderInput className="h-3.5 w-3.5" />
+                        {change.folder.from} → {change.folder.to}
+                      </div>
+                    )}
+                    {change.blocked && (
+                      <div className="flex items-center gap-1.5 text-xs text-amber-700">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        {change.blocked}
+                      </div>
+                    )}
+                  </li>
+                ))}
+                {!preview.changes.length && (
+                  <li className="px-3 py-6 text-center text-sm text-slate-600">No minutes use the selected labels.</li>
+                )}
+              </ul>
+            </div>
+          )}
+        </section>
+      </div>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Folder layout</h2>
+            <p className="mt-1 max-w-2xl text-sm text-slate-600">
+              Files each minute under the folder of its first manifest label, so tools that read the data directory see the same labels as the portal.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={reorganize}
+            disabled={reorganizing || !layout?.movable}
+            className="inline-flex items-center justify-center gap-2 rounded-xl bg-slate-950 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+          >
+            <FolderTree className="h-4 w-4" />
+            {reorganizing ? 'Moving…' : `Reorganize ${layout?.movable || 0}`}
+          </button>
+        </div>
+        {layout && (
+          <p className="mt-3 text-xs text-slate-500">
+            {layout.checked} minutes checked · {layout.movable} to move · {layout.blockedCount} blocked
+          </p>
+        )}
+        <ul className="mt-3 max-h-[24rem] divide-y divide-slate-100 overflow-y-auto">
+          {(layout?.moves || []).map((move) => (
+            <li key={move.relativePath} className="space-y-1 py-2 text-sm">
+              <div className="flex flex-wrap items-center gap-1.5 font-mono text-xs">
+                <FolderInput className="h-3.5 w-3.5 text-slate-500" />
+                <span className="font-semibold">{move.relativePath}</span>
+                {move.target && <span className="text-slate-500">→ {move.target.relativePath}</span>}
+              </div>
+              {!move.blocked && move.dropped.length > 0 && (
+                <div className="text-xs text-slate-600">Drops folder label {move.dropped.join(', ')}, which the manifest does not list</div>
+              )}
+              {move.blocked && (
+                <div className="flex items-center gap-1.5 text-xs text-amber-700">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  {move.blocked}
+                </div>
+              )}
+            </li>
+          ))}
+          {layout && !layout.moves.length && (
+            <li className="py-4 text-center text-sm text-slate-600">Every labeled minute is already in its label folder.</li>
+          )}
+        </ul>
+      </section>
+    </div>
+  );
+}
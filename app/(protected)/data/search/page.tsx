@@ -0,0 +1,141 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowUpRight, Search } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import type { MinuteSearchResult } from '@/lib/minuteSearch';
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  if (!terms.length) return <>{text}</>;
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
+  return <>{parts.map((part, index) => (
+    terms.includes(part.toLowerCase())
+      ? <mark key={index} className="rounded bg-amber-200 px-0.5 text-slate-950">{part}</mark>
+      : <span key={index}>{part}</span>
+  ))}</>;
+}
+
+function minuteHref(result: MinuteSearchResult) {
+  const chunk = result.matches.find((match) => match.chunk !== null)?.chunk;
+  const hash = chunk === undefined || chunk === null ? '' : `#chunk-${chunk}`;
+  return `/captures/${encodeURIComponent(result.deviceId)}/${encodeURIComponent(result.minute)}${hash}`;
+}
+
+export default function MinuteSearchPage() {
+  const toast = useToast();
+  const [query, setQuery] = useState('');
+  const [searched, setSearched] = useState('');
+  const [terms, setTerms] = useState<string[]>([]);
+  const [results, setResults] = useState<MinuteSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const search = useCallback(async (value: string) => {
+    setSearched(value.trim());
+    if (!value.trim()) {
+      setResults([]);
+      setTerms([]);
+      setTotal(0);
+      return;
+    }
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/data/search?${new URLSearchParams({ q: value, limit: '100' })}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Search failed');
+      setResults(Array.isArray(data.results) ? data.results : []);
+      setTerms(Array.isArray(data.terms) ? data.terms : []);
+      setTotal(Number(data.total || 0));
+    } catch (error) {
+      toast.error('Search failed', error instanceof Error ? error.message : 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  // The query lives in ?q= so a search can be bookmarked or shared.
+  useEffect(() => {
+    const initial = new URLSearchParams(window.location.search).get('q') || '';
+    setQuery(initial);
+    search(initial);
+  }, [search]);
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    const value = query.trim();
+    window.history.replaceState(null, '', value ? `?${new URLSearchParams({ q: value })}` : window.location.pathname);
+    search(value);
+  };
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+        <h1 className="mt-1 text-3xl font-semibold text-slate-950">Search minutes</h1>
+        <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+          Searches device names, labels, notes, sensor outputs, errors and predictions of every captured minute. All words must match; quote a phrase to keep it together.
+        </p>
+        <form onSubmit={submit} className="mt-4 flex gap-2">
+          <input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder='thoth-kitchen chunks[3] error'
+            className="min-w-0 flex-1 rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-sm"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 rounded-xl bg-slate-950 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+          >
+            <Search className="h-4 w-4" />
+            {loading ? 'Searching…' : 'Search'}
+          </button>
+        </form>
+        {searched && !loading && (
+          <p className="mt-3 text-xs text-slate-500">
+            {total} minute{total === 1 ? '' : 's'} match{total === 1 ? 'es' : ''}{total > results.length ? `, showing the best ${results.length}` : ''}
+          </p>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        {results.map((result) => (
+          <article key={result.relativePath} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <div className="font-mono text-sm font-semibold">{result.minute}</div>
+                <div className="mt-0.5 text-xs text-slate-600">
+                  {result.deviceLabel} · {result.state}{result.labels.length ? ` · ${result.labels.join(', ')}` : ''}
+                </div>
+              </div>
+              <Link
+                href={minuteHref(result)}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+              >
+                Open minute
+                <ArrowUpRight className="h-3.5 w-3.5" />
+              </Link>
+            </div>
+            <ul className="mt-3 space-y-1">
+              {result.matches.map((match, index) => (
+                <li key={`${match.field}-${index}`} className="flex flex-wrap gap-x-2 text-xs">
+                  <span className="font-mono text-slate-500"><Highlighted text={match.field} terms={terms} /></span>
+                  <span className="break-all text-slate-900"><Highlighted text={match.text} terms={terms} /></span>
+                </li>
+              ))}
+            </ul>
+          </article>
+        ))}
+        {searched && !loading && !results.length && (
+          <div className="flex items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white p-8 text-sm text-slate-600">
+            <Search className="h-4 w-4" />
+            No minute matches every word.
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Clapperboard, Database, Download, Link2, Merge, RefreshCw, Save, Scissors } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { formatFileSize } from '@/lib/utils';
+import type { RecordingSession } from '@/lib/recordingSessions';
+
+type SessionMinute = {
+  minute: string;
+  minuteName: string;
+  relativePath: string;
+  deviceId: string;
+  labels: string[];
+  state: 'ready' | 'collecting';
+  uploaded: boolean;
+};
+
+function formatRange(session: RecordingSession) {
+  const start = new Date(session.start);
+  const end = new Date(session.end);
+  const day = start.toISOString().slice(0, 10);
+  return `${day} ${start.toISOString().slice(11, 16)}–${end.toISOString().slice(11, 16)} UTC`;
+}
+
+export default function RecordingSessionsPage() {
+  const { user } = useAuth();
+  const toast = useToast();
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [gapMinutes, setGapMinutes] = useState(2);
+  const [savedGap, setSavedGap] = useState(2);
+  const [device, setDevice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [minutes, setMinutes] = useState<SessionMinute[]>([]);
+  const [labels, setLabels] = useState('');
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async (gap?: number) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams(gap ? { gapMinutes: String(gap) } : {});
+      const response = await fetch(`/api/data/sessions?${params}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load sessions');
+      setSessions(Array.isArray(data.sessions) ? data.sessions : []);
+      setGapMinutes(Number(data.gapMinutes));
+      if (!gap) setSavedGap(Number(data.gapMinutes));
+    } catch (error) {
+      toast.error('Sessions failed to load', error instanceof Error ? error.message : 'Unable to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const open = useCallback(async (id: string) => {
+    setSelectedId(id);
+    try {
+      const response = await fetch(`/api/data/sessions/${encodeURIComponent(id)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load session');
+      setMinutes(Array.isArray(data.minutes) ? data.minutes : []);
+      setLabels(data.session.labels.join(', '));
+      setNotes(data.session.notes || '');
+    } catch (error) {
+      setMinutes([]);
+      toast.error('Session failed to load', error instanceof Error ? error.message : 'Unable to load session');
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const devices = Array.from(new Set(sessions.map((session) => session.deviceKey))).sort();
+  const visible = sessions.filter((session) => !device || session.deviceKey === device);
+  const selected = sessions.find((session) => session.id === selectedId) || null;
+
+  const saveGap = async () => {
+    try {
+      const response = await fetch('/api/data/sessions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gapMinutes }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to save gap');
+      setSessions(data.sessions);
+      setSavedGap(Number(data.gapMinutes));
+      toast.success('Gap tolerance saved', `${data.count} session${data.count === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error('Save failed', error instanceof Error ? error.message : 'Unable to save gap');
+    }
+  };
+
+  const sessionAction = async (path: string, method: string, body: unknown, success: string) => {
+    if (!selectedId) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/data/sessions/${encodeURIComponent(selectedId)}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Session update failed');
+      toast.success(success);
+      if (data.mapped?.length) {
+        toast.info('Labels mapped', data.mapped.map((item: { from: string; to: string }) => `${item.from} → ${item.to}`).join(', '));
+      }
+      await load();
+      await open(data.session.id);
+    } catch (error) {
+      toast.error('Session update failed', error instanceof Error ? error.message : 'Session update failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createDataset = async () => {
+    if (!selected) return;
+    if (!user?.token) {
+      toast.error('Sign in required', 'Creating a dataset needs a signed-in account');
+      return;
+    }
+    setBusy(true);
+    try {
+      const response = await fetch('/api/data/labels/create-dataset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${user.token}` },
+        body: JSON.stringify({ session: selected.id }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to create dataset');
+      toast.success('Dataset created', `${data.uploaded_count} file${data.uploaded_count === 1 ? '' : 's'} uploaded`);
+      if (data.errors?.length) toast.warning('Some files were skipped', data.errors.join('; '));
+    } catch (error) {
+      toast.error('Dataset creation failed', error instanceof Error ? error.message : 'Unable to create dataset');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Recording sessions</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Consecutive minutes from the same device are grouped into one session. Split or merge sessions where the automatic grouping is wrong.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-700">
+              Gap tolerance (min)
+              <input
+                type="number"
+                min={1}
+                value={gapMinutes}
+                onChange={(event) => setGapMinutes(Number(event.target.value))}
+                onBlur={() => gapMinutes !== savedGap && load(gapMinutes)}
+                className="mt-1 block w-28 rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case"
+              />
+            </label>
+            {gapMinutes !== savedGap && (
+              <button
+                type="button"
+                onClick={saveGap}
+                className="inline-flex items-center justify-center gap-2 rounded-xl bg-slate-950 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800"
+              >
+                <Save className="h-4 w-4" />
+                Save
+              </button>
+            )}
+            <select
+              value={device}
+              onChange={(event) => setDevice(event.target.value)}
+              className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm"
+            >
+              <option value="">All devices</option>
+              {devices.map((key) => <option key={key} value={key}>{key}</option>)}
+            </select>
+            <button
+              type="button"
+              onClick={() => load()}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          <h2 className="text-lg font-semibold">{visible.length} session{visible.length === 1 ? '' : 's'}</h2>
+          <ul className="mt-3 divide-y divide-slate-100">
+            {visible.map((session) => (
+              <li key={session.id}>
+                <button
+                  type="button"
+                  onClick={() => open(session.id)}
+                  className={`w-full rounded-xl px-2 py-2 text-left text-sm hover:bg-slate-50 ${session.id === selectedId ? 'bg-slate-100' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">{session.deviceLabel}</span>
+                    <span className="text-xs text-slate-500">{formatFileSize(session.bytes)}</span>
+                  </div>
+                  <div className="mt-0.5 text-xs text-slate-600">
+                    {formatRange(session)} · {session.minuteCount} minute{session.minuteCount === 1 ? '' : 's'}
+                    {session.missingMinutes ? ` · ${session.missingMinutes} missing` : ''}
+                    {session.labels.length ? ` · ${session.labels.join(', ')}` : ''}
+                  </div>
+                </button>
+              </li>
+            ))}
+            {!visible.length && (
+              <li className="flex items-center justify-center gap-2 py-6 text-sm text-slate-600">
+                <Clapperboard className="h-4 w-4" />
+                {loading ? 'Loading sessions…' : 'No recorded minutes.'}
+              </li>
+            )}
+          </ul>
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+          {!selected ? (
+            <p className="text-sm text-slate-600">Select a session to label it, add notes, download it or turn it into a dataset.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold">{selected.deviceLabel}</h2>
+                  <p className="font-mono text-xs text-slate-500">{selected.firstMinute} → {selected.lastMinute}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <a
+                    href={`/api/data/sessions/${encodeURIComponent(selected.id)}/download`}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    Download
+                  </a>
+                  <Link
+                    href={`/data/shares?session=${encodeURIComponent(selected.id)}`}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+                  >
+                    <Link2 className="h-3.5 w-3.5" />
+                    Share
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={createDataset}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100 disabled:opacity-50"
+                  >
+                    <Database className="h-3.5 w-3.5" />
+                    Create dataset
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => sessionAction('/merge', 'POST', {}, 'Merged with the next session')}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100 disabled:opacity-50"
+                  >
+                    <Merge className="h-3.5 w-3.5" />
+                    Merge with next
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {[
+                  ['Duration', `${selected.durationMinutes} min`],
+                  ['Minutes', `${selected.minuteCount}${selected.missingMinutes ? ` (${selected.missingMinutes} missing)` : ''}`],
+                  ['Size', formatFileSize(selected.bytes)],
+                  ['Uploaded', `${selected.uploadedCount}/${selected.minuteCount}`],
+                ].map(([label, value]) => (
+                  <div key={label} className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                    <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">{label}</div>
+                    <div className="mt-1 text-sm font-semibold">{value}</div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-600">
+                Video {formatFileSize(selected.byKind.video)} · Radar {formatFileSize(selected.byKind.radar)} · CSI {formatFileSize(selected.byKind.csi)}
+                {Object.keys(selected.minuteLabels).length
+                  ? ` · Minute labels: ${Object.entries(selected.minuteLabels).map(([label, count]) => `${label} (${count})`).join(', ')}`
+                  : ''}
+                {selected.collectingCount ? ` · ${selected.collectingCount} still collecting` : ''}
+              </p>
+
+              <div className="space-y-2">
+                <label className="block text-xs font-semibold uppercase tracking-wide text-slate-700">
+                  Session labels
+                  <input
+                    value={labels}
+                    onChange={(event) => setLabels(event.target.value)}
+                    placeholder="walking, two-people"
+                    className="mt-1 block w-full rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case"
+                  />
+                </label>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-slate-700">
+                  Notes
+                  <textarea
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                    rows={3}
+                    className="mt-1 block w-full rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => sessionAction('', 'PATCH', { labels, notes }, 'Session saved')}
+                  disabled={busy}
+                  className="inline-flex items-center justify-center gap-2 rounded-xl bg-slate-950 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  Save
+                </button>
+              </div>
+
+              <ul className="divide-y divide-slate-100 text-sm">
+                {minutes.map((minute, index) => (
+                  <li key={minute.relativePath} className="flex items-center justify-between gap-2 py-1.5">
+                    <Link
+                      href={`/captures/${encodeURIComponent(minute.deviceId)}/${encodeURIComponent(minute.minute)}`}
+                      className="font-mono text-xs hover:underline"
+                    >
+                      {minute.minuteName}
+                    </Link>
+                    <span className="flex items-center gap-2 text-xs text-slate-500">
+                      {minute.state}{minute.labels.length ? ` · ${minute.labels.join(', ')}` : ''}
+                      <Link
+                        href={`/data/shares?minute=${encodeURIComponent(minute.minute)}`}
+                        title="Share this minute"
+                        className="inline-flex items-center gap-1 rounded-md border border-slate-300 px-1.5 py-0.5 font-semibold text-slate-700 hover:bg-slate-100"
+                      >
+                        <Link2 className="h-3 w-3" />
+                        Share
+                      </Link>
+                      {index > 0 && minute.minuteName !== minutes[index - 1].minuteName && (
+                        <button
+                          type="button"
+                          onClick={() => sessionAction('/split', 'POST', { minute: minute.minuteName }, `Split at ${minute.minuteName}`)}
+                          disabled={busy}
+                          title="Start a new session at this minute"
+                          className="inline-flex items-center gap-1 rounded-md border border-slate-300 px-1.5 py-0.5 font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+                        >
+                          <Scissors className="h-3 w-3" />
+                          Split
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
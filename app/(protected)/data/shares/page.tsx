@@ -0,0 +1,272 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, Copy, Link2, Lock, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import type { ShareLinkSummary, ShareTarget } from '@/lib/shareLinks';
+
+const KINDS = ['video', 'radar', 'csi', 'manifest', 'other'];
+const EXPIRY_OPTIONS: Array<[number, string]> = [[24, '1 day'], [72, '3 days'], [168, '7 days'], [720, '30 days']];
+
+type CreatedShare = { share: ShareLinkSummary; token: string };
+
+function shareUrl(token: string) {
+  return `${window.location.origin}/share/${encodeURIComponent(token)}`;
+}
+
+export default function ShareLinksPage() {
+  const { user } = useAuth();
+  const toast = useToast();
+  const [shares, setShares] = useState<ShareLinkSummary[]>([]);
+  const [showInactive, setShowInactive] = useState(false);
+  const [type, setType] = useState<ShareTarget['type']>('minute');
+  const [targetId, setTargetId] = useState('');
+  const [downloads, setDownloads] = useState<string[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [password, setPassword] = useState('');
+  // The token only comes back from the create call, so this is the one
+  // chance to copy the link.
+  const [created, setCreated] = useState<CreatedShare | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = useCallback((): Record<string, string> => (
+    user?.token ? { Authorization: `Bearer ${user.token}` } : {}
+  ), [user?.token]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/data/shares${showInactive ? '?all=1' : ''}`, { cache: 'no-store', headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load share links');
+      setShares(Array.isArray(data.shares) ? data.shares : []);
+    } catch (error) {
+      toast.error('Share links failed to load', error instanceof Error ? error.message : 'Unable to load share links');
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, showInactive, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Sessions and minute lists link here with ?session= or ?minute= filled in.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const session = params.get('session');
+    const minute = params.get('minute');
+    if (session) {
+      setType('session');
+      setTargetId(session);
+    } else if (minute) {
+      setType('minute');
+      setTargetId(minute);
+    }
+  }, []);
+
+  const copy = async ({ share, token }: CreatedShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast.success('Link copied', share.target.id);
+    } catch {
+      window.prompt('Copy this link', shareUrl(token));
+    }
+  };
+
+  const create = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/data/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ type, id: targetId.trim(), downloads, expiresInHours, password: password || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to create share link');
+      setCreated({ share: data.share, token: data.token });
+      setPassword('');
+      toast.success('Share link created', `Expires ${new Date(data.share.expires_at).toLocaleString()}`);
+      await load();
+    } catch (error) {
+      toast.error('Share failed', error instanceof Error ? error.message : 'Unable to create share link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (share: ShareLinkSummary) => {
+    if (!window.confirm(`Revoke the link to ${share.target.id}? Anyone holding it loses access immediately.`)) return;
+    try {
+      const response = await fetch(`/api/data/shares/${encodeURIComponent(share.id)}`, { method: 'DELETE', headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to revoke share link');
+      if (created?.share.id === share.id) setCreated(null);
+      toast.success('Share link revoked', share.target.id);
+      await load();
+    } catch (error) {
+      toast.error('Revoke failed', error instanceof Error ? error.message : 'Unable to revoke share link');
+    }
+  };
+
+  const toggle = (value: string) => setDownloads((current) => (current.includes(value) ? current.filter((item) => item !== value) : [...current, value]));
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Share links</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Signed, expiring links to a read-only view of a minute or recording session for people outside the organisation. The viewer shows the chunks, localization and video; only the file kinds you tick can be downloaded.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-3 text-xs font-semibold uppercase tracking-wide text-slate-700">
+          <div className="flex flex-wrap items-end gap-3">
+            <label>
+              Share
+              <select value={type} onChange={(event) => setType(event.target.value as ShareTarget['type'])} className="mt-1 block rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-normal normal-case">
+                <option value="minute">Minute</option>
+                <option value="session">Recording session</option>
+              </select>
+            </label>
+            <label className="min-w-[16rem] flex-1">
+              {type === 'session' ? 'Session id' : 'Minute id'}
+              <input
+                value={targetId}
+                onChange={(event) => setTargetId(event.target.value)}
+                placeholder={type === 'session' ? 'device@20250101_1200' : '20250101_1200'}
+                className="mt-1 block w-full rounded-xl border border-slate-300 px-3 py-2 font-mono text-sm font-normal normal-case"
+              />
+            </label>
+            <label>
+              Expires after
+              <select value={expiresInHours} onChange={(event) => setExpiresInHours(Number(event.target.value))} className="mt-1 block rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-normal normal-case">
+                {EXPIRY_OPTIONS.map(([hours, label]) => <option key={hours} value={hours}>{label}</option>)}
+              </select>
+            </label>
+            <label>
+              Password <span className="font-normal normal-case text-slate-500">(optional)</span>
+              <input type="password" value={password} onChange={(event) => setPassword(event.target.value)} autoComplete="new-password" className="mt-1 block w-48 rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal normal-case" />
+            </label>
+          </div>
+          <div>
+            Downloads <span className="font-normal normal-case text-slate-500">(view only when none are selected)</span>
+            <div className="mt-1 flex flex-wrap gap-2 normal-case">
+              {KINDS.map((kind) => (
+                <label key={kind} className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-slate-300 px-2.5 py-1 font-normal">
+                  <input type="checkbox" checked={downloads.includes(kind)} onChange={() => toggle(kind)} />
+                  {kind}
+                </label>
+              ))}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={create}
+            disabled={busy || !targetId.trim()}
+            className="inline-flex items-center gap-2 rounded-xl bg-slate-950 px-3 py-2 text-sm font-semibold normal-case tracking-normal text-white hover:bg-slate-800 disabled:opacity-50"
+          >
+            <Link2 className="h-4 w-4" />
+            Create link
+          </button>
+        </div>
+
+        {created && (
+          <div className="mt-4 flex flex-wrap items-center gap-2 rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm">
+            <code className="min-w-0 flex-1 break-all text-xs">{shareUrl(created.token)}</code>
+            <button
+              type="button"
+              onClick={() => copy(created)}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100"
+            >
+              <Copy className="h-3.5 w-3.5" />
+              Copy
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">{showInactive ? 'All share links' : 'Active share links'}</h2>
+          <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={showInactive} onChange={(event) => setShowInactive(event.target.checked)} />
+            Show expired and revoked
+          </label>
+        </div>
+        {shares.length ? (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-slate-500">
+                <tr>
+                  <th className="py-1 pr-3">Shared</th>
+                  <th className="py-1 pr-3">Created by</th>
+                  <th className="py-1 pr-3">Created</th>
+                  <th className="py-1 pr-3">Expires</th>
+                  <th className="py-1 pr-3">Downloads</th>
+                  <th className="py-1 pr-3">Opened</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {shares.map((share) => (
+                  <tr key={share.id} className={share.status === 'active' ? '' : 'text-slate-400'}>
+                    <td className="py-2 pr-3">
+                      <div className="flex items-center gap-1.5 font-mono text-xs">
+                        {share.protected && <Lock className="h-3.5 w-3.5" aria-label="Password protected" />}
+                        {share.target.id}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {share.target.type === 'session' ? `Session · ${share.minutes.length} minutes` : 'Minute'}
+                        {share.status !== 'active' ? ` · ${share.status}` : ''}
+                        {share.revokedBy ? ` by ${share.revokedBy.username}` : ''}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3">{share.createdBy.username}</td>
+                    <td className="py-2 pr-3 text-xs">{new Date(share.created_at).toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-xs">{new Date(share.expires_at).toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-xs">{share.downloads.length ? share.downloads.join(', ') : 'View only'}</td>
+                    <td className="py-2 pr-3 text-xs">
+                      {share.accessCount ? `${share.accessCount}× · last ${new Date(share.last_accessed_at || share.created_at).toLocaleString()}` : 'Never'}
+                    </td>
+                    <td className="py-2">
+                      {share.status === 'active' && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => revoke(share)}
+                            className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 px-2.5 py-1 text-xs font-semibold text-red-700 hover:bg-red-50"
+                          >
+                            <Ban className="h-3.5 w-3.5" />
+                            Revoke
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="mt-3 text-sm text-slate-600">{loading ? 'Loading share links…' : 'No share links.'}</p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, HardDrive, RefreshCw } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import type { SensorKind, StorageBucket, StorageUsage } from '@/lib/storageUsage';
+
+const KIND_COLORS: Record<SensorKind, string> = {
+  video: 'bg-cyan-500',
+  radar: 'bg-violet-500',
+  csi: 'bg-amber-500',
+  other: 'bg-slate-400',
+};
+
+const KIND_LABELS: Record<SensorKind, string> = {
+  video: 'Video',
+  radar: 'Radar',
+  csi: 'CSI',
+  other: 'Other',
+};
+
+const KINDS = Object.keys(KIND_LABELS) as SensorKind[];
+
+function humanBytes(bytes?: number): string {
+  if (!bytes) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value >= 10 || unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function KindBar({ bucket, max }: { bucket: StorageBucket; max: number }) {
+  return (
+    <div className="flex h-3 w-full overflow-hidden rounded-full bg-slate-100">
+      {KINDS.map((kind) => bucket.byKind[kind] > 0 && (
+        <div
+          key={kind}
+          className={KIND_COLORS[kind]}
+          style={{ width: `${(bucket.byKind[kind] / Math.max(max, 1)) * 100}%` }}
+          title={`${KIND_LABELS[kind]}: ${humanBytes(bucket.byKind[kind])}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+// `archiveParam` names the /api/data/minutes/archive filter that selects a
+// bucket's minutes, when the bucket can be downloaded as one archive.
+function BreakdownTable({ title, buckets, archiveParam }: { title: string; buckets: StorageBucket[]; archiveParam?: string }) {
+  const max = Math.max(0, ...buckets.map((bucket) => bucket.bytes));
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-slate-600">
+            <tr>
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4">Minutes</th>
+              <th className="py-2 pr-4">Size</th>
+              <th className="w-1/2 py-2">By sensor</th>
+              {archiveParam && <th className="py-2 pl-4" />}
+            </tr>
+          </thead>
+          <tbody>
+            {buckets.map((bucket) => (
+              <tr key={bucket.key} className="border-t border-slate-200">
+                <td className="py-2 pr-4 font-medium">{bucket.label}</td>
+                <td className="py-2 pr-4">{bucket.minutes}</td>
+                <td className="py-2 pr-4 whitespace-nowrap">{humanBytes(bucket.bytes)}</td>
+                <td className="py-2"><KindBar bucket={bucket} max={max} /></td>
+                {archiveParam && (
+                  <td className="py-2 pl-4 text-right">
+                    <a
+                      href={`/api/data/minutes/archive?${new URLSearchParams({ [archiveParam]: bucket.key })}`}
+                      title={`Download every ${bucket.label} minute as one zip`}
+                      className="inline-flex items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs font-semibold hover:bg-slate-100"
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                      Zip
+                    </a>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {!buckets.length && (
+              <tr><td colSpan={archiveParam ? 5 : 4} className="py-6 text-center text-slate-500">Nothing recorded yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+export default function StorageUsagePage() {
+  const toast = useToast();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [windowDays, setWindowDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/data/storage?windowDays=${windowDays}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to load storage usage');
+      setUsage(data);
+    } catch (error) {
+      toast.error('Storage usage failed', error instanceof Error ? error.message : 'Unable to load storage usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, windowDays]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const recentDays = useMemo(() => (usage?.byDay || []).slice(-30), [usage]);
+  const maxDay = Math.max(0, ...recentDays.map((bucket) => bucket.bytes));
+  const disk = usage?.disk;
+  const primaryBytes = usage?.byRoot.find((root) => root.primary)?.bytes ?? usage?.totals.bytes ?? 0;
+  const daysUntilFull = usage?.projectedDaysUntilFull;
+
+  return (
+    <div className="space-y-4 text-slate-950 sm:space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Local data</div>
+            <h1 className="mt-1 text-3xl font-semibold text-slate-950">Storage usage</h1>
+            <p className="mt-2 max-w-2xl text-sm leading-6 text-slate-700">
+              Disk space taken by captured minutes, broken down by device, label, sensor and capture day.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={windowDays}
+              onChange={(event) => setWindowDays(Number(event.target.value))}
+              className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm"
+            >
+              {[7, 14, 30, 90].map((days) => (
+                <option key={days} value={days}>Growth over {days} days</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={load}
+              disabled={loading}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+        <div className="mt-5 grid gap-3 sm:grid-cols-4">
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Captured data</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{humanBytes(usage?.totals.bytes)}</div>
+            <div className="text-xs text-slate-600">{usage?.totals.minutes || 0} minutes</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Disk free</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{disk ? humanBytes(disk.freeBytes) : '—'}</div>
+            <div className="text-xs text-slate-600">{disk ? `of ${humanBytes(disk.totalBytes)}` : 'Disk stats unavailable'}</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Growth</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{humanBytes(usage?.growth.bytesPerDay)}/day</div>
+            <div className="text-xs text-slate-600">Last {usage?.growth.windowDays || windowDays} days</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Disk full in</div>
+            <div className={`mt-1 text-2xl font-semibold ${daysUntilFull !== null && daysUntilFull !== undefined && daysUntilFull < 14 ? 'text-red-700' : 'text-slate-950'}`}>
+              {daysUntilFull === null || daysUntilFull === undefined ? '—' : `${Math.floor(daysUntilFull)} days`}
+            </div>
+            <div className="text-xs text-slate-600">At the current growth rate</div>
+          </div>
+        </div>
+        {disk && (
+          <div className="mt-4">
+            <div className="flex h-3 w-full overflow-hidden rounded-full bg-slate-100">
+              <div className="bg-cyan-600" style={{ width: `${(Math.min(primaryBytes, disk.usedBytes) / Math.max(disk.totalBytes, 1)) * 100}%` }} />
+              <div className="bg-slate-400" style={{ width: `${(Math.max(disk.usedBytes - primaryBytes, 0) / Math.max(disk.totalBytes, 1)) * 100}%` }} />
+            </div>
+            <div className="mt-1 flex flex-wrap gap-3 text-xs text-slate-600">
+              <span><span className="mr-1 inline-block h-2 w-2 rounded-full bg-cyan-600" />Captured minutes</span>
+              <span><span className="mr-1 inline-block h-2 w-2 rounded-full bg-slate-400" />Other files</span>
+              <span><span className="mr-1 inline-block h-2 w-2 rounded-full bg-slate-100 ring-1 ring-slate-300" />Free</span>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:p-5">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">Per day</h2>
+          <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+            {KINDS.map((kind) => (
+              <span key={kind}><span className={`mr-1 inline-block h-2 w-2 rounded-full ${KIND_COLORS[kind]}`} />{KIND_LABELS[kind]}</span>
+            ))}
+          </div>
+        </div>
+        <div className="mt-4 flex h-40 items-end gap-1">
+          {recentDays.map((bucket) => (
+            <div key={bucket.key} className="flex h-full min-w-0 flex-1 flex-col justify-end" title={`${bucket.key}: ${humanBytes(bucket.bytes)} in ${bucket.minutes} minutes`}>
+              {KINDS.slice().reverse().map((kind) => bucket.byKind[kind] > 0 && (
+                <div key={kind} className={KIND_COLORS[kind]} style={{ height: `${(bucket.byKind[kind] / Math.max(maxDay, 1)) * 100}%` }} />
+              ))}
+            </div>
+          ))}
+          {!recentDays.length && (
+            <div className="flex w-full items-center justify-center gap-2 self-center text-sm text-slate-500">
+              <HardDrive className="h-4 w-4" />
+              {loading ? 'Loading…' : 'No captures yet.'}
+            </div>
+          )}
+        </div>
+        {recentDays.length > 0 && (
+          <div className="mt-1 flex justify-between text-xs text-slate-500">
+            <span>{recentDays[0].key}</span>
+            <span>{recentDays[recentDays.length - 1].key}</span>
+          </div>
+        )}
+      </section>
+
+      {(usage?.byRoot.length || 0) > 1 && (
+        <BreakdownTable
+          title="By data root"
+          archiveParam="root"
+          buckets={(usage?.byRoot || []).map((root) => ({
+            ...root,
+            label: `${root.key}${root.primary ? ' (primary)' : ''} · ${root.disk ? `${humanBytes(root.disk.freeBytes)} free` : 'not mounted'}`,
+          }))}
+        />
+      )}
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <BreakdownTable title="By device" buckets={usage?.byDevice || []} archiveParam="deviceKey" />
+        <BreakdownTable title="By label" buckets={usage?.byLabel || []} archiveParam="label" />
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useApi } from '@/hooks/useApi';
+import { useMinuteEvents } from '@/hooks/useMinuteEvents';
 import type { ApiError } from '@/hooks/useApi';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
@@ -21,43 +22,9 @@ import {
   Trash2,
   X,
 } from 'lucide-react';
-
-type Sensor = {
-  sensor_type?: string;
-  key?: string;
-  name?: string;
-  available?: boolean;
-};
-
-type CaptureSettings = {
-  labels: string[];
-  sensors: Record<string, boolean>;
-  radar_detection_threshold_normalized: number;
-  occupancy_threshold_percent: number;
-  yellow_threshold_percent: number;
-  green_threshold_percent: number;
-  auto_occupancy_label_enabled: boolean;
-  chunk_seconds: number;
-  system_mode: 'responsive' | 'balanced' | 'precision';
-  occupancy_vote_chunks: number;
-  prediction_label_style: 'occupancy' | 'presence';
-  people_count_label_enabled: boolean;
-  sleep_study_enabled: boolean;
-  calibrations?: Record<string, unknown>;
-  revision: number;
-  updated_at?: string | null;
-};
-
-type DeviceHardwareInfo = {
-  device_type?: string;
-  is_raspberry_pi?: boolean;
-  raspberry_pi_model?: string;
-  portal_upload_allowed?: boolean;
-  sensors?: Sensor[];
-  available_sensors?: Sensor[];
-  hostname?: string;
-  capture_settings?: CaptureSettings;
-};
+import { normalizeDeviceValue } from '@/lib/deviceHardware';
+import type { CaptureSettings, DeviceHardwareInfo } from '@/lib/deviceHardware';
+import type { MinuteEvent } from '@/lib/minuteEvents';
 
 type Device = {
   device_id: string;
@@ -139,6 +106,16 @@ type LocalMinuteSummary = {
   }>;
 };
 
+type DeviceMinutePage = {
+  minutes: LocalMinuteSummary[];
+  total: number;
+  nextCursor: string | null;
+};
+
+const MINUTE_PAGE_SIZE = 25;
+const STREAM_FALLBACK_POLL_MS = 15000;
+const MINUTE_RELOAD_DEBOUNCE_MS = 1000;
+
 const DEFAULT_SENSORS: Record<string, boolean> = {
   usb_camera: true,
   dreamhat_radar: true,
@@ -177,25 +154,13 @@ function isRecent(value?: string | null, windowMs = 10 * 60 * 1000): boolean {
   return Number.isFinite(time) && Date.now() - time <= windowMs;
 }
 
-function normalizeKey(value: unknown): string {
-  return String(value || '')
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '');
-}
-
-function matchesDevice(device: Device, minute: LocalMinuteSummary): boolean {
-  const deviceKeys = [
-    device.device_uuid,
-    device.device_id,
-    device.device_name,
-    device.hardware_info?.hostname,
-    device.hardware_info?.raspberry_pi_model,
-    device.hardware_info?.device_type,
-  ].map(normalizeKey).filter(Boolean);
-  const minuteKeys = [minute.deviceKey, minute.deviceLabel, minute.relativePath, minute.minuteName]
-    .map(normalizeKey)
+// Local minute folders are keyed by whichever identifier the device wrote them
+// under, so ask the query API for all of them.
+function deviceMinuteKeys(device: Device): string[] {
+  const keys = [device.device_uuid, device.device_id, device.device_name, device.hardware_info?.hostname]
+    .map(normalizeDeviceValue)
     .filter(Boolean);
-  return minuteKeys.some((key) => deviceKeys.includes(key));
+  return Array.from(new Set(keys));
 }
 
 function normalizeSettings(
@@ -225,25 +190,6 @@ function normalizeSettings(
   };
 }
 
-function labelsForFile(file: DeviceFileSummary): string[] {
-  const candidates = [
-    ...(Array.isArray(file.labels) ? file.labels : []),
-    ...(Array.isArray(file.metadata?.labels) ? file.metadata.labels : []),
-    file.label,
-    file.metadata?.label,
-    file.occupancy?.label,
-  ];
-  const labels = Array.from(new Set(candidates.map((value) => String(value || '').trim()).filter(Boolean)));
-  if (labels.length) return labels;
-  const chunks = Array.isArray(file.progress?.chunks) ? file.progress.chunks : [];
-  const latest = chunks.filter((chunk: any) => ['occupied', 'empty'].includes(String(chunk?.state))).at(-1);
-  if (latest) {
-    const state = String(latest.state);
-    return [state, state === 'occupied' ? 'present' : 'absent'];
-  }
-  return [chunks.some((chunk: any) => String(chunk?.state || '') !== 'waiting') ? 'processing' : 'no-radar-data'];
-}
-
 function normalizeProgress(value: any): NonNullable<LocalMinuteSummary['progress']> {
   const allowedStates = new Set(['waiting', 'collecting', 'stored', 'analyzing', 'occupied', 'empty', 'error']);
   const sourceChunks = Array.isArray(value?.chunks) ? value.chunks : [];
@@ -285,6 +231,20 @@ function normalizeProgress(value: any): NonNullable<LocalMinuteSummary['progress
   };
 }
 
+function localMinuteFromSummary(summary: any): LocalMinuteSummary {
+  return {
+    ...summary,
+    labels: Array.isArray(summary.labels) ? summary.labels.map(String) : [],
+    progress: summary.progress ? normalizeProgress(summary.progress) : undefined,
+  };
+}
+
+// Applies a streamed chunk to a minute already on screen.
+function withStreamedChunk(minute: LocalMinuteSummary, chunk: NonNullable<MinuteEvent['chunk']>): LocalMinuteSummary {
+  const chunks = (minute.progress?.chunks || []).filter((entry) => entry.index !== chunk.index);
+  return { ...minute, progress: normalizeProgress({ ...minute.progress, chunks: [...chunks, chunk] }) };
+}
+
 function chunkDotStyle(state: string, classification?: string) {
   const background = state === 'occupied' || classification === 'green'
     ? 'hsl(145 68% 39%)'
@@ -298,8 +258,10 @@ function DevicePanel({
   device,
   files,
   minutes,
+  minuteTotal,
   settings,
   onSaveSettings,
+  onLoadMoreMinutes,
   onDownloadCloudFile,
   onDownloadMinute,
   onUploadMinute,
@@ -309,8 +271,10 @@ function DevicePanel({
   device: Device;
   files: DeviceFileSummary[];
   minutes: LocalMinuteSummary[];
+  minuteTotal: number;
   settings: CaptureSettings;
   onSaveSettings: (deviceId: string, settings: CaptureSettings) => Promise<CaptureSettings>;
+  onLoadMoreMinutes?: () => void;
   onDownloadCloudFile: (fileId: number, filename?: string) => Promise<void>;
   onDownloadMinute: (minute: string, deviceId: string) => Promise<void>;
   onUploadMinute: (minute: string, deviceId: string) => Promise<void>;
@@ -335,10 +299,6 @@ function DevicePanel({
   const [settingsStatus, setSettingsStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [settingsError, setSettingsError] = useState('');
 
-  const matchedMinutes = useMemo(() => {
-    return minutes.filter((minute) => matchesDevice(device, minute));
-  }, [device, minutes]);
-
   useEffect(() => {
     setDraftLabel(settings.labels.join(', '));
     setDraftSensors(settings.sensors);
@@ -410,7 +370,7 @@ function DevicePanel({
               </span>
               <span className="rounded-full border border-slate-200 bg-white px-2.5 py-1">IP {device.ip_address || 'N/A'}</span>
               <span className="rounded-full border border-slate-200 bg-white px-2.5 py-1">Last seen {device.last_seen ? new Date(parseServerTime(device.last_seen)).toLocaleString() : 'N/A'}</span>
-              <span className="rounded-full border border-slate-200 bg-white px-2.5 py-1">{matchedMinutes.length} captured minutes</span>
+              <span className="rounded-full border border-slate-200 bg-white px-2.5 py-1">{minuteTotal} captured minutes</span>
             </div>
           </div>
         </div>
@@ -521,7 +481,7 @@ function DevicePanel({
               Captured minutes
             </div>
             <div className="space-y-3">
-              {matchedMinutes.map((minute) => {
+              {minutes.map((minute) => {
                 const dataFiles = minute.dataFiles || [];
                 const fileCount = dataFiles.length;
                 const totalSize = dataFiles.reduce((sum, file) => sum + Number(file.size || 0), 0);
@@ -582,7 +542,7 @@ function DevicePanel({
                           <BarChart3 className="h-4 w-4" />
                           View predictions
                         </button>
-                        {!minute.uploaded && <button type="button" onClick={() => onUploadMinute(minute.minute, device.device_uuid).catch((error) => window.alert(error instanceof Error ? error.message : 'Upload request failed'))} className="inline-flex items-center justify-center gap-2 rounded-lg border border-cyan-700 bg-cyan-50 px-3 py-2 text-sm font-semibold text-cyan-950 hover:bg-cyan-100"><FolderOpen className="h-4 w-4"/>Upload files</button>}
+                        {!minute.uploaded && <button type="button" onClick={() => onUploadMinute(minute.minuteName, device.device_uuid).catch((error) => window.alert(error instanceof Error ? error.message : 'Upload request failed'))} className="inline-flex items-center justify-center gap-2 rounded-lg border border-cyan-700 bg-cyan-50 px-3 py-2 text-sm font-semibold text-cyan-950 hover:bg-cyan-100"><FolderOpen className="h-4 w-4"/>Upload files</button>}
                         {fileCount > 0 && (
                           <button
                             type="button"
@@ -598,11 +558,16 @@ function DevicePanel({
                   </div>
                 );
               })}
-              {!matchedMinutes.length && (
+              {!minutes.length && (
                 <div className="border border-dashed border-slate-400 p-6 text-sm text-slate-700">
                   No captured minutes are registered for this device yet.
                 </div>
               )}
+              {onLoadMoreMinutes && (
+                <button type="button" onClick={onLoadMoreMinutes} className="w-full border border-slate-400 bg-white px-3 py-2 text-sm font-semibold text-slate-950 hover:bg-slate-50">
+                  Load more minutes ({minutes.length} of {minuteTotal})
+                </button>
+              )}
             </div>
 
             {files.some((file) => file.on_cloud && file.cloud_file_id) && (
@@ -636,17 +601,16 @@ function DevicePanel({
 export default function DevicesPage() {
   const [devices, setDevices] = useState<Device[]>([]);
   const [deviceFiles, setDeviceFiles] = useState<Record<string, DeviceFileSummary[]>>({});
-  const [minutes, setMinutes] = useState<LocalMinuteSummary[]>([]);
+  const [deviceMinutes, setDeviceMinutes] = useState<Record<string, DeviceMinutePage>>({});
   const [settings, setSettings] = useState<Record<string, CaptureSettings>>({});
-  const [liveCaptures, setLiveCaptures] = useState<Record<string, { minute: string | null; chunks: any[]; cursor: string | null }>>({});
   const [loading, setLoading] = useState(true);
   const [query, setQuery] = useState('');
+  const [labelFilter, setLabelFilter] = useState('');
   const [onlineOnly, setOnlineOnly] = useState(false);
   const [pairingCode, setPairingCode] = useState('');
   const [pairingBusy, setPairingBusy] = useState(false);
   const loadInFlight = useRef(false);
-  const liveLoadInFlight = useRef(false);
-  const liveCursorRef = useRef<string | null>(null);
+  const minuteReloadTimers = useRef<Record<string, number>>({});
   const { get, post, put, delete: del } = useApi();
   const { user, isLoading: authLoading } = useAuth();
   const toast = useToast();
@@ -674,28 +638,6 @@ export default function DevicesPage() {
       }));
 
       setDeviceFiles(Object.fromEntries(entries.map((entry) => [entry.id, entry.files])));
-      setMinutes(entries.flatMap((entry) => entry.files.map((file: DeviceFileSummary) => {
-        const sensors = String(file.file_type || '').split(':')[1]?.split(',').filter(Boolean) || [];
-        return {
-          minute: file.filename,
-          minuteName: file.filename,
-          relativePath: file.filename,
-          path: '',
-          modified: file.modified_at || file.last_synced || '',
-          created: file.created_at || '',
-          deviceKey: entry.id,
-          deviceLabel: entry.id,
-          labels: labelsForFile(file),
-          occupancy: file.occupancy,
-          progress: normalizeProgress(file.progress),
-          completed: true,
-          state: 'ready' as const,
-          uploaded: file.on_cloud,
-          files: { video: sensors.includes('video'), radar: sensors.includes('radar'), csi: sensors.includes('csi'), manifest: true, predictions: false },
-          sizes: { total: Number(file.size || 0) },
-          dataFiles: [{ filename: file.filename, relativePath: file.filename, path: '', size: Number(file.size || 0), modified: file.modified_at || '', contentType: 'capture/minute' }],
-        };
-      })));
       setSettings((current) => Object.fromEntries(entries.map((entry) => {
         const previous = current[entry.id];
         return [entry.id, previous && previous.revision >= entry.settings.revision ? previous : entry.settings];
@@ -711,111 +653,37 @@ export default function DevicesPage() {
   useEffect(() => {
     if (authLoading || !user?.token) return;
     loadData(true);
-    const timer = window.setInterval(() => loadData(false), 15000);
-    return () => window.clearInterval(timer);
   }, [authLoading, loadData, user?.token]);
 
-  const loadLiveChunks = useCallback(async () => {
-    if (authLoading || !user?.token || liveLoadInFlight.current) return;
-    liveLoadInFlight.current = true;
+  // One page of a device's local minutes from the query API; a cursor appends
+  // the next page instead of replacing the list.
+  const loadDeviceMinutes = useCallback(async (device: Device, cursor: string | null = null) => {
+    const keys = deviceMinuteKeys(device);
+    if (!keys.length) return;
+    const params = new URLSearchParams({ deviceKey: keys.join(','), limit: String(MINUTE_PAGE_SIZE) });
+    if (labelFilter.trim()) params.set('label', labelFilter.trim());
+    if (cursor) params.set('cursor', cursor);
     try {
-      const suffix = liveCursorRef.current ? `?after=${encodeURIComponent(liveCursorRef.current)}` : '';
-      const response = await get(`/device/live-chunks${suffix}`).catch(() => null);
-      if (!response?.success) return;
-      if (response.cursor) liveCursorRef.current = response.cursor;
-      setLiveCaptures((current) => {
-        const next = { ...current };
-        Object.entries(response.devices || {}).forEach(([deviceId, value]) => {
-          const update = value as { minute?: string; chunks?: any[] };
-          const previous = next[deviceId];
-          const minute = update.minute || null;
-          const merged = new Map<number, any>(
-            previous?.minute === minute
-              ? previous.chunks.map((chunk) => [Number(chunk.chunk_index), chunk])
-              : [],
-          );
-          (Array.isArray(update.chunks) ? update.chunks : []).forEach((chunk: any) => {
-            merged.set(Number(chunk.chunk_index), chunk);
-          });
-          next[deviceId] = {
-            minute,
-            chunks: Array.from(merged.values()).sort((a, b) => Number(a.chunk_index) - Number(b.chunk_index)),
-            cursor: response.cursor || previous?.cursor || null,
-          };
-        });
-        return next;
-      });
-    } finally {
-      liveLoadInFlight.current = false;
+      const response = await fetch(`/api/data/minutes/query?${params.toString()}`, { cache: 'no-store' });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) throw new Error(data?.error || `Minute query failed (${response.status})`);
+      const page = (Array.isArray(data.minutes) ? data.minutes : []).map(localMinuteFromSummary);
+      setDeviceMinutes((current) => ({
+        ...current,
+        [device.device_uuid]: {
+          minutes: cursor ? [...(current[device.device_uuid]?.minutes || []), ...page] : page,
+          total: Number(data.total || 0),
+          nextCursor: data.nextCursor || null,
+        },
+      }));
+    } catch (err) {
+      toast.error('Load failed', err instanceof Error ? err.message : 'Unable to load captured minutes');
     }
-  }, [authLoading, get, user?.token]);
+  }, [labelFilter, toast]);
 
   useEffect(() => {
-    if (authLoading || !user?.token) return;
-    loadLiveChunks();
-    const timer = window.setInterval(loadLiveChunks, 500);
-    return () => window.clearInterval(timer);
-  }, [authLoading, loadLiveChunks, user?.token]);
-
-  const liveMinutes = useMemo<LocalMinuteSummary[]>(() => Object.entries(liveCaptures).flatMap(([deviceId, live]) => {
-    if (!live.minute) return [];
-    const chunks = live.chunks.map((chunk) => ({
-      index: Number(chunk.chunk_index),
-      state: chunk.status === 'occupied' || chunk.status === 'empty' ? chunk.status : 'collecting',
-      classification: chunk.occupancy?.classification,
-      prediction: chunk.occupancy?.label,
-      location: chunk.location,
-      ratio: Number(chunk.occupancy?.ratio || 0),
-      progress: chunk.status === 'occupied' || chunk.status === 'empty' ? 1 : 0.5,
-      score: Number(chunk.score || 0),
-      detected_frames: Number(chunk.occupancy?.detected_frames || 0),
-      evaluated_frames: Number(chunk.occupancy?.evaluated_frames || 0),
-      people_count: Number(chunk.people_count || 0),
-      targets: chunk.targets || [],
-      labels: chunk.labels || [],
-      activity_labels: chunk.activity_labels || [],
-      xy_map: chunk.xy_map,
-      camera_filename: chunk.camera_filename,
-    }));
-    const progress = normalizeProgress({
-      expected_chunks: 60,
-      stored_chunks: chunks.length,
-      analyzed_chunks: chunks.filter((chunk) => chunk.state === 'occupied' || chunk.state === 'empty').length,
-      chunks,
-    });
-    const latest = chunks.at(-1);
-    return [{
-      minute: live.minute,
-      minuteName: live.minute,
-      relativePath: live.minute,
-      path: '',
-      modified: live.cursor || '',
-      created: live.cursor || '',
-      deviceKey: deviceId,
-      deviceLabel: deviceId,
-      labels: latest?.labels || [],
-      occupancy: latest ? {
-        label: latest.prediction,
-        detected_frames: latest.detected_frames,
-        evaluated_frames: latest.evaluated_frames,
-        ratio: latest.ratio,
-        classification: latest.classification,
-      } : undefined,
-      progress,
-      completed: false,
-      state: 'collecting',
-      uploaded: false,
-      files: { video: chunks.some((chunk) => chunk.camera_filename), radar: true, csi: true, manifest: true, predictions: false },
-      sizes: {},
-    }];
-  }), [liveCaptures]);
-
-  const visibleMinutes = useMemo(() => [
-    ...liveMinutes,
-    ...minutes.filter((minute) => !liveMinutes.some(
-      (live) => live.deviceKey === minute.deviceKey && live.minute === minute.minute,
-    )),
-  ], [liveMinutes, minutes]);
+    devices.forEach((device) => { loadDeviceMinutes(device); });
+  }, [devices, loadDeviceMinutes]);
 
   const rows = useMemo(() => devices.map((device) => ({ ...device, online: Boolean(device.online) })), [devices]);
   const visibleRows = useMemo(() => {
@@ -828,6 +696,52 @@ export default function DevicesPage() {
     });
   }, [onlineOnly, query, rows]);
 
+  const streamDeviceKeys = useMemo(() => rows.flatMap(deviceMinuteKeys), [rows]);
+
+  // Events arrive per chunk, so reloads triggered by them are coalesced.
+  const scheduleMinuteReload = useCallback((device: Device) => {
+    window.clearTimeout(minuteReloadTimers.current[device.device_uuid]);
+    minuteReloadTimers.current[device.device_uuid] = window.setTimeout(() => {
+      delete minuteReloadTimers.current[device.device_uuid];
+      loadDeviceMinutes(device);
+    }, MINUTE_RELOAD_DEBOUNCE_MS);
+  }, [loadDeviceMinutes]);
+
+  useEffect(() => () => {
+    Object.values(minuteReloadTimers.current).forEach((timer) => window.clearTimeout(timer));
+  }, []);
+
+  const streamConnected = useMinuteEvents((event) => {
+    const device = rows.find((row) => deviceMinuteKeys(row).includes(event.deviceKey));
+    if (!device) return;
+    const shown = deviceMinutes[device.device_uuid]?.minutes.some((minute) => minute.minute === event.minute);
+    const chunk = event.chunk;
+    if (shown && chunk) {
+      setDeviceMinutes((current) => {
+        const page = current[device.device_uuid];
+        if (!page) return current;
+        return {
+          ...current,
+          [device.device_uuid]: {
+            ...page,
+            minutes: page.minutes.map((minute) => (minute.minute === event.minute ? withStreamedChunk(minute, chunk) : minute)),
+          },
+        };
+      });
+      return;
+    }
+    // New minutes, completions, uploads and label edits change what the
+    // query returns, so refetch the device's first page.
+    scheduleMinuteReload(device);
+  }, { deviceKeys: streamDeviceKeys, enabled: Boolean(user?.token) && streamDeviceKeys.length > 0 });
+
+  // Polling only stands in for the stream while it is disconnected.
+  useEffect(() => {
+    if (authLoading || !user?.token || streamConnected) return;
+    const timer = window.setInterval(() => loadData(false), STREAM_FALLBACK_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [authLoading, loadData, streamConnected, user?.token]);
+
   const saveSettings = async (deviceId: string, nextSettings: CaptureSettings) => {
     let submitted = nextSettings;
     let response;
@@ -904,6 +818,7 @@ export default function DevicesPage() {
   }, [toast, user?.token]);
 
   const onlineCount = rows.filter((device) => device.online).length;
+  const minuteCount = Object.values(deviceMinutes).reduce((sum, page) => sum + page.total, 0);
 
   if (loading && !devices.length) {
     return <div className="border border-slate-300 bg-white p-8 text-sm text-slate-700">Loading devices...</div>;
@@ -943,18 +858,22 @@ export default function DevicesPage() {
           </div>
           <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
             <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Captured minutes</div>
-            <div className="mt-1 text-2xl font-semibold text-slate-950">{visibleMinutes.length}</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{minuteCount}</div>
           </div>
           <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
             <div className="text-xs font-semibold uppercase tracking-wide text-slate-700">Registered devices</div>
             <div className="mt-1 text-2xl font-semibold text-slate-950">{rows.length}</div>
           </div>
         </div>
-        <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_auto]">
+        <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_220px_auto]">
           <label className="relative block">
             <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
             <input value={query} onChange={(event) => setQuery(event.target.value)} placeholder="Search devices by name, host, IP…" className="w-full rounded-xl border border-slate-300 py-2.5 pl-10 pr-3 text-sm outline-none focus:border-cyan-600 focus:ring-2 focus:ring-cyan-100" />
           </label>
+          <label className="block">
+            <span className="sr-only">Minute labels</span>
+            <input value={labelFilter} onChange={(event) => setLabelFilter(event.target.value)} placeholder="Minute labels, e.g. occupied" className="w-full rounded-xl border border-slate-300 px-3 py-2.5 text-sm outline-none focus:border-cyan-600 focus:ring-2 focus:ring-cyan-100" />
+          </label>
           <label className="flex items-center justify-between gap-3 rounded-xl border border-slate-300 px-3 py-2.5 text-sm font-medium sm:justify-start">
             Online only
             <input type="checkbox" checked={onlineOnly} onChange={(event) => setOnlineOnly(event.target.checked)} className="h-4 w-4 accent-cyan-600" />
@@ -968,13 +887,17 @@ export default function DevicesPage() {
             key={device.device_uuid}
             device={device}
             files={deviceFiles[device.device_uuid] || []}
-            minutes={visibleMinutes}
+            minutes={deviceMinutes[device.device_uuid]?.minutes || []}
+            minuteTotal={deviceMinutes[device.device_uuid]?.total || 0}
             settings={settings[device.device_uuid] || normalizeSettings(device.hardware_info?.capture_settings)}
             onSaveSettings={saveSettings}
+            onLoadMoreMinutes={deviceMinutes[device.device_uuid]?.nextCursor
+              ? () => loadDeviceMinutes(device, deviceMinutes[device.device_uuid].nextCursor)
+              : undefined}
             onRename={renameDevice}
             onRemove={removeDevice}
             onDownloadCloudFile={(fileId, filename = 'file') => downloadFromUrl(`/api/proxy/file/${fileId}`, filename)}
-            onDownloadMinute={(minute, deviceId) => downloadFromUrl(`/api/proxy/file/minute/${minute}/download?device_id=${encodeURIComponent(deviceId)}`, `${minute}.zip`)}
+            onDownloadMinute={(minute) => downloadFromUrl(`/api/data/minutes/${encodeURIComponent(minute)}/download`, `${minute.replace(/[^A-Za-z0-9._-]+/g, '_')}.zip`)}
             onUploadMinute={async (minute, deviceId) => {
               const response = await fetch(`/api/proxy/device/${encodeURIComponent(deviceId)}/captures/${encodeURIComponent(minute)}/request-upload`, {
                 method: 'POST',
@@ -7,6 +7,7 @@ import { getBillingPlanTitle } from '@/lib/billing';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useI18n } from '@/contexts/I18nContext';
 import { useApi } from '@/hooks/useApi';
+import type { RetentionPolicy, RetentionRule, RetentionRun } from '@/lib/retention';
 import {
   User,
   Bell,
@@ -20,8 +21,23 @@ import {
   CreditCard,
   Crown,
   Zap,
+  Pin,
+  Trash2,
+  Eye,
 } from 'lucide-react';
 
+function humanBytes(bytes?: number): string {
+  if (!bytes) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value >= 10 || unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
 export default function SettingsPage() {
   const { user } = useAuth();
   const { theme, setTheme } = useTheme();
@@ -31,6 +47,11 @@ export default function SettingsPage() {
   const [billingError, setBillingError] = useState('');
   const [billingLoading, setBillingLoading] = useState('');
   const { post } = useApi();
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+  const [retentionPreview, setRetentionPreview] = useState<RetentionRun | null>(null);
+  const [retentionBusy, setRetentionBusy] = useState(false);
+  const [retentionError, setRetentionError] = useState('');
+  const [ruleDraft, setRuleDraft] = useState<{ scope: 'labels' | 'devices'; name: string; days: string }>({ scope: 'labels', name: '', days: '90' });
   const [settings, setSettings] = useState({
     notifications: {
       email: true,
@@ -51,9 +72,89 @@ export default function SettingsPage() {
     },
   });
 
-  const handleSave = () => {
-    setSaved(true);
-    setTimeout(() => setSaved(false), 2000);
+  useEffect(() => {
+    fetch('/api/data/retention', { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data?.success) return;
+        setRetention(data.policy);
+        setSettings((prev) => ({ ...prev, data: { ...prev.data, retentionDays: data.policy.defaultDays || 0 } }));
+      })
+      .catch(() => setRetention(null));
+  }, []);
+
+  const saveRetention = async (policy: RetentionPolicy) => {
+    const response = await fetch('/api/data/retention', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(policy),
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) throw new Error(data.error || 'Unable to save retention policy');
+    setRetention(data.policy);
+    return data.policy as RetentionPolicy;
+  };
+
+  const runRetention = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(`Permanently delete ${retentionPreview?.deleted.length ?? 'all expired'} minute folders from this device?`)) return;
+    setRetentionBusy(true);
+    setRetentionError('');
+    try {
+      if (retention) await saveRetention({ ...retention, defaultDays: settings.data.retentionDays || null });
+      const response = await fetch('/api/data/retention/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // A real run deletes only the previewed minutes that still match.
+        body: JSON.stringify(dryRun ? { dryRun } : { dryRun, minutes: retentionPreview?.deleted.map((candidate) => candidate.minute) || [] }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Retention run failed');
+      setRetentionPreview(dryRun ? data.run : null);
+    } catch (error) {
+      setRetentionError(error instanceof Error ? error.message : 'Retention run failed');
+    } finally {
+      setRetentionBusy(false);
+    }
+  };
+
+  const pinMinute = async (minute: string) => {
+    const response = await fetch('/api/data/retention/pins', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ minute, pinned: true }),
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      setRetentionError(data.error || 'Unable to pin minute');
+      return;
+    }
+    // Keep unsaved rule edits; only the pinned list comes from the server.
+    setRetention((current) => current && { ...current, pinned: data.policy.pinned });
+    setRetentionPreview((current) => current && {
+      ...current,
+      deleted: current.deleted.filter((candidate) => candidate.minute !== minute),
+    });
+  };
+
+  const updateRule = (scope: 'labels' | 'devices', name: string, rule: RetentionRule | null) => {
+    setRetention((current) => {
+      if (!current) return current;
+      const rules = { ...current[scope] };
+      if (rule) rules[name] = rule;
+      else delete rules[name];
+      return { ...current, [scope]: rules };
+    });
+  };
+
+  const handleSave = async () => {
+    setRetentionError('');
+    try {
+      if (retention) await saveRetention({ ...retention, defaultDays: settings.data.retentionDays || null });
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (error) {
+      setRetentionError(error instanceof Error ? error.message : 'Unable to save retention policy');
+    }
   };
 
   const updateSetting = (category: string, key: string, value: any) => {
@@ -279,8 +380,129 @@ export default function SettingsPage() {
               <option value={30}>30 days</option>
               <option value={90}>90 days</option>
               <option value={365}>1 year</option>
+              <option value={0}>Keep forever</option>
             </select>
+            <p className="mt-2 text-slate-500 text-sm">Applies to captured minutes on this device that no label or device rule covers.</p>
           </div>
+          {retention ? <>
+            <div className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-white font-medium">Enforce automatically</p>
+                <p className="text-slate-500 text-sm">Delete expired minutes every hour and record each deletion in the audit log</p>
+              </div>
+              <button
+                onClick={() => setRetention({ ...retention, enabled: !retention.enabled })}
+                className={`w-12 h-6 rounded-full transition-colors ${retention.enabled ? 'bg-indigo-600' : 'bg-slate-600'}`}
+              >
+                <div className={`w-5 h-5 bg-white rounded-full transition-transform ${retention.enabled ? 'translate-x-6' : 'translate-x-0.5'}`} />
+              </button>
+            </div>
+            <div className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-white font-medium">Only delete uploaded minutes</p>
+                <p className="text-slate-500 text-sm">Keep anything without a cloud upload marker, whatever its age</p>
+              </div>
+              <button
+                onClick={() => setRetention({ ...retention, uploadedOnly: !retention.uploadedOnly })}
+                className={`w-12 h-6 rounded-full transition-colors ${retention.uploadedOnly ? 'bg-indigo-600' : 'bg-slate-600'}`}
+              >
+                <div className={`w-5 h-5 bg-white rounded-full transition-transform ${retention.uploadedOnly ? 'translate-x-6' : 'translate-x-0.5'}`} />
+              </button>
+            </div>
+            <div>
+              <p className="text-white font-medium mb-2">Label and device rules</p>
+              <div className="space-y-2">
+                {(['labels', 'devices'] as const).flatMap((scope) => Object.entries(retention[scope]).map(([name, rule]) => (
+                  <div key={`${scope}:${name}`} className="flex items-center justify-between gap-3 rounded-lg border border-slate-600 bg-slate-700/30 px-3 py-2 text-sm text-white">
+                    <span><span className="text-slate-400">{scope === 'labels' ? 'Label' : 'Device'}</span> {name}</span>
+                    <span className="flex items-center gap-3">
+                      {rule.days ? `${rule.days} days` : 'Keep forever'}
+                      <button onClick={() => updateRule(scope, name, null)} aria-label={`Remove rule for ${name}`} className="text-slate-400 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+                    </span>
+                  </div>
+                )))}
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value={ruleDraft.scope}
+                    onChange={(e) => setRuleDraft({ ...ruleDraft, scope: e.target.value as 'labels' | 'devices' })}
+                    className="px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white text-sm"
+                  >
+                    <option value="labels">Label</option>
+                    <option value="devices">Device</option>
+                  </select>
+                  <input
+                    value={ruleDraft.name}
+                    onChange={(e) => setRuleDraft({ ...ruleDraft, name: e.target.value })}
+                    placeholder={ruleDraft.scope === 'labels' ? 'occupied' : 'thoth-kitchen'}
+                    className="flex-1 min-w-[8rem] px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white text-sm"
+                  />
+                  <select
+                    value={ruleDraft.days}
+                    onChange={(e) => setRuleDraft({ ...ruleDraft, days: e.target.value })}
+                    className="px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white text-sm"
+                  >
+                    <option value="7">7 days</option>
+                    <option value="30">30 days</option>
+                    <option value="90">90 days</option>
+                    <option value="365">1 year</option>
+                    <option value="">Keep forever</option>
+                  </select>
+                  <button
+                    disabled={!ruleDraft.name.trim()}
+                    onClick={() => {
+                      updateRule(ruleDraft.scope, ruleDraft.name.trim(), { days: ruleDraft.days ? Number(ruleDraft.days) : null });
+                      setRuleDraft({ ...ruleDraft, name: '' });
+                    }}
+                    className="px-3 py-2 bg-slate-700/50 hover:bg-slate-700 text-white rounded-lg text-sm disabled:opacity-50"
+                  >
+                    Add rule
+                  </button>
+                </div>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button
+                disabled={retentionBusy}
+                onClick={() => runRetention(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Eye className="w-4 h-4" />
+                Preview cleanup
+              </button>
+              {retentionPreview && retentionPreview.deleted.length > 0 && (
+                <button
+                  disabled={retentionBusy}
+                  onClick={() => runRetention(false)}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete {retentionPreview.deleted.length} minutes now
+                </button>
+              )}
+            </div>
+            {retentionPreview && (
+              <div className="rounded-lg border border-slate-600 bg-slate-700/30 p-3 text-sm text-slate-300">
+                <p className="text-white">
+                  {retentionPreview.deleted.length} minutes ({humanBytes(retentionPreview.bytesFreed)}) would be removed.
+                  {' '}{retentionPreview.kept.pinned} pinned, {retentionPreview.kept.notUploaded} not yet uploaded and {retentionPreview.kept.collecting} still collecting are kept.
+                </p>
+                <ul className="mt-2 max-h-60 space-y-1 overflow-y-auto">
+                  {retentionPreview.deleted.map((candidate) => (
+                    <li key={candidate.minute} className="flex items-center justify-between gap-3">
+                      <span className="font-mono text-xs">{candidate.minute} · {candidate.deviceKey} · {candidate.ageDays}d · {humanBytes(candidate.bytes)}</span>
+                      <button onClick={() => pinMinute(candidate.minute)} className="flex items-center gap-1 text-xs text-indigo-300 hover:text-white">
+                        <Pin className="w-3 h-3" />
+                        Pin
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </> : (
+            <p className="text-slate-500 text-sm">Retention policies are available when the portal runs on a device with local capture data.</p>
+          )}
+          {retentionError && <p role="alert" className="text-sm font-semibold text-red-400">{retentionError}</p>}
         </div>
       </div>
 
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteDatasetExport, readDatasetExport, readDatasetExportCard } from '@/lib/datasetExport';
+import { datasetCardMarkdown } from '@/lib/datasetCard';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET ?card=markdown downloads the dataset card instead of the index.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const name = decodeURIComponent(params.name);
+    const index = readDatasetExport(name);
+    if (!index) {
+      return NextResponse.json({ success: false, error: 'Export not found' }, { status: 404 });
+    }
+    const card = readDatasetExportCard(name);
+    if (request.nextUrl.searchParams.get('card') === 'markdown') {
+      if (!card) {
+        return NextResponse.json({ success: false, error: 'This export has no dataset card' }, { status: 404 });
+      }
+      return new NextResponse(datasetCardMarkdown(card), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${name}-DATASET_CARD.md"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, export: index, card, count: index.items.length });
+  } catch (error) {
+    console.error('Error reading dataset export:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read dataset export' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    if (!deleteDatasetExport(decodeURIComponent(params.name))) {
+      return NextResponse.json({ success: false, error: 'Export not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting dataset export:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete dataset export' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
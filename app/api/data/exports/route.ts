@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import {
+  createDatasetExport,
+  datasetExportsDir,
+  listDatasetExports,
+  parseDatasetExportOptions,
+  planDatasetExport,
+  summarizeDatasetExport,
+} from '@/lib/datasetExport';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const exports = listDatasetExports();
+    return NextResponse.json({
+      success: true,
+      exports,
+      count: exports.length,
+      exportsDir: datasetExportsDir(),
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error listing dataset exports:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list dataset exports', exports: [] },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { labels, groupBy?, ratios?, seed?, kinds?, deviceKeys?, from?, to?,
+// name?, preview? } — preview returns the split without writing anything.
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const parsed = parseDatasetExportOptions(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    if (body?.preview) {
+      const plan = summarizeDatasetExport(planDatasetExport(parsed.options));
+      return NextResponse.json({ success: true, preview: true, export: plan, count: plan.minuteCount });
+    }
+
+    const result = createDatasetExport(parsed.options);
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({
+      success: true,
+      export: result.export,
+      copied: result.copied,
+      count: result.export.minuteCount,
+      path: `${datasetExportsDir()}/${result.export.name}`,
+    });
+  } catch (error) {
+    console.error('Error exporting dataset:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export dataset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
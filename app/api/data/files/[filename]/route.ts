@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
-import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { localPathForRelative } from '@/lib/localLabelFiles';
+import { fileResponse } from '@/lib/fileResponse';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const DATA_DIR = MINUTES_DATA_DIR;
-
 export async function GET(
   request: NextRequest,
   { params }: { params: { filename: string } }
@@ -15,13 +14,10 @@ export async function GET(
   try {
     const filename = decodeURIComponent(params.filename);
     
-    const filePath = path.join(DATA_DIR, filename);
-    
-    // Security check - ensure the file is within the data directory
-    const resolvedPath = path.resolve(filePath);
-    const resolvedDataDir = path.resolve(DATA_DIR);
+    // Security check - ensure the file is within one of the data roots
+    const filePath = localPathForRelative(filename);
     
-    if (!resolvedPath.startsWith(resolvedDataDir)) {
+    if (!filePath) {
       return NextResponse.json(
         { error: 'Invalid file path' },
         { status: 400 }
@@ -43,7 +39,6 @@ export async function GET(
       );
     }
     
-    const fileContent = fs.readFileSync(filePath);
     const ext = path.extname(filename).toLowerCase();
     
     let contentType = 'application/octet-stream';
@@ -53,13 +48,12 @@ export async function GET(
       contentType = 'text/csv';
     }
     
-    return new NextResponse(fileContent, {
-      headers: {
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': stat.size.toString(),
-      },
+    const response = fileResponse(request.headers, filePath, stat, {
+      contentType,
+      disposition: 'attachment',
+      filename: path.basename(filePath),
     });
+    return new NextResponse(response.body, { status: response.status, headers: response.headers });
   } catch (error) {
     console.error('Error serving file:', error);
     return NextResponse.json(
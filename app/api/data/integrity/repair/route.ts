@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTE_ID_RE } from '@/lib/minutes';
+import { repairMinute } from '@/lib/minuteIntegrity';
+import type { MinuteIntegrityReport, MinuteRepairAction } from '@/lib/minuteIntegrity';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const REPAIR_ACTIONS: MinuteRepairAction[] = ['regenerate-manifest', 'mark-finished'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const action = String(body.action || '') as MinuteRepairAction;
+    const minutes = (Array.isArray(body.minutes) ? body.minutes : [body.minute])
+      .map((minute: unknown) => String(minute || ''))
+      .filter(Boolean);
+
+    if (!REPAIR_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `action must be one of ${REPAIR_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!minutes.length) {
+      return NextResponse.json({ success: false, error: 'No minutes provided' }, { status: 400 });
+    }
+
+    const repaired: MinuteIntegrityReport[] = [];
+    const skipped: Array<{ minute: string; error: string }> = [];
+    for (const minute of minutes) {
+      if (!MINUTE_ID_RE.test(minute)) {
+        skipped.push({ minute, error: 'Invalid minute folder' });
+        continue;
+      }
+      try {
+        repaired.push(await repairMinute(minute, action));
+      } catch (error) {
+        skipped.push({ minute, error: error instanceof Error ? error.message : 'Repair failed' });
+      }
+    }
+
+    return NextResponse.json({ success: true, action, repaired, skipped });
+  } catch (error) {
+    console.error('Error repairing minutes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to repair minutes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { checkAllMinutes, summarizeIntegrityByDevice } from '@/lib/minuteIntegrity';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const reports = checkAllMinutes(params.get('deviceKey'));
+    const includeHealthy = ['1', 'true'].includes(params.get('all') || '');
+    const minutes = includeHealthy ? reports : reports.filter((report) => report.issues.length);
+
+    return NextResponse.json({
+      success: true,
+      checkedAt: new Date().toISOString(),
+      devices: summarizeIntegrityByDevice(reports),
+      minutes,
+      count: minutes.length,
+      checked: reports.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error checking minute integrity:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check minute integrity', minutes: [] },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queryLabelAudit } from '@/lib/labelAudit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(Number(params.get('limit') || 200) || 200, 1), 1000);
+    const { entries, total } = queryLabelAudit({
+      minute: params.get('minute'),
+      batchId: params.get('batch'),
+      limit,
+    });
+
+    return NextResponse.json({ success: true, entries, count: entries.length, total });
+  } catch (error) {
+    console.error('Error reading label audit log:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read label audit log', entries: [] },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { labelActorFromRequest, undoLabelChanges } from '@/lib/labelAudit';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const id = typeof body.id === 'string' ? body.id : null;
+    const batchId = typeof body.batchId === 'string' ? body.batchId : null;
+    if (!id && !batchId) {
+      return NextResponse.json({ success: false, error: 'Provide an audit entry id or batchId' }, { status: 400 });
+    }
+
+    const result = await undoLabelChanges({ id, batchId, force: body.force === true }, labelActorFromRequest(request));
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Audit entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result, count: result.undone.length });
+  } catch (error) {
+    console.error('Error undoing label change:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to undo label change' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
-import { MINUTES_DATA_DIR, listLabeledMinuteGroups } from '@/lib/minutes';
+import { getMinuteSummary, listLabeledMinuteGroups, listMinuteDataFiles } from '@/lib/minutes';
+import { localPathForRelative } from '@/lib/localLabelFiles';
+import { listLabeledIntervalSamples } from '@/lib/labelIntervals';
+import { getRecordingSession } from '@/lib/recordingSessions';
+import { DATASET_CARD_JSON, DATASET_CARD_MARKDOWN, datasetCardMarkdown } from '@/lib/datasetCard';
+import { buildDatasetCard, hardwareByDeviceKey } from '@/lib/datasetCardBuilder';
+import type { DatasetCardSample } from '@/lib/datasetCardBuilder';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -66,35 +72,67 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json().catch(() => ({}));
-    const selectedLabels = Array.isArray(body.labels)
+    // A recording session uploads all of its minutes under the session's own
+    // labels instead of selecting minutes by label.
+    const session = body.session ? getRecordingSession(String(body.session)) : null;
+    if (body.session && !session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+    const selectedLabels: string[] = Array.isArray(body.labels)
       ? body.labels.map((label: unknown) => String(label || '').trim()).filter(Boolean)
-      : [];
-    const datasetName = String(body.name || selectedLabels.join(' + ') || 'Local labeled dataset').trim();
+      : session?.session.labels || [];
+    const datasetName = String(
+      body.name || (session ? `${session.session.deviceLabel} ${session.session.firstMinute}` : selectedLabels.join(' + ')) || 'Local labeled dataset'
+    ).trim();
+    // "minutes" uploads whole labeled minutes, "intervals" one sample per
+    // labeled interval, "both" does both.
+    const samples = ['minutes', 'intervals', 'both'].includes(body.samples) ? body.samples : 'minutes';
 
     if (!selectedLabels.length) {
-      return NextResponse.json({ success: false, error: 'Select at least one label' }, { status: 400 });
+      return NextResponse.json(
+        { success: false, error: session ? 'Label the session before creating a dataset from it' : 'Select at least one label' },
+        { status: 400 }
+      );
     }
 
-    const selected = Array.from(new Map(
-      listLabeledMinuteGroups()
-      .filter((group) => selectedLabels.includes(group.label))
-      .flatMap((group) => group.minutes.flatMap((minute) => minute.files.map((file) => ({
-        label: group.label,
+    const selected = session
+      ? session.summaries.flatMap((minute) => (minute.dataFiles || listMinuteDataFiles(minute.path)).map((file) => ({
+        label: selectedLabels[0],
+        labels: selectedLabels,
+        session: session.session.id,
+        summary: minute,
         minute: minute.minute,
         minutePath: minute.path,
         minuteRelativePath: minute.relativePath,
         ...file,
-      }))))
-      .map((file) => [file.relativePath, file] as const)
-    ).values());
+      })))
+      : samples === 'intervals' ? [] : Array.from(new Map(
+        listLabeledMinuteGroups()
+        .filter((group) => selectedLabels.includes(group.label))
+        .flatMap((group) => group.minutes.flatMap((minute) => minute.files.map((file) => ({
+          label: group.label,
+          labels: [group.label],
+          session: undefined as string | undefined,
+          summary: minute,
+          minute: minute.minute,
+          minutePath: minute.path,
+          minuteRelativePath: minute.relativePath,
+          ...file,
+        }))))
+        .map((file) => [file.relativePath, file] as const)
+      ).values());
+
+    const intervalSamples = session || samples === 'minutes' ? [] : listLabeledIntervalSamples(selectedLabels);
 
-    if (!selected.length) {
-      return NextResponse.json({ success: false, error: 'Selected labels have no labeled minutes' }, { status: 400 });
+    if (!selected.length && !intervalSamples.length) {
+      return NextResponse.json({ success: false, error: 'Selected labels have no labeled minutes or intervals' }, { status: 400 });
     }
 
     const created = await backendJson('/datasets/create', authorization, {
       name: datasetName,
-      description: `Local labels from thoth/data: ${selectedLabels.join(', ')}`,
+      description: session
+        ? `Recording session ${session.session.id} from thoth/data: ${selectedLabels.join(', ')}`
+        : `Local labels from thoth/data: ${selectedLabels.join(', ')}`,
     });
     const datasetId = created?.dataset?.id;
     if (!datasetId) throw new Error('Dataset creation did not return an id');
@@ -105,9 +143,7 @@ export async function POST(request: NextRequest) {
     for (const file of selected) {
       try {
         const filePath = path.join(file.minutePath, file.filename);
-        const resolvedFilePath = path.resolve(filePath);
-        const resolvedRoot = path.resolve(MINUTES_DATA_DIR);
-        if (!resolvedFilePath.startsWith(resolvedRoot)) {
+        if (localPathForRelative(file.relativePath) !== path.resolve(filePath)) {
           errors.push(`${file.relativePath}: invalid path`);
           continue;
         }
@@ -130,12 +166,13 @@ export async function POST(request: NextRequest) {
           content_type: contentTypeForMinuteFile(filePath),
           is_base64: true,
           metadata: {
-            labels: [file.label],
+            labels: file.labels,
             primary_label: file.label,
             source: 'thoth/data',
             source_path: file.relativePath,
             minute: file.minute,
             original_filename: path.basename(filePath),
+            ...(file.session ? { session: file.session, session_notes: session?.session.notes || undefined } : {}),
           },
         });
         const fileId = upload?.file_id;
@@ -145,17 +182,121 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    for (const sample of intervalSamples) {
+      const range = `${sample.interval.start_s}-${sample.interval.end_s}s`;
+      if (!sample.files.length) {
+        errors.push(`${sample.minuteRelativePath} ${range}: no radar chunks`);
+        continue;
+      }
+      for (const file of sample.files) {
+        try {
+          const filePath = path.join(sample.minutePath, file.filename);
+          if (localPathForRelative(file.relativePath) !== path.resolve(filePath)) {
+            errors.push(`${file.relativePath}: invalid path`);
+            continue;
+          }
+          const stat = fs.existsSync(filePath) ? fs.statSync(filePath) : null;
+          if (!stat?.isFile() || stat.size === 0) {
+            errors.push(`${file.relativePath}: missing or empty`);
+            continue;
+          }
+          const upload = await backendJson('/file/upload', authorization, {
+            filename: safeUploadName(`${sample.minuteRelativePath}/${range}/${file.filename}`),
+            content: fs.readFileSync(filePath).toString('base64'),
+            content_type: contentTypeForMinuteFile(filePath),
+            is_base64: true,
+            metadata: {
+              labels: sample.labels,
+              primary_label: sample.labels[0],
+              source: 'thoth/data',
+              source_path: file.relativePath,
+              minute: sample.minute,
+              original_filename: file.filename,
+              chunk_index: file.chunkIndex,
+              interval: sample.interval,
+            },
+          });
+          const fileId = upload?.file_id;
+          if (fileId) uploadedFiles.push({ file_id: fileId, label: sample.labels[0] });
+        } catch (error) {
+          errors.push(`${file.relativePath}: ${error instanceof Error ? error.message : 'upload failed'}`);
+        }
+      }
+    }
+
     if (!uploadedFiles.length) {
       throw new Error(`No files uploaded. ${errors.join('; ')}`);
     }
 
+    const sampleFileCount = uploadedFiles.length;
+    // The dataset card describes what was selected and is attached next to the
+    // samples under its own label.
+    const cardSamples = new Map<string, DatasetCardSample>();
+    selected.filter((file) => isUploadableMinuteFile(file.filename)).forEach((file) => {
+      const sample = cardSamples.get(file.minute) || { minute: file.summary, labels: file.labels, files: [] };
+      sample.files!.push({ name: file.filename, size: file.size });
+      cardSamples.set(file.minute, sample);
+    });
+    const intervalCardSamples = intervalSamples.flatMap((sample): DatasetCardSample[] => {
+      const summary = getMinuteSummary(sample.minute);
+      if (!summary) return [];
+      return [{
+        minute: summary,
+        labels: sample.labels,
+        durationSeconds: sample.interval.end_s - sample.interval.start_s,
+        interval: true,
+        files: sample.files.map((file) => {
+          const filePath = path.join(sample.minutePath, file.filename);
+          return { name: file.filename, size: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0 };
+        }),
+      }];
+    });
+    const devices = await backendJson('/device/list?include_offline=true', authorization, undefined, 'GET').catch(() => null);
+    const card = buildDatasetCard({
+      name: datasetName,
+      source: 'cloud-dataset',
+      description: created.dataset?.description || undefined,
+      samples: [...Array.from(cardSamples.values()), ...intervalCardSamples],
+      hardware: hardwareByDeviceKey(Array.isArray(devices?.devices) ? devices.devices : []),
+      details: {
+        'Dataset id': datasetId,
+        'Uploaded files': sampleFileCount,
+        ...(session ? { 'Recording session': session.session.id } : {}),
+      },
+    });
+    // Every file attached to a dataset is a training sample with a class
+    // label, so the card is uploaded alongside the dataset instead: tagged
+    // with its id in the file metadata and returned to the caller.
+    const cardContents: Array<[string, string, string]> = [
+      [DATASET_CARD_MARKDOWN, datasetCardMarkdown(card), 'text/markdown'],
+      [DATASET_CARD_JSON, JSON.stringify(card, null, 2), 'application/json'],
+    ];
+    const cardFiles: Array<{ file_id: number; filename: string }> = [];
+    for (const [filename, text, contentType] of cardContents) {
+      try {
+        const upload = await backendJson('/file/upload', authorization, {
+          filename: safeUploadName(`${datasetName}/${filename}`),
+          content: Buffer.from(text, 'utf8').toString('base64'),
+          content_type: contentType,
+          is_base64: true,
+          metadata: { source: 'thoth/data', dataset_card: true, dataset_id: datasetId, original_filename: filename },
+        });
+        if (upload?.file_id) cardFiles.push({ file_id: upload.file_id, filename });
+      } catch (error) {
+        errors.push(`${filename}: ${error instanceof Error ? error.message : 'upload failed'}`);
+      }
+    }
+
     const attached = await backendJson(`/datasets/${datasetId}/files`, authorization, { files: uploadedFiles });
 
     return NextResponse.json({
       success: true,
       dataset: created.dataset,
-      uploaded_count: uploadedFiles.length,
+      uploaded_count: sampleFileCount,
+      interval_samples: intervalSamples.length,
       attached,
+      card,
+      card_files: cardFiles,
       errors,
     });
   } catch (error) {
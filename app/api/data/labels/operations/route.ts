@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { labelActorFromRequest } from '@/lib/labelAudit';
+import { applyLabelOperation, listLabelUsage, parseLabelOperation, planLabelOperation } from '@/lib/labelOperations';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const labels = listLabelUsage();
+    return NextResponse.json({ success: true, labels, count: labels.length, dataDir: MINUTES_DATA_DIR });
+  } catch (error) {
+    console.error('Error listing label usage:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list label usage', labels: [] },
+      { status: 500 }
+    );
+  }
+}
+
+// Previews by default; pass dryRun: false to rewrite manifests and move folders.
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const parsed = parseLabelOperation(body);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, error: parsed.errors.join('; '), errors: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    if (body.dryRun !== false) {
+      const plan = planLabelOperation(parsed.operation);
+      return NextResponse.json({ success: true, dryRun: true, mapped: parsed.mapped, ...plan, count: plan.changes.length });
+    }
+
+    const result = await applyLabelOperation(parsed.operation, labelActorFromRequest(request));
+    return NextResponse.json({
+      success: true,
+      dryRun: false,
+      mapped: parsed.mapped,
+      ...result,
+      count: result.applied.length,
+    });
+  } catch (error) {
+    console.error('Error running label operation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run label operation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR, listMinuteSummaries } from '@/lib/minutes';
+import { LABEL_CATEGORIES, findTaxonomyLabel, readLabelTaxonomy, writeLabelTaxonomy } from '@/lib/labelTaxonomy';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const taxonomy = readLabelTaxonomy();
+    const counts = new Map<string, number>();
+    listMinuteSummaries().forEach((minute) => {
+      (Array.isArray(minute.manifest?.labels) ? minute.manifest.labels : []).forEach((label: unknown) => {
+        const value = String(label || '').trim();
+        if (value) counts.set(value, (counts.get(value) || 0) + 1);
+      });
+    });
+    const usage = Array.from(counts.entries())
+      .map(([label, count]) => ({ label, count, canonical: findTaxonomyLabel(taxonomy, label)?.name || null }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+    return NextResponse.json({
+      success: true,
+      taxonomy,
+      categories: LABEL_CATEGORIES,
+      usage,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error loading label taxonomy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load label taxonomy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, error: 'Invalid label taxonomy' }, { status: 400 });
+    }
+    const result = writeLabelTaxonomy({ ...readLabelTaxonomy(), ...body });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.errors.join('; '), errors: result.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ success: true, taxonomy: result.taxonomy });
+  } catch (error) {
+    console.error('Error saving label taxonomy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save label taxonomy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
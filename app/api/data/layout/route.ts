@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { applyMinuteLayout, planMinuteLayout } from '@/lib/minuteLayout';
+import { listMinuteAliases } from '@/lib/minuteAliases';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const plan = planMinuteLayout();
+    return NextResponse.json({
+      success: true,
+      ...plan,
+      aliases: listMinuteAliases(),
+      count: plan.moves.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error planning minute layout:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan minute layout' },
+      { status: 500 }
+    );
+  }
+}
+
+// Previews by default; pass dryRun: false to move the folders.
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    if (body.dryRun !== false) {
+      const plan = planMinuteLayout();
+      return NextResponse.json({ success: true, dryRun: true, ...plan, count: plan.moves.length });
+    }
+
+    const result = applyMinuteLayout();
+    return NextResponse.json({ success: true, dryRun: false, ...result, count: result.moved.length });
+  } catch (error) {
+    console.error('Error reorganizing minute folders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reorganize minute folders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -1,42 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import os from 'os';
-import path from 'path';
-import { execFileSync } from 'child_process';
 import { getMinuteDetail } from '@/lib/minutes';
+import { MINUTE_ARCHIVE_CHECKSUM_FILE, MINUTE_ARCHIVE_KINDS, minuteArchiveEntries, parseMinuteArchiveKinds } from '@/lib/minuteArchive';
+import { zipStream } from '@/lib/zipStream';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+// GET ?kind=video&kind=radar (or ?kind=video,radar) — the whole folder when no
+// kind is given. The archive ends with a SHA256SUMS file.
 export async function GET(
   request: NextRequest,
   { params }: { params: { minute: string } }
 ) {
   try {
     const minute = decodeURIComponent(params.minute);
-    const detail = getMinuteDetail(minute);
+    const { kinds, unknown } = parseMinuteArchiveKinds(request.nextUrl.searchParams.getAll('kind'));
+    if (unknown.length) {
+      return NextResponse.json(
+        { error: `Unknown kind ${unknown.join(', ')}; expected ${MINUTE_ARCHIVE_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
+    const detail = getMinuteDetail(minute);
     if (!detail) {
       return NextResponse.json({ error: 'Minute folder not found' }, { status: 404 });
     }
 
-    const zipPath = path.join(os.tmpdir(), `${minute}.zip`);
-    if (fs.existsSync(zipPath)) {
-      fs.unlinkSync(zipPath);
+    const entries = minuteArchiveEntries(detail, kinds);
+    if (!entries.length) {
+      return NextResponse.json({ error: 'No files of the selected kinds' }, { status: 404 });
     }
 
-    execFileSync('zip', ['-r', '-q', zipPath, '.'], {
-      cwd: detail.path,
-    });
-
-    const payload = fs.readFileSync(zipPath);
-    fs.unlinkSync(zipPath);
-
-    return new NextResponse(payload, {
+    const filename = `${minute.replace(/[^A-Za-z0-9._-]+/g, '_')}${kinds ? `-${kinds.join('-')}` : ''}.zip`;
+    return new NextResponse(zipStream(entries, { checksumFile: MINUTE_ARCHIVE_CHECKSUM_FILE }), {
       headers: {
         'Content-Type': 'application/zip',
-        'Content-Disposition': `attachment; filename="${minute}.zip"`,
-        'Content-Length': String(payload.length),
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
       },
     });
   } catch (error) {
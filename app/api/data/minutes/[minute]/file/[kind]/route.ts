@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
 import { getMinuteDetail } from '@/lib/minutes';
+import { fileResponse } from '@/lib/fileResponse';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -36,7 +37,6 @@ export async function GET(
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
 
-    const content = fs.readFileSync(filePath);
     const ext = path.extname(filePath).toLowerCase();
     let contentType = 'application/octet-stream';
     if (ext === '.mp4') contentType = 'video/mp4';
@@ -45,13 +45,12 @@ export async function GET(
     else if (ext === '.jsonl') contentType = 'application/x-ndjson';
     else if (ext === '.log') contentType = 'text/plain';
 
-    return new NextResponse(content, {
-      headers: {
-        'Content-Type': contentType,
-        'Content-Disposition': `inline; filename="${path.basename(filePath)}"`,
-        'Content-Length': String(content.length),
-      },
+    const response = fileResponse(request.headers, filePath, fs.statSync(filePath), {
+      contentType,
+      disposition: 'inline',
+      filename: path.basename(filePath),
     });
+    return new NextResponse(response.body, { status: response.status, headers: response.headers });
   } catch (error) {
     console.error('Error serving minute file:', error);
     return NextResponse.json({ error: 'Failed to serve file' }, { status: 500 });
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import { getMinuteDetail, getMinutePaths, MINUTE_ID_RE } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { LABEL_INTERVALS_FIELD, manifestLabelIntervals, minuteTiming, parseLabelIntervals } from '@/lib/labelIntervals';
+import { manifestFailureStatus, manifestRevision, parseExpectedRevision, updateManifest } from '@/lib/manifestStore';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function loadMinute(minute: string) {
+  if (!MINUTE_ID_RE.test(minute)) return null;
+  const detail = getMinuteDetail(minute);
+  return detail && fs.existsSync(detail.path) ? detail : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { minute: string } }
+) {
+  try {
+    const detail = loadMinute(decodeURIComponent(params.minute));
+    if (!detail) {
+      return NextResponse.json({ success: false, error: 'Minute folder not found' }, { status: 404 });
+    }
+
+    const intervals = manifestLabelIntervals(detail.manifest);
+    return NextResponse.json({
+      success: true,
+      minute: detail.minute,
+      intervals,
+      timing: minuteTiming(detail.manifest, getMinutePaths(detail.path).radarBins.length),
+      revision: manifestRevision(detail.manifest),
+      count: intervals.length,
+    });
+  } catch (error) {
+    console.error('Error loading label intervals:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load label intervals' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replaces the minute's full interval list, like `replace: true` on minute labels.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { minute: string } }
+) {
+  try {
+    const detail = loadMinute(decodeURIComponent(params.minute));
+    if (!detail) {
+      return NextResponse.json({ success: false, error: 'Minute folder not found' }, { status: 404 });
+    }
+
+    const body = jsonObject(await request.json().catch(() => null));
+    const expectedRevision = parseExpectedRevision(body.revision ?? request.headers.get('if-match'));
+    if (expectedRevision === undefined) {
+      return NextResponse.json({ success: false, error: 'Invalid manifest revision' }, { status: 400 });
+    }
+
+    const timing = minuteTiming(detail.manifest, getMinutePaths(detail.path).radarBins.length);
+    const parsed = parseLabelIntervals(body.intervals, timing);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, error: parsed.errors.join('; '), errors: parsed.errors, unknown: parsed.unknown || [] },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateManifest(detail.path, (manifest) => {
+      manifest[LABEL_INTERVALS_FIELD] = parsed.intervals;
+    }, { expectedRevision });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error, reason: result.reason, revision: result.revision },
+        { status: manifestFailureStatus(result) }
+      );
+    }
+
+    invalidateMinuteIndex(detail.relativePath);
+    return NextResponse.json({
+      success: true,
+      minute: detail.minute,
+      intervals: parsed.intervals,
+      mapped: parsed.mapped,
+      timing,
+      revision: result.revision,
+      count: parsed.intervals.length,
+    });
+  } catch (error) {
+    console.error('Error updating label intervals:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update label intervals' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
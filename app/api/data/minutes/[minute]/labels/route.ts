@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
-import path from 'path';
 import { getMinuteDetail, MINUTE_ID_RE } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import { labelActorFromRequest, manifestLabels, newLabelBatchId, recordLabelChange } from '@/lib/labelAudit';
+import { manifestFailureStatus, parseExpectedRevision, updateManifest } from '@/lib/manifestStore';
+import { jsonObject } from '@/lib/requestBody';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -42,17 +46,53 @@ export async function PATCH(
       return NextResponse.json({ success: false, error: 'Minute folder not found' }, { status: 404 });
     }
 
-    const body = await request.json().catch(() => ({}));
-    const labels = normalizeLabels(body.labels);
+    const body = jsonObject(await request.json().catch(() => null));
+    const taxonomy = readLabelTaxonomy();
+    const mapping = mapLabels(normalizeLabels(body.labels), taxonomy);
+    if (taxonomy.mode === 'strict' && mapping.unknown.length) {
+      return NextResponse.json(
+        { success: false, error: `Unknown labels: ${mapping.unknown.join(', ')}`, unknown: mapping.unknown },
+        { status: 400 }
+      );
+    }
+
+    const expectedRevision = parseExpectedRevision(body.revision ?? request.headers.get('if-match'));
+    if (expectedRevision === undefined) {
+      return NextResponse.json({ success: false, error: 'Invalid manifest revision' }, { status: 400 });
+    }
+
+    const labels = mapping.labels;
     const replace = Boolean(body.replace);
-    const manifestPath = path.join(detail.path, 'manifest.json');
-    const manifest = fs.existsSync(manifestPath)
-      ? JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
-      : {};
-    manifest.labels = replace ? labels : mergeLabels(manifest.labels, labels);
-    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    const result = await updateManifest(detail.path, (manifest) => {
+      manifest.labels = replace ? labels : mapLabels(mergeLabels(manifest.labels, labels), taxonomy).labels;
+    }, { expectedRevision });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error, reason: result.reason, revision: result.revision },
+        { status: manifestFailureStatus(result) }
+      );
+    }
+
+    const manifest = result.manifest;
+    invalidateMinuteIndex(detail.relativePath);
+    const audit = recordLabelChange({
+      batchId: newLabelBatchId(),
+      actor: labelActorFromRequest(request),
+      minute: detail.minute,
+      mode: replace ? 'replace' : 'merge',
+      before: manifestLabels(result.previous),
+      after: manifest.labels,
+    });
 
-    return NextResponse.json({ success: true, minute, labels: manifest.labels, manifest });
+    return NextResponse.json({
+      success: true,
+      minute,
+      labels: manifest.labels,
+      mapped: mapping.mapped,
+      auditId: audit?.id || null,
+      revision: result.revision,
+      manifest,
+    });
   } catch (error) {
     console.error('Error updating minute labels:', error);
     return NextResponse.json(
@@ -19,6 +19,8 @@ export async function GET(
     return NextResponse.json({
       success: true,
       minute: detail,
+      // Set when the ID was an alias left behind by a folder move.
+      redirectedFrom: detail.minute !== minute ? minute : null,
     });
   } catch (error) {
     console.error('Error loading minute detail:', error);
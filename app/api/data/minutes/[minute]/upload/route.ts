@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
 import { getMinuteDetail } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -47,6 +48,7 @@ export async function POST(
       response: payload,
     };
     fs.writeFileSync(path.join(detail.path, 'cloud_upload.json'), JSON.stringify(marker, null, 2));
+    invalidateMinuteIndex(detail.relativePath);
 
     return NextResponse.json({
       success: true,
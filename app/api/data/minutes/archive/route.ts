@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseMinuteQuery } from '@/lib/minuteQuery';
+import {
+  MINUTE_ARCHIVE_CHECKSUM_FILE,
+  MINUTE_ARCHIVE_KINDS,
+  bulkArchiveEntries,
+  parseMinuteArchiveKinds,
+} from '@/lib/minuteArchive';
+import { zipStream } from '@/lib/zipStream';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET ?label=&deviceKey=&root=&from=&to=&minute=&kind= — one zip of every
+// matching minute as label/minute/..., with index.csv and SHA256SUMS. Takes
+// the same filters as /api/data/minutes/query; at least one selector is
+// required so a stray request does not archive the whole data directory.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const parsed = parseMinuteQuery(params);
+    if (!parsed.ok) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const { kinds, unknown } = parseMinuteArchiveKinds(params.getAll('kind'));
+    if (unknown.length) {
+      return NextResponse.json(
+        { success: false, error: `Unknown kind ${unknown.join(', ')}; expected ${MINUTE_ARCHIVE_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const query = parsed.query;
+    const minutes = params.getAll('minute').flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+    if (!minutes.length && !query.labels.length && !query.deviceKeys.length && !query.roots.length && !query.from && !query.to) {
+      return NextResponse.json(
+        { success: false, error: 'Select minutes by label, deviceKey, root, from/to or minute' },
+        { status: 400 }
+      );
+    }
+
+    const archive = bulkArchiveEntries({ query, minutes, kinds });
+    if (!archive.entries.length) {
+      return NextResponse.json({ success: false, error: 'No minutes match the selection' }, { status: 404 });
+    }
+
+    const name = [...query.labels, ...query.deviceKeys, ...query.roots, params.get('from'), params.get('to')]
+      .filter(Boolean)
+      .join('-')
+      .replace(/[^A-Za-z0-9_-]+/g, '_')
+      .slice(0, 80) || 'minutes';
+    return new NextResponse(zipStream(archive.entries, { checksumFile: MINUTE_ARCHIVE_CHECKSUM_FILE }), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${name}.zip"`,
+        'Cache-Control': 'no-store',
+        'X-Archive-Minutes': String(archive.minuteCount),
+      },
+    });
+  } catch (error) {
+    console.error('Error building minute archive:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build minute archive' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
 import { getMinuteDetail, MINUTE_ID_RE } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import { labelActorFromRequest, manifestLabels, newLabelBatchId, recordLabelChange } from '@/lib/labelAudit';
+import { parseExpectedRevision, updateManifest } from '@/lib/manifestStore';
+import { jsonObject } from '@/lib/requestBody';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -29,17 +34,39 @@ function mergeLabels(existing: unknown, incoming: unknown): string[] {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const body = await request.json().catch(() => ({}));
-    const labels = normalizeLabels(body.labels);
+    const body = jsonObject(await request.json().catch(() => null));
+    const taxonomy = readLabelTaxonomy();
+    const mapping = mapLabels(normalizeLabels(body.labels), taxonomy);
+    const labels = mapping.labels;
     const replace = Boolean(body.replace);
     const minutes = Array.isArray(body.minutes) ? body.minutes : [];
+    // Optional { [minute]: revision } map for optimistic concurrency.
+    const revisions = jsonObject(body.revisions);
 
     if (!minutes.length) {
       return NextResponse.json({ success: false, error: 'No minutes provided' }, { status: 400 });
     }
+    if (taxonomy.mode === 'strict' && mapping.unknown.length) {
+      return NextResponse.json(
+        { success: false, error: `Unknown labels: ${mapping.unknown.join(', ')}`, unknown: mapping.unknown },
+        { status: 400 }
+      );
+    }
+    // Checked before any write, so a malformed revision never skips the
+    // concurrency guard for part of the batch.
+    const invalidRevisions = Object.keys(revisions).filter((minute) => parseExpectedRevision(revisions[minute]) === undefined);
+    if (invalidRevisions.length) {
+      return NextResponse.json(
+        { success: false, error: `Invalid manifest revision for ${invalidRevisions.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     const updated: string[] = [];
     const skipped: string[] = [];
+    const conflicts: Array<{ minute: string; error: string; revision?: number }> = [];
+    const batchId = newLabelBatchId();
+    const actor = labelActorFromRequest(request);
 
     for (const item of minutes) {
       const minute = String(item || '');
@@ -56,13 +83,35 @@ export async function PATCH(request: NextRequest) {
         continue;
       }
 
-      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
-      manifest.labels = replace ? labels : mergeLabels(manifest.labels, labels);
-      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+      const expectedRevision = parseExpectedRevision(revisions[minute]);
+      const result = await updateManifest(minuteDir, (manifest) => {
+        manifest.labels = replace ? labels : mapLabels(mergeLabels(manifest.labels, labels), taxonomy).labels;
+      }, { expectedRevision: expectedRevision ?? null });
+      if (!result.ok) {
+        conflicts.push({ minute, error: result.error, revision: result.revision });
+        continue;
+      }
+
+      invalidateMinuteIndex(detail?.relativePath);
+      recordLabelChange({
+        batchId,
+        actor,
+        minute: detail?.minute || minute,
+        mode: replace ? 'replace' : 'merge',
+        before: manifestLabels(result.previous),
+        after: result.manifest.labels,
+      });
       updated.push(minute);
     }
 
-    return NextResponse.json({ success: true, labels, updated, skipped });
+    if (conflicts.length) {
+      return NextResponse.json(
+        { success: false, error: `${conflicts.length} minute(s) could not be updated`, labels, batchId, updated, skipped, conflicts },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, labels, mapped: mapping.mapped, batchId, updated, skipped });
   } catch (error) {
     console.error('Error updating minute labels:', error);
     return NextResponse.json(
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { parseMinuteQuery, queryMinuteSummaries } from '@/lib/minuteQuery';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseMinuteQuery(request.nextUrl.searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ success: false, error: parsed.error, minutes: [] }, { status: 400 });
+    }
+
+    const result = queryMinuteSummaries(parsed.query);
+    return NextResponse.json({
+      success: true,
+      minutes: result.minutes,
+      count: result.minutes.length,
+      total: result.total,
+      nextCursor: result.nextCursor,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error querying minute folders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to query minute folders', minutes: [] },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startMinuteIndexPolling } from '@/lib/minuteIndex';
+import {
+  matchesMinuteEventFilter,
+  minuteEventsSince,
+  subscribeMinuteEvents,
+} from '@/lib/minuteEvents';
+import type { MinuteEvent, MinuteEventFilter } from '@/lib/minuteEvents';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000;
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return params.getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const filter: MinuteEventFilter = {
+    deviceKeys: listParam(params, 'deviceKey'),
+    minutes: listParam(params, 'minute'),
+  };
+  const lastEventId = Number(request.headers.get('last-event-id') || params.get('lastEventId') || 0);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: MinuteEvent) => {
+        if (!matchesMinuteEventFilter(event, filter)) return;
+        write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      const unsubscribe = subscribeMinuteEvents(send);
+      const stopPolling = startMinuteIndexPolling();
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        stopPolling();
+        try {
+          controller.close();
+        } catch {
+          // The client already went away.
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      write('retry: 3000\n\n');
+      if (Number.isFinite(lastEventId) && lastEventId > 0) {
+        minuteEventsSince(lastEventId).forEach(send);
+      }
+      write(`event: ready\ndata: ${JSON.stringify({ at: new Date().toISOString() })}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { comparisonChunkOutputs } from '@/lib/modelComparison';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Raw per-model outputs for ?chunk=N, or the whole-minute outputs without it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { minute: string } }
+) {
+  try {
+    const chunkParam = request.nextUrl.searchParams.get('chunk');
+    const chunk = chunkParam === null || chunkParam === '' ? null : Number(chunkParam);
+    if (chunk !== null && (!Number.isInteger(chunk) || chunk < 0)) {
+      return NextResponse.json({ success: false, error: 'chunk must be a chunk index' }, { status: 400 });
+    }
+
+    const result = comparisonChunkOutputs(decodeURIComponent(params.minute), chunk);
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Minute folder not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result, count: result.entries.length });
+  } catch (error) {
+    console.error('Error loading model outputs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load model outputs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
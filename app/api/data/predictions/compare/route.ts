@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { compareModels } from '@/lib/modelComparison';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET ?model=a&model=b&device=&from=&to= — all models when none are given.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from');
+    const to = params.get('to');
+    if ((from && !DAY_RE.test(from)) || (to && !DAY_RE.test(to))) {
+      return NextResponse.json({ success: false, error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const models = params.getAll('model').flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+    const result = compareModels({ models, deviceKey: params.get('device'), from, to });
+    return NextResponse.json({
+      success: true,
+      ...result,
+      count: result.disagreementCount,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error comparing models:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to compare models' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
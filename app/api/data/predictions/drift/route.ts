@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { analyzePredictionDrift } from '@/lib/predictionDrift';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// ?baselineFrom=&baselineTo= pins the baseline window; otherwise each series
+// uses its first ?baselineDays= days with predictions.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const baselineFrom = params.get('baselineFrom');
+    const baselineTo = params.get('baselineTo');
+    const baselineDays = Number(params.get('baselineDays') || 0);
+    const alpha = Number(params.get('alpha') || 0);
+    if ((baselineFrom && !DAY_RE.test(baselineFrom)) || (baselineTo && !DAY_RE.test(baselineTo))) {
+      return NextResponse.json({ success: false, error: 'baselineFrom and baselineTo must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (!Number.isInteger(baselineDays) || baselineDays < 0 || baselineDays > 365) {
+      return NextResponse.json({ success: false, error: 'baselineDays must be between 1 and 365' }, { status: 400 });
+    }
+    if (!Number.isFinite(alpha) || alpha < 0 || alpha >= 0.5) {
+      return NextResponse.json({ success: false, error: 'alpha must be between 0 and 0.5' }, { status: 400 });
+    }
+
+    const result = analyzePredictionDrift({
+      model: params.get('model'),
+      deviceKey: params.get('device'),
+      baselineFrom,
+      baselineTo,
+      baselineDays: baselineDays || undefined,
+      alpha: alpha || undefined,
+    });
+    return NextResponse.json({
+      success: true,
+      ...result,
+      count: result.series.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error analyzing prediction drift:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to analyze prediction drift' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
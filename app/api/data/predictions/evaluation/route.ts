@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { evaluatePredictions } from '@/lib/predictionEvaluation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from');
+    const to = params.get('to');
+    if ((from && !DAY_RE.test(from)) || (to && !DAY_RE.test(to))) {
+      return NextResponse.json({ success: false, error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const result = evaluatePredictions({
+      model: params.get('model'),
+      deviceKey: params.get('device'),
+      from,
+      to,
+    });
+    return NextResponse.json({
+      success: true,
+      ...result,
+      count: result.evaluations.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error evaluating predictions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to evaluate predictions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
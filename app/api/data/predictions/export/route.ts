@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  PREDICTION_EXPORT_FORMATS,
+  predictionExportContentType,
+  predictionExportStream,
+} from '@/lib/predictionExport';
+import type { PredictionExportFormat } from '@/lib/predictionExport';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET ?format=csv|jsonl|parquet&model=a&model=b&device=&from=&to=
+// One flat row per model output; the body is streamed minute by minute.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const format = (params.get('format') || 'csv').toLowerCase() as PredictionExportFormat;
+    if (!PREDICTION_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${PREDICTION_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const from = params.get('from');
+    const to = params.get('to');
+    if ((from && !DAY_RE.test(from)) || (to && !DAY_RE.test(to))) {
+      return NextResponse.json({ success: false, error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const models = params.getAll('model').flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+    const stream = predictionExportStream(format, { models, deviceKey: params.get('device'), from, to });
+    const filename = ['predictions', from, to].filter(Boolean).join('_');
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': predictionExportContentType(format),
+        'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting predictions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export predictions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
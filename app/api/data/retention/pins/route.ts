@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTE_ID_RE } from '@/lib/minutes';
+import { setMinutePinned } from '@/lib/retention';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const minute = String(body.minute || '');
+    if (!MINUTE_ID_RE.test(minute)) {
+      return NextResponse.json({ success: false, error: 'Invalid minute folder' }, { status: 400 });
+    }
+    const policy = setMinutePinned(minute, body.pinned !== false);
+    return NextResponse.json({ success: true, minute, pinned: policy.pinned.includes(minute), policy });
+  } catch (error) {
+    console.error('Error updating retention pins:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update retention pins' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
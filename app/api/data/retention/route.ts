@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { readRetentionAudit, readRetentionPolicy, writeRetentionPolicy } from '@/lib/retention';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      policy: readRetentionPolicy(),
+      audit: readRetentionAudit(20),
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error loading retention policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load retention policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, error: 'Invalid retention policy' }, { status: 400 });
+    }
+    const current = readRetentionPolicy();
+    const policy = writeRetentionPolicy({ ...current, ...body });
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    console.error('Error saving retention policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save retention policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
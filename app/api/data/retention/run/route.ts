@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runRetention } from '@/lib/retention';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    if (body.minutes !== undefined && (!Array.isArray(body.minutes) || body.minutes.some((minute: unknown) => typeof minute !== 'string'))) {
+      return NextResponse.json({ success: false, error: 'minutes must be a list of minute ids' }, { status: 400 });
+    }
+    const run = runRetention({ dryRun: body.dryRun !== false, minutes: body.minutes });
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error('Error running retention:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run retention' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR, listMinuteSummaries } from '@/lib/minutes';
+import { dataRootStatus } from '@/lib/dataRoots';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const counts = new Map<string, number>();
+    listMinuteSummaries().forEach((minute) => counts.set(minute.root, (counts.get(minute.root) || 0) + 1));
+    const roots = dataRootStatus().map((root) => ({ ...root, minuteCount: counts.get(root.name) || 0 }));
+
+    return NextResponse.json({
+      success: true,
+      roots,
+      count: roots.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error listing data roots:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list data roots', roots: [] },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
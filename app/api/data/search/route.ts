@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { searchMinutes } from '@/lib/minuteSearch';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = String(request.nextUrl.searchParams.get('q') || '').trim();
+    const limit = Math.floor(Number(request.nextUrl.searchParams.get('limit') || 50));
+    if (!Number.isFinite(limit) || limit < 1 || limit > 500) {
+      return NextResponse.json(
+        { success: false, error: 'limit must be between 1 and 500' },
+        { status: 400 }
+      );
+    }
+
+    const search = searchMinutes(query, { limit });
+    return NextResponse.json({
+      success: true,
+      query,
+      ...search,
+      count: search.results.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error searching minutes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search minutes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
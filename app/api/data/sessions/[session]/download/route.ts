@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRecordingSession } from '@/lib/recordingSessions';
+import { MINUTE_ARCHIVE_CHECKSUM_FILE, MINUTE_ARCHIVE_KINDS, minuteArchiveEntries, parseMinuteArchiveKinds } from '@/lib/minuteArchive';
+import { zipStream } from '@/lib/zipStream';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Zips every minute of the session as <minute>/... plus a session.json with
+// the session's labels, notes and stats. Accepts the same ?kind= filter as a
+// single minute download.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { session: string } }
+) {
+  try {
+    const { kinds, unknown } = parseMinuteArchiveKinds(request.nextUrl.searchParams.getAll('kind'));
+    if (unknown.length) {
+      return NextResponse.json(
+        { error: `Unknown kind ${unknown.join(', ')}; expected ${MINUTE_ARCHIVE_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const found = getRecordingSession(decodeURIComponent(params.session));
+    if (!found) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const name = found.session.id.replace(/[^A-Za-z0-9_-]+/g, '_');
+    const entries = [
+      ...found.summaries.flatMap((summary) => (
+        minuteArchiveEntries(summary, kinds, summary.minute.replace(/[^A-Za-z0-9_-]+/g, '_'))
+      )),
+      { name: 'session.json', data: JSON.stringify(found.session, null, 2) },
+    ];
+
+    return new NextResponse(zipStream(entries, { checksumFile: MINUTE_ARCHIVE_CHECKSUM_FILE }), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${name}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building session zip:', error);
+    return NextResponse.json({ error: 'Failed to build zip archive' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mergeRecordingSession } from '@/lib/recordingSessions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Merges the session with the next one recorded by the same device.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { session: string } }
+) {
+  try {
+    const result = mergeRecordingSession(decodeURIComponent(params.session));
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, session: result.session });
+  } catch (error) {
+    console.error('Error merging recording sessions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge recording sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRecordingSession, updateRecordingSession } from '@/lib/recordingSessions';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { session: string } }
+) {
+  try {
+    const found = getRecordingSession(decodeURIComponent(params.session));
+    if (!found) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: found.session,
+      minutes: found.summaries.map((summary) => ({
+        minute: summary.minute,
+        minuteName: summary.minuteName,
+        relativePath: summary.relativePath,
+        deviceId: String(summary.manifest?.device_uuid || summary.manifest?.device_id || summary.deviceKey),
+        labels: summary.labels,
+        state: summary.state,
+        uploaded: summary.uploaded,
+      })),
+      count: found.summaries.length,
+    });
+  } catch (error) {
+    console.error('Error loading recording session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load recording session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { session: string } }
+) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const result = updateRecordingSession(decodeURIComponent(params.session), {
+      labels: body.labels,
+      notes: body.notes,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error, unknown: result.unknown || [] },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, session: result.session, mapped: result.mapped });
+  } catch (error) {
+    console.error('Error updating recording session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update recording session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
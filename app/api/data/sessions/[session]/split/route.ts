@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { splitRecordingSession } from '@/lib/recordingSessions';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Body: { minute: "YYYYMMDD_HHMM" } — the first minute of the new session.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { session: string } }
+) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const result = splitRecordingSession(decodeURIComponent(params.session), String(body.minute || ''));
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, session: result.session });
+  } catch (error) {
+    console.error('Error splitting recording session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to split recording session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { listRecordingSessions, normalizeGap, setSessionGapMinutes } from '@/lib/recordingSessions';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ?gapMinutes= previews a different gap tolerance without saving it.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const requestedGap = params.get('gapMinutes');
+    const gapMinutes = requestedGap ? normalizeGap(requestedGap) : null;
+    if (requestedGap && gapMinutes === null) {
+      return NextResponse.json({ success: false, error: 'gapMinutes must be a whole number of minutes' }, { status: 400 });
+    }
+
+    const result = listRecordingSessions({ gapMinutes, deviceKey: params.get('device') });
+    return NextResponse.json({
+      success: true,
+      ...result,
+      count: result.sessions.length,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error listing recording sessions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list recording sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = jsonObject(await request.json().catch(() => null));
+    const gapMinutes = normalizeGap(body.gapMinutes);
+    if (gapMinutes === null) {
+      return NextResponse.json({ success: false, error: 'gapMinutes must be a whole number of minutes' }, { status: 400 });
+    }
+
+    setSessionGapMinutes(gapMinutes);
+    const result = listRecordingSessions();
+    return NextResponse.json({ success: true, ...result, count: result.sessions.length });
+  } catch (error) {
+    console.error('Error updating session gap:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update session gap' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeShareLink, summarizeShareLink } from '@/lib/shareLinks';
+import { verifiedActorFromRequest } from '@/lib/backendAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Revokes the link; the record stays so the table can show who revoked it.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const actor = await verifiedActorFromRequest(request);
+    if (!actor) {
+      return NextResponse.json({ success: false, error: 'Sign in to revoke share links' }, { status: 401 });
+    }
+    const result = revokeShareLink(decodeURIComponent(params.id), actor);
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, share: summarizeShareLink(result.share) });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json({ success: false, error: 'Failed to revoke share link' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
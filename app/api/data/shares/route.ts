@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createShareLink, listShareLinks, parseShareLinkRequest, shareToken, summarizeShareLink } from '@/lib/shareLinks';
+import { verifiedActorFromRequest } from '@/lib/backendAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET ?all=1 also lists expired and revoked links.
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await verifiedActorFromRequest(request);
+    if (!actor) {
+      return NextResponse.json({ success: false, error: 'Sign in to view share links' }, { status: 401 });
+    }
+    const includeInactive = request.nextUrl.searchParams.get('all') === '1';
+    return NextResponse.json({ success: true, shares: listShareLinks({ includeInactive }) });
+  } catch (error) {
+    console.error('Error listing share links:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list share links' }, { status: 500 });
+  }
+}
+
+// POST { type: 'minute' | 'session', id, downloads?: kind[], expiresInHours?, password? }
+// The response is the only place the link's token is returned.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await verifiedActorFromRequest(request);
+    if (!actor) {
+      return NextResponse.json({ success: false, error: 'Sign in to create share links' }, { status: 401 });
+    }
+    const parsed = parseShareLinkRequest(await request.json().catch(() => null));
+    if (!parsed.ok) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+    const result = createShareLink(parsed.request, actor);
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, share: summarizeShareLink(result.share), token: shareToken(result.share) });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create share link' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { computeStorageUsage } from '@/lib/storageUsage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const windowDays = Math.floor(Number(request.nextUrl.searchParams.get('windowDays') || 7));
+    if (!Number.isFinite(windowDays) || windowDays < 1 || windowDays > 365) {
+      return NextResponse.json(
+        { success: false, error: 'windowDays must be between 1 and 365' },
+        { status: 400 }
+      );
+    }
+
+    const usage = computeStorageUsage(windowDays);
+    return NextResponse.json({
+      success: true,
+      ...usage,
+      count: usage.totals.minutes,
+      dataDir: MINUTES_DATA_DIR,
+    });
+  } catch (error) {
+    console.error('Error computing storage usage:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to compute storage usage' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
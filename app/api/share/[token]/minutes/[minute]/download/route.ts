@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMinuteDetail } from '@/lib/minutes';
+import { MINUTE_ARCHIVE_CHECKSUM_FILE, minuteArchiveEntries, parseMinuteArchiveKinds } from '@/lib/minuteArchive';
+import { openShare } from '@/lib/shareLinks';
+import { zipStream } from '@/lib/zipStream';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET ?kind=video — a zip of the kinds the share offers for download; all of
+// them when no kind is given.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string; minute: string } }
+) {
+  try {
+    const opened = openShare(params.token, (name) => request.cookies.get(name)?.value);
+    if (!opened.ok) {
+      return NextResponse.json({ success: false, error: opened.error }, { status: opened.status });
+    }
+    const { share } = opened;
+
+    const { kinds, unknown } = parseMinuteArchiveKinds(request.nextUrl.searchParams.getAll('kind'));
+    const allowed = (kinds || share.downloads).filter((kind) => share.downloads.includes(kind));
+    if (unknown.length || !allowed.length) {
+      return NextResponse.json({ success: false, error: 'These files are not shared for download' }, { status: 403 });
+    }
+
+    const minute = decodeURIComponent(params.minute);
+    const detail = share.minutes.includes(minute) ? getMinuteDetail(minute) : null;
+    if (!detail) {
+      return NextResponse.json({ success: false, error: 'Minute not found in this share' }, { status: 404 });
+    }
+
+    const entries = minuteArchiveEntries(detail, allowed);
+    if (!entries.length) {
+      return NextResponse.json({ success: false, error: 'No files of the selected kinds' }, { status: 404 });
+    }
+
+    const filename = `${detail.minuteName}-${allowed.join('-')}.zip`;
+    return new NextResponse(zipStream(entries, { checksumFile: MINUTE_ARCHIVE_CHECKSUM_FILE }), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building shared zip:', error);
+    return NextResponse.json({ success: false, error: 'Failed to build zip archive' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { openShare, sharedViewerFile } from '@/lib/shareLinks';
+import { fileResponse } from '@/lib/fileResponse';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The video and XY tracking the shared viewer shows, with range support so
+// the video can seek.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string; minute: string; kind: string } }
+) {
+  try {
+    const opened = openShare(params.token, (name) => request.cookies.get(name)?.value);
+    if (!opened.ok) {
+      return NextResponse.json({ success: false, error: opened.error }, { status: opened.status });
+    }
+
+    const filePath = sharedViewerFile(opened.share, decodeURIComponent(params.minute), params.kind);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+
+    const response = fileResponse(request.headers, filePath, fs.statSync(filePath), {
+      contentType: path.extname(filePath).toLowerCase() === '.mp4' ? 'video/mp4' : 'application/json',
+      disposition: 'inline',
+      filename: path.basename(filePath),
+    });
+    return new NextResponse(response.body, { status: response.status, headers: response.headers });
+  } catch (error) {
+    console.error('Error serving shared file:', error);
+    return NextResponse.json({ success: false, error: 'Failed to serve file' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
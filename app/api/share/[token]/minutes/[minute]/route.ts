@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openShare, sharedMinute } from '@/lib/shareLinks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string; minute: string } }
+) {
+  try {
+    const opened = openShare(params.token, (name) => request.cookies.get(name)?.value);
+    if (!opened.ok) {
+      return NextResponse.json({ success: false, error: opened.error }, { status: opened.status });
+    }
+
+    const minute = sharedMinute(opened.share, decodeURIComponent(params.minute));
+    if (!minute) {
+      return NextResponse.json({ success: false, error: 'Minute not found in this share' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, minute });
+  } catch (error) {
+    console.error('Error loading shared minute:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load shared minute' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
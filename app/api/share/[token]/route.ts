@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isShareUnlocked,
+  recordShareAccess,
+  resolveShareToken,
+  shareCookieName,
+  sharedMinuteItems,
+  shareUnlockValue,
+  verifySharePassword,
+} from '@/lib/shareLinks';
+import { jsonObject } from '@/lib/requestBody';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Public: what a share link opens. Password-protected links answer with
+// `locked: true` until the password has been posted.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = resolveShareToken(params.token);
+    if (!resolved.ok) {
+      return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status });
+    }
+    const { share } = resolved;
+    if (!isShareUnlocked(share, request.cookies.get(shareCookieName(share))?.value)) {
+      return NextResponse.json({ success: true, locked: true, expires_at: share.expires_at });
+    }
+
+    recordShareAccess(share.id);
+    return NextResponse.json({
+      success: true,
+      locked: false,
+      target: share.target,
+      expires_at: share.expires_at,
+      sharedBy: share.createdBy.username,
+      downloads: share.downloads,
+      minutes: sharedMinuteItems(share),
+    });
+  } catch (error) {
+    console.error('Error opening share link:', error);
+    return NextResponse.json({ success: false, error: 'Failed to open share link' }, { status: 500 });
+  }
+}
+
+// POST { password } — sets the unlock cookie for the rest of the link's life.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = resolveShareToken(params.token);
+    if (!resolved.ok) {
+      return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status });
+    }
+    const { share } = resolved;
+    const body = jsonObject(await request.json().catch(() => null));
+    if (!verifySharePassword(share, body?.password)) {
+      return NextResponse.json({ success: false, error: 'Wrong password' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    if (share.password) {
+      response.cookies.set(shareCookieName(share), shareUnlockValue(share), {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: request.nextUrl.protocol === 'https:',
+        path: '/api/share',
+        maxAge: Math.max(1, Math.floor((Date.parse(share.expires_at) - Date.now()) / 1000)),
+      });
+    }
+    return response;
+  } catch (error) {
+    console.error('Error unlocking share link:', error);
+    return NextResponse.json({ success: false, error: 'Failed to unlock share link' }, { status: 500 });
+  }
+}
+
+export async function HEAD() {
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Download, Lock } from 'lucide-react';
+import { ChunkCard, Heatmap, normalizeChunk } from '@/components/CaptureViews';
+import { formatFileSize } from '@/lib/utils';
+import type { ShareTarget, SharedMinute, SharedMinuteItem } from '@/lib/shareLinks';
+import type { MinuteArchiveKind } from '@/lib/minuteArchive';
+
+type ShareView = {
+  locked: boolean;
+  expires_at: string;
+  target?: ShareTarget;
+  sharedBy?: string;
+  downloads?: MinuteArchiveKind[];
+  minutes?: SharedMinuteItem[];
+};
+
+export default function SharedCapturePage() {
+  const params = useParams<{ token: string }>();
+  const base = `/api/share/${encodeURIComponent(params.token)}`;
+  const [share, setShare] = useState<ShareView | null>(null);
+  const [error, setError] = useState('');
+  const [password, setPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [selected, setSelected] = useState('');
+  const [minute, setMinute] = useState<SharedMinute | null>(null);
+  const [tracking, setTracking] = useState<any>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(base, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to open this link');
+      setShare(data);
+      setSelected((current) => current || data.minutes?.[0]?.minute || '');
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Unable to open this link');
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    setMinute(null);
+    setTracking(null);
+    (async () => {
+      const response = await fetch(`${base}/minutes/${encodeURIComponent(selected)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (cancelled) return;
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to load this minute');
+        return;
+      }
+      setMinute(data.minute);
+      if (data.minute.files.xy_tracking) {
+        const result = await fetch(`${base}/minutes/${encodeURIComponent(selected)}/file/xy_tracking`, { cache: 'no-store' });
+        if (!cancelled && result.ok) setTracking(await result.json());
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [base, selected]);
+
+  const unlock = async (event: FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError('');
+    try {
+      const response = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Unable to unlock this link');
+      setPassword('');
+      await load();
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : 'Unable to unlock this link');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const timeline = Array.isArray(minute?.predictions?.timeline) ? minute.predictions.timeline : [];
+  const chunkByIndex = new Map<number, ReturnType<typeof normalizeChunk>>();
+  (minute?.progress?.chunks || []).forEach((entry) => chunkByIndex.set(entry.index, normalizeChunk(entry)));
+  timeline.forEach((entry: any) => chunkByIndex.set(Number(entry?.chunk_index), normalizeChunk(entry)));
+  const chunks = Array.from(chunkByIndex.values())
+    .filter((chunk) => chunk.state !== 'waiting')
+    .sort((a, b) => a.index - b.index);
+  const downloads = Object.entries(minute?.downloads || {}) as Array<[MinuteArchiveKind, number]>;
+  const minuteBase = `${base}/minutes/${encodeURIComponent(selected)}`;
+
+  if (!share) {
+    return <main className="min-h-screen bg-slate-50 p-6 text-sm text-slate-600">{error || 'Opening shared capture…'}</main>;
+  }
+
+  if (share.locked) {
+    return <main className="flex min-h-screen items-center justify-center bg-slate-50 p-6 text-slate-950">
+      <form onSubmit={unlock} className="w-full max-w-sm space-y-3 border border-slate-300 bg-white p-5">
+        <div className="flex items-center gap-2 text-xs font-semibold uppercase text-slate-600"><Lock className="h-3.5 w-3.5" />Shared capture</div>
+        <p className="text-sm text-slate-700">This link is password protected.</p>
+        <input type="password" value={password} onChange={(event) => setPassword(event.target.value)} autoFocus placeholder="Password" className="block w-full rounded-md border border-slate-300 px-3 py-2 text-sm" />
+        {error && <div className="text-sm text-red-700">{error}</div>}
+        <button type="submit" disabled={unlocking || !password} className="w-full rounded-md bg-slate-950 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50">
+          {unlocking ? 'Checking…' : 'Open'}
+        </button>
+      </form>
+    </main>;
+  }
+
+  const minutes = share.minutes || [];
+  return <main className="mx-auto min-h-screen max-w-6xl space-y-6 bg-slate-50 p-4 text-slate-950 sm:p-6">
+    <header className="border border-slate-300 bg-white p-5">
+      <div className="text-xs font-semibold uppercase text-slate-600">Shared {share.target?.type === 'session' ? 'recording session' : 'capture'} · read-only</div>
+      <h1 className="mt-1 font-mono text-2xl font-semibold">{minute?.minuteName || minutes[0]?.minuteName || 'No minutes'}</h1>
+      <p className="mt-2 text-sm text-slate-700">
+        {minute?.deviceLabel || minutes[0]?.deviceLabel}
+        {share.sharedBy ? ` · shared by ${share.sharedBy}` : ''} · link expires {new Date(share.expires_at).toLocaleString()}
+      </p>
+      {minute?.labels.length ? <p className="mt-1 text-xs text-slate-500">Labels: {minute.labels.join(', ')}</p> : null}
+    </header>
+
+    {minutes.length > 1 && <section className="border border-slate-300 bg-white p-4">
+      <h2 className="mb-3 font-semibold">{minutes.length} minutes</h2>
+      <div className="flex flex-wrap gap-2">
+        {minutes.map((item) => (
+          <button key={item.minute} type="button" onClick={() => setSelected(item.minute)} className={`rounded-md border px-2 py-1 font-mono text-xs ${item.minute === selected ? 'border-slate-950 bg-slate-950 text-white' : 'border-slate-300 hover:bg-slate-100'}`}>
+            {item.minuteName}
+          </button>
+        ))}
+      </div>
+    </section>}
+
+    {error && <div className="border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+    {downloads.length > 0 && <section className="border border-slate-300 bg-white p-4">
+      <h2 className="mb-3 font-semibold">Downloads</h2>
+      <div className="flex flex-wrap gap-2">
+        {downloads.map(([kind, bytes]) => (
+          <a key={kind} href={`${minuteBase}/download?kind=${kind}`} className="inline-flex items-center gap-1.5 rounded-md border border-slate-300 px-2.5 py-1 text-xs font-semibold hover:bg-slate-100">
+            <Download className="h-3.5 w-3.5" />
+            {kind} · {formatFileSize(bytes)}
+          </a>
+        ))}
+        {downloads.length > 1 && <a href={`${minuteBase}/download`} className="inline-flex items-center gap-1.5 rounded-md bg-slate-950 px-2.5 py-1 text-xs font-semibold text-white hover:bg-slate-800">
+          <Download className="h-3.5 w-3.5" />
+          All shared files
+        </a>}
+      </div>
+    </section>}
+
+    <section className="border border-slate-300 bg-white p-4">
+      <div className="mb-4"><div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Detection windows</div><h2 className="mt-1 text-xl font-semibold">All captured chunks and detections</h2></div>
+      {chunks.length ? <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {chunks.map((chunk) => <ChunkCard key={chunk.index} chunk={chunk} />)}
+      </div> : <div className="border border-dashed border-slate-300 p-8 text-sm text-slate-500">{minute ? 'No analyzed chunks in this minute.' : 'Loading…'}</div>}
+    </section>
+    <section className="border border-slate-300 bg-white p-4"><h2 className="mb-3 font-semibold">X / Y localization</h2>{tracking ? <Heatmap payload={tracking} tracking /> : <div className="p-8 text-sm text-slate-500">Not available</div>}</section>
+    <section className="border border-slate-300 bg-white p-4"><h2 className="mb-3 font-semibold">Camera video</h2>{minute?.files.video ? <video key={selected} controls preload="metadata" src={`${minuteBase}/file/video`} className="max-h-[70vh] w-full bg-black" /> : <div className="p-8 text-sm text-slate-500">No camera video in this minute.</div>}</section>
+  </main>;
+}
@@ -1,5 +1,9 @@
 'use client';
-import { X, FileText, HardDrive, Tag } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { X, FileText, HardDrive, Tag, ClipboardList, Download } from 'lucide-react';
+import { DATASET_CARD_MARKDOWN, datasetCardMarkdown, formatCardDuration } from '@/lib/datasetCard';
+import type { DatasetCard } from '@/lib/datasetCard';
+import { formatFileSize } from '@/lib/utils';
 
 interface DatasetFile {
   id: number;
@@ -11,13 +15,125 @@ interface DatasetFile {
 interface DatasetStatsProps {
   datasetName: string;
   files: DatasetFile[];
+  // Local exports pass their card; cloud datasets pass the id of the
+  // dataset-card.json file uploaded next to them (create-dataset's card_files).
+  card?: DatasetCard | null;
+  cardFileId?: number | null;
   onClose: () => void;
 }
 
-export function DatasetStats({ datasetName, files, onClose }: DatasetStatsProps) {
+function DatasetCardView({ card }: { card: DatasetCard }) {
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([datasetCardMarkdown(card)], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = DATASET_CARD_MARKDOWN;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 mt-6 space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-slate-300 flex items-center gap-2">
+          <ClipboardList className="w-4 h-4" />
+          Dataset Card
+        </h4>
+        <button onClick={download} className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-slate-300 rounded-lg border border-slate-600 hover:bg-slate-700">
+          <Download className="w-3.5 h-3.5" />
+          Markdown
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-slate-400">
+        <div>
+          <span className="block text-xs text-slate-500">Captured</span>
+          {card.dateRange.first ? `${new Date(card.dateRange.first).toLocaleDateString()} – ${new Date(card.dateRange.last || card.dateRange.first).toLocaleDateString()}` : '—'} ({card.dateRange.days} days)
+        </div>
+        <div>
+          <span className="block text-xs text-slate-500">Duration</span>
+          {formatCardDuration(card.durations.sampleSeconds)} in {card.samples.total} samples from {card.samples.minutes} minutes
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs text-slate-500 mb-1">Devices and hardware</span>
+        <ul className="space-y-1 text-slate-300">
+          {card.devices.map((device) => (
+            <li key={device.deviceKey}>
+              {device.deviceLabel} · {device.minutes} minutes
+              <span className="text-slate-500">
+                {device.hardware ? ` · ${[device.hardware.raspberry_pi_model || device.hardware.device_type, device.hardware.hostname].filter(Boolean).join(', ') || 'hardware reported'}` : ' · hardware not recorded'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <span className="block text-xs text-slate-500 mb-1">Sensors</span>
+        <div className="flex flex-wrap gap-2">
+          {card.sensors.map((sensor) => (
+            <span key={sensor.kind} className="px-2 py-0.5 rounded bg-slate-700 text-slate-300 text-xs">
+              {sensor.kind} · {sensor.minutes} min · {formatFileSize(sensor.bytes)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs text-slate-500 mb-1">Capture settings revisions</span>
+        <ul className="space-y-1 text-slate-300">
+          {card.captureSettings.map((entry) => (
+            <li key={`${entry.deviceKey}-${entry.revision}`}>
+              {entry.deviceKey} · {entry.revision === null ? 'revision not recorded' : `revision ${entry.revision}`}
+              <span className="text-slate-500"> · {entry.minutes} minutes, {entry.firstMinute} – {entry.lastMinute}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <span className="block text-xs text-slate-500 mb-1">Known data-quality issues</span>
+        {card.quality.issues.length ? (
+          <ul className="space-y-1">
+            {card.quality.issues.map((issue) => (
+              <li key={issue.code} className={issue.severity === 'error' ? 'text-red-400' : 'text-amber-300'}>
+                {issue.code} · {issue.minutes} of {card.quality.checkedMinutes} minutes
+                <span className="block text-xs text-slate-500">{issue.examples.map((example) => `${example.minute}: ${example.message}`).join('; ')}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-slate-400">None found in {card.quality.checkedMinutes} minutes.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function DatasetStats({ datasetName, files, card, cardFileId, onClose }: DatasetStatsProps) {
+  const [attachedCard, setAttachedCard] = useState<DatasetCard | null>(null);
   const totalFiles = files.length;
   const totalSize = files.reduce((sum, f) => sum + (f.size_bytes || 0), 0);
   const sizeMB = (totalSize / (1024 * 1024)).toFixed(2);
+
+  useEffect(() => {
+    if (card || !cardFileId) return;
+    let cancelled = false;
+    const token = localStorage.getItem('auth_token');
+    fetch(`/api/proxy/file/${cardFileId}?download=false`, { headers: { 'Authorization': `Bearer ${token}` } })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.version) setAttachedCard(data);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [card, cardFileId]);
+
+  const shownCard = card || attachedCard;
   
   // Label distribution
   const labelCounts = files.reduce((acc, f) => {
@@ -95,6 +211,8 @@ export function DatasetStats({ datasetName, files, onClose }: DatasetStatsProps)
             </div>
           )}
         </div>
+
+        {shownCard && <DatasetCardView card={shownCard} />}
       </div>
     </div>
   );
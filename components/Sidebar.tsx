@@ -4,7 +4,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Home, Monitor, LogOut, Users, BookOpen, Shield, UserRound, Settings, ChevronUp } from 'lucide-react';
+import { Home, Monitor, LogOut, Users, BookOpen, Shield, UserRound, Settings, ChevronUp, ShieldCheck, HardDrive, History, Tags, Search, Clapperboard, Target, Activity, GitCompare, Boxes, Link2 } from 'lucide-react';
 
 export default function Sidebar() {
   const pathname = usePathname();
@@ -13,6 +13,17 @@ export default function Sidebar() {
   const items = [
     { name: 'Home', href: '/home', icon: Home },
     { name: 'Devices', href: '/devices', icon: Monitor },
+    { name: 'Search', href: '/data/search', icon: Search },
+    { name: 'Sessions', href: '/data/sessions', icon: Clapperboard },
+    { name: 'Data health', href: '/data/integrity', icon: ShieldCheck },
+    { name: 'Storage', href: '/data/storage', icon: HardDrive },
+    { name: 'Labels', href: '/data/labels', icon: Tags },
+    { name: 'Label history', href: '/data/label-history', icon: History },
+    { name: 'Accuracy', href: '/data/accuracy', icon: Target },
+    { name: 'Drift', href: '/data/drift', icon: Activity },
+    { name: 'Compare', href: '/data/compare', icon: GitCompare },
+    { name: 'ML export', href: '/data/exports', icon: Boxes },
+    { name: 'Share links', href: '/data/shares', icon: Link2 },
     ...(user?.role === 1 ? [{ name: 'Admin', href: '/admin', icon: Shield }] : []),
     ...(user?.role === 2 ? [{ name: 'Members', href: '/members', icon: Users }, { name: 'Labs', href: '/labs', icon: BookOpen }] : []),
   ];
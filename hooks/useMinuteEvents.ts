@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MinuteEvent, MinuteEventType } from '@/lib/minuteEvents';
+
+const EVENT_TYPES: MinuteEventType[] = [
+  'minute.created',
+  'minute.completed',
+  'minute.uploaded',
+  'labels.changed',
+  'chunk.stored',
+  'chunk.analyzed',
+];
+
+export interface UseMinuteEventsOptions {
+  deviceKeys?: string[];
+  minutes?: string[];
+  enabled?: boolean;
+}
+
+/** Subscribes to the local minute change stream; returns whether it is connected. */
+export function useMinuteEvents(
+  onEvent: (event: MinuteEvent) => void,
+  { deviceKeys = [], minutes = [], enabled = true }: UseMinuteEventsOptions = {},
+) {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+  const deviceKey = deviceKeys.join(',');
+  const minute = minutes.join(',');
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || typeof EventSource === 'undefined') return;
+    const params = new URLSearchParams();
+    if (deviceKey) params.set('deviceKey', deviceKey);
+    if (minute) params.set('minute', minute);
+    const suffix = params.toString() ? `?${params}` : '';
+    const source = new EventSource(`/api/data/minutes/stream${suffix}`);
+    const handle = (message: MessageEvent) => {
+      try {
+        handlerRef.current(JSON.parse(message.data));
+      } catch {
+        // Ignore malformed frames; the stream keeps going.
+      }
+    };
+
+    source.addEventListener('ready', () => setConnected(true));
+    source.onerror = () => setConnected(false);
+    EVENT_TYPES.forEach((type) => source.addEventListener(type, handle as EventListener));
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [deviceKey, enabled, minute]);
+
+  return connected;
+}
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { manifestFailureStatus, manifestRevision, parseExpectedRevision, updateManifest } from '../manifestStore';
+
+let minuteDir = '';
+
+function writeManifest(manifest: unknown) {
+  fs.writeFileSync(path.join(minuteDir, 'manifest.json'), typeof manifest === 'string' ? manifest : JSON.stringify(manifest));
+}
+
+function readManifest() {
+  return JSON.parse(fs.readFileSync(path.join(minuteDir, 'manifest.json'), 'utf8'));
+}
+
+beforeEach(() => {
+  minuteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-store-'));
+});
+
+afterEach(() => {
+  fs.rmSync(minuteDir, { recursive: true, force: true });
+});
+
+describe('updateManifest', () => {
+  it('bumps the revision on every write', async () => {
+    writeManifest({ labels: ['occupied'] });
+    const first = await updateManifest(minuteDir, (manifest) => {
+      manifest.labels = ['empty'];
+    });
+    const second = await updateManifest(minuteDir, (manifest) => {
+      manifest.notes = 'checked';
+    }, { expectedRevision: 1 });
+
+    assert.equal(first.ok && first.revision, 1);
+    assert.equal(second.ok && second.revision, 2);
+    assert.deepEqual(readManifest().labels, ['empty']);
+    assert.equal(manifestRevision(readManifest()), 2);
+  });
+
+  it('rejects a stale revision without writing', async () => {
+    writeManifest({ labels: ['occupied'], manifest_revision: 3 });
+    const result = await updateManifest(minuteDir, (manifest) => {
+      manifest.labels = ['empty'];
+    }, { expectedRevision: 2 });
+
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.reason, 'conflict');
+    assert.equal(result.revision, 3);
+    assert.equal(manifestFailureStatus(result), 409);
+    assert.deepEqual(readManifest().labels, ['occupied']);
+  });
+
+  it('serializes concurrent writers so neither update is lost', async () => {
+    writeManifest({});
+    const results = await Promise.all([
+      updateManifest(minuteDir, (manifest) => {
+        manifest.first = true;
+      }),
+      updateManifest(minuteDir, (manifest) => {
+        manifest.second = true;
+      }),
+    ]);
+
+    assert.deepEqual(results.map((result) => result.ok && result.revision).sort(), [1, 2]);
+    assert.equal(readManifest().first, true);
+    assert.equal(readManifest().second, true);
+    assert.equal(fs.existsSync(path.join(minuteDir, 'manifest.json.lock')), false);
+  });
+
+  it('reports a held lock instead of writing', async () => {
+    writeManifest({ labels: ['occupied'] });
+    fs.writeFileSync(path.join(minuteDir, 'manifest.json.lock'), 'another writer\n');
+    const result = await updateManifest(minuteDir, (manifest) => {
+      manifest.labels = ['empty'];
+    });
+
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.reason, 'locked');
+    assert.equal(manifestFailureStatus(result), 409);
+    assert.deepEqual(readManifest().labels, ['occupied']);
+  });
+
+  it('takes over a lock left by a crashed writer', async () => {
+    writeManifest({});
+    const lockPath = path.join(minuteDir, 'manifest.json.lock');
+    fs.writeFileSync(lockPath, 'crashed writer\n');
+    const staleAt = new Date(Date.now() - 60 * 1000);
+    fs.utimesSync(lockPath, staleAt, staleAt);
+
+    const result = await updateManifest(minuteDir, (manifest) => {
+      manifest.labels = ['empty'];
+    });
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(readManifest().labels, ['empty']);
+  });
+
+  it('refuses to replace an unreadable manifest unless asked to', async () => {
+    writeManifest('{"labels": [');
+    const refused = await updateManifest(minuteDir, (manifest) => {
+      manifest.labels = ['empty'];
+    });
+    assert.equal(refused.ok, false);
+    if (!refused.ok) assert.equal(manifestFailureStatus(refused), 422);
+
+    const replaced = await updateManifest(minuteDir, (manifest) => {
+      manifest.labels = ['empty'];
+    }, { overwriteInvalid: true });
+    assert.equal(replaced.ok, true);
+    assert.deepEqual(readManifest().labels, ['empty']);
+  });
+});
+
+describe('parseExpectedRevision', () => {
+  it('treats a missing revision as unconditional and rejects malformed ones', () => {
+    assert.equal(parseExpectedRevision(undefined), null);
+    assert.equal(parseExpectedRevision(''), null);
+    assert.equal(parseExpectedRevision('4'), 4);
+    assert.equal(parseExpectedRevision(0), 0);
+    assert.equal(parseExpectedRevision('-1'), undefined);
+    assert.equal(parseExpectedRevision('abc'), undefined);
+  });
+});
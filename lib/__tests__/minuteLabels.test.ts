@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { LabelTaxonomy } from '../labelTaxonomy';
+
+// lib/minutes resolves the data directory when it is first imported.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minute-labels-'));
+process.env.THOTH_DATA_DIR = dataDir;
+
+let minutes: typeof import('../minutes');
+let taxonomy: typeof import('../labelTaxonomy');
+
+const MAPPING: LabelTaxonomy = {
+  mode: 'map',
+  labels: [{ name: 'occupied', category: 'occupancy', color: '#ef4444', synonyms: ['present'] }],
+};
+
+function writeMinute(relativePath: string, manifest: Record<string, unknown>) {
+  const dir = path.join(dataDir, relativePath);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ capture_finished: true, ...manifest }));
+  fs.writeFileSync(path.join(dir, 'radar_0.bin'), 'r');
+}
+
+before(async () => {
+  writeMinute('20250101_1200', { labels: ['occupied'] });
+  writeMinute('empty/20250101_1202', {});
+  writeMinute('20250101_1203', { minute_summary: { labels: ['walking'] } });
+  writeMinute('20250101_1204', {});
+  minutes = await import('../minutes');
+  taxonomy = await import('../labelTaxonomy');
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('manualMinuteLabels', () => {
+  it('combines the label folder with manifest labels', () => {
+    const labels = minutes.manualMinuteLabels({
+      relativePath: 'occupied/20250101_1200',
+      manifest: { labels: ['kitchen'], minute_summary: { labels: ['walking'] } },
+    }, taxonomy.DEFAULT_LABEL_TAXONOMY);
+    assert.deepEqual(labels, ['occupied', 'kitchen', 'walking']);
+  });
+
+  it('maps labels through the taxonomy and drops duplicates', () => {
+    const labels = minutes.manualMinuteLabels({
+      relativePath: 'occupied/20250101_1200',
+      manifest: { labels: ['present'] },
+    }, MAPPING);
+    assert.deepEqual(labels, ['occupied']);
+  });
+
+  it('never falls back to labels derived from predictions', () => {
+    const labels = minutes.manualMinuteLabels({ relativePath: '20250101_1200', manifest: {} }, taxonomy.DEFAULT_LABEL_TAXONOMY);
+    assert.deepEqual(labels, []);
+  });
+
+  it('reads every label source of minutes on disk', () => {
+    const byName = new Map(minutes.listMinuteSummaries().map((summary) => [summary.minuteName, summary]));
+    const manual = (name: string) => minutes.manualMinuteLabels(byName.get(name)!, taxonomy.DEFAULT_LABEL_TAXONOMY);
+
+    assert.deepEqual(manual('20250101_1200'), ['occupied']);
+    assert.deepEqual(manual('20250101_1202'), ['empty']);
+    assert.deepEqual(manual('20250101_1203'), ['walking']);
+    assert.deepEqual(manual('20250101_1204'), []);
+    assert.ok(byName.get('20250101_1204')!.labels.length > 0, 'summary labels keep their derived fallback');
+  });
+});
+
+describe('mapLabels', () => {
+  it('leaves labels as entered while the taxonomy is off', () => {
+    assert.deepEqual(taxonomy.mapLabels(['present', 'Occupied'], taxonomy.DEFAULT_LABEL_TAXONOMY).labels, ['present', 'Occupied']);
+  });
+
+  it('maps synonyms to their canonical label', () => {
+    const result = taxonomy.mapLabels(['present', 'kitchen'], MAPPING);
+    assert.deepEqual(result.labels, ['occupied', 'kitchen']);
+    assert.deepEqual(result.mapped, [{ from: 'present', to: 'occupied' }]);
+    assert.deepEqual(result.unknown, ['kitchen']);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+// lib/minutes resolves the data directory when it is first imported.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minute-layout-'));
+process.env.THOTH_DATA_DIR = dataDir;
+
+let layout: typeof import('../minuteLayout');
+let retention: typeof import('../retention');
+
+before(async () => {
+  const dir = path.join(dataDir, '20240101_1200');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ capture_finished: true, labels: ['occupied'] }));
+  fs.writeFileSync(path.join(dir, 'radar_0.bin'), 'r');
+  layout = await import('../minuteLayout');
+  retention = await import('../retention');
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('moveMinuteFolder', () => {
+  it('keeps a pinned minute pinned under its new ID', () => {
+    retention.setMinutePinned('20240101_1200', true);
+    const moved = layout.moveMinuteFolder({ minute: '20240101_1200', relativePath: '20240101_1200' }, 'occupied');
+    assert.equal(moved.ok, true);
+    if (!moved.ok) return;
+    assert.notEqual(moved.minute, '20240101_1200');
+
+    const policy = retention.readRetentionPolicy();
+    assert.deepEqual(policy.pinned, [moved.minute]);
+
+    const evaluation = retention.evaluateRetention({ ...policy, enabled: true, defaultDays: 1, uploadedOnly: false });
+    assert.equal(evaluation.kept.pinned, 1);
+    assert.deepEqual(evaluation.deleted, []);
+  });
+});
@@ -0,0 +1,35 @@
+import type { LabelActor } from '@/lib/labelAudit';
+
+const BACKEND_BASE_URL =
+  process.env.BACKEND_BASE_URL ||
+  process.env.NEXT_PUBLIC_BACKEND_URL ||
+  process.env.NEXT_PUBLIC_API_URL ||
+  'https://web-production-d7d37.up.railway.app';
+const NORMALIZED_BACKEND_BASE_URL = BACKEND_BASE_URL.replace(/\/$/, '');
+export const API_BASE_URL = NORMALIZED_BACKEND_BASE_URL.endsWith('/api')
+  ? NORMALIZED_BACKEND_BASE_URL
+  : `${NORMALIZED_BACKEND_BASE_URL}/api`;
+
+// For local routes whose caller must be trusted, such as share link
+// management: the bearer token is checked by asking the cloud backend for its
+// profile, as the browser does when it restores a session. Null when the
+// token is missing, rejected or the backend cannot be reached.
+export async function verifiedActorFromRequest(request: Request): Promise<LabelActor | null> {
+  const authorization = request.headers.get('authorization');
+  if (!authorization || !/^Bearer\s+\S/i.test(authorization)) return null;
+  try {
+    const response = await fetch(`${API_BASE_URL}/profile`, {
+      headers: { Authorization: authorization, Accept: 'application/json' },
+      cache: 'no-store',
+    });
+    if (!response.ok) return null;
+    const profile = await response.json();
+    if (!profile?.username) return null;
+    const userId = profile.userId ?? profile.user_id;
+    return userId === undefined || userId === null
+      ? { username: String(profile.username) }
+      : { username: String(profile.username), userId };
+  } catch {
+    return null;
+  }
+}
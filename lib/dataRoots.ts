@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+
+const DEFAULT_DATA_DIR = '/home/pi/Desktop/thoth/data';
+export const DATA_ROOT_NAME_RE = /^[a-z0-9][a-z0-9-]*$/;
+// Paths and minute IDs from secondary roots carry a "<root>~" prefix; the
+// primary root keeps its bare IDs so existing links and manifests still resolve.
+const ROOT_PREFIX_RE = /^([a-z0-9][a-z0-9-]*)~(?:[\\/](.*))?$/;
+
+export type DataRoot = {
+  name: string;
+  dir: string;
+  primary: boolean;
+};
+
+export type ResolvedDataPath = {
+  root: DataRoot;
+  relativePath: string;
+  path: string;
+};
+
+let dataRoots: DataRoot[] | null = null;
+
+function parseDataRoots(): DataRoot[] {
+  const primaryName = String(process.env.THOTH_DATA_ROOT_NAME || 'local').trim().toLowerCase();
+  const roots: DataRoot[] = [{
+    name: DATA_ROOT_NAME_RE.test(primaryName) ? primaryName : 'local',
+    dir: path.resolve(process.env.THOTH_DATA_DIR || DEFAULT_DATA_DIR),
+    primary: true,
+  }];
+
+  // THOTH_DATA_ROOTS="archive=/media/usb/thoth,old=/mnt/nas/thoth"
+  String(process.env.THOTH_DATA_ROOTS || '')
+    .split(/[,;\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .forEach((item) => {
+      const separator = item.indexOf('=');
+      const name = item.slice(0, separator).trim().toLowerCase();
+      const dir = item.slice(separator + 1).trim();
+      if (separator <= 0 || !dir || !DATA_ROOT_NAME_RE.test(name)) {
+        console.warn(`Ignoring invalid data root "${item}"; expected name=/absolute/path`);
+        return;
+      }
+      if (roots.some((root) => root.name === name || root.dir === path.resolve(dir))) {
+        console.warn(`Ignoring duplicate data root "${item}"`);
+        return;
+      }
+      roots.push({ name, dir: path.resolve(dir), primary: false });
+    });
+  return roots;
+}
+
+export function listDataRoots(): DataRoot[] {
+  if (!dataRoots) dataRoots = parseDataRoots();
+  return dataRoots;
+}
+
+export function primaryDataRoot(): DataRoot {
+  return listDataRoots()[0];
+}
+
+export function findDataRoot(name?: string | null): DataRoot | null {
+  if (!name) return primaryDataRoot();
+  return listDataRoots().find((root) => root.name === name) || null;
+}
+
+export function qualifyRootPath(root: DataRoot, relativePath: string): string {
+  return root.primary ? relativePath : path.join(`${root.name}~`, relativePath);
+}
+
+export function qualifyMinuteId(root: DataRoot, minuteId: string): string {
+  return root.primary ? minuteId : `${root.name}~${minuteId}`;
+}
+
+export function dataRootForMinuteId(minuteId: string): DataRoot | null {
+  const match = /^([a-z0-9][a-z0-9-]*)~/.exec(minuteId);
+  if (!match) return primaryDataRoot();
+  const root = findDataRoot(match[1]);
+  return root && !root.primary ? root : null;
+}
+
+// Resolves a root-qualified relative path to an absolute path, refusing
+// anything that escapes the root it names.
+export function resolveDataPath(relativePath: string): ResolvedDataPath | null {
+  const normalized = String(relativePath || '').replace(/^[\\/]+/, '');
+  const match = ROOT_PREFIX_RE.exec(normalized);
+  const root = match ? findDataRoot(match[1]) : primaryDataRoot();
+  if (!root || (match && root.primary)) return null;
+  const rest = match ? match[2] || '' : normalized;
+  const resolved = path.resolve(root.dir, rest);
+  if (!resolved.startsWith(`${root.dir}${path.sep}`)) return null;
+  return { root, relativePath: path.relative(root.dir, resolved), path: resolved };
+}
+
+export function dataRootForPath(filePath: string): DataRoot | null {
+  const resolved = path.resolve(filePath);
+  return listDataRoots()
+    .filter((root) => resolved.startsWith(`${root.dir}${path.sep}`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0] || null;
+}
+
+export function relativeDataPath(filePath: string): string | null {
+  const root = dataRootForPath(filePath);
+  if (!root) return null;
+  return qualifyRootPath(root, path.relative(root.dir, path.resolve(filePath)));
+}
+
+export function dataRootStatus() {
+  return listDataRoots().map((root) => ({
+    ...root,
+    available: fs.existsSync(root.dir),
+  }));
+}
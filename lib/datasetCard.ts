@@ -0,0 +1,137 @@
+import type { MinuteIntegrityIssueCode } from '@/lib/minuteIntegrity';
+import type { SensorKind } from '@/lib/storageUsage';
+import type { CaptureSettings, DeviceHardwareInfo } from '@/lib/deviceHardware';
+import { formatFileSize } from '@/lib/utils';
+
+// A datasheet for a dataset: what it contains, where and how it was captured,
+// and what is known to be wrong with it. Written as Markdown for people and
+// JSON for tools whenever a dataset is created or exported. This module only
+// holds the card's shape and Markdown so the browser can import it; cards are
+// built on the server by datasetCardBuilder.
+
+export const DATASET_CARD_MARKDOWN = 'DATASET_CARD.md';
+export const DATASET_CARD_JSON = 'dataset-card.json';
+
+export type DatasetCard = {
+  version: 1;
+  name: string;
+  source: 'cloud-dataset' | 'local-export';
+  description: string | null;
+  generated_at: string;
+  details: Record<string, string | number | null>;
+  samples: { total: number; minutes: number; intervals: number };
+  labels: Array<{ label: string; samples: number; minutes: number; durationSeconds: number; share: number }>;
+  devices: Array<{ deviceKey: string; deviceLabel: string; minutes: number; durationSeconds: number; hardware: DeviceHardwareInfo | null }>;
+  sensors: Array<{ kind: SensorKind; minutes: number; bytes: number }>;
+  dateRange: { first: string | null; last: string | null; days: number };
+  durations: { sampleSeconds: number; minuteSeconds: number };
+  captureSettings: Array<{
+    deviceKey: string;
+    revision: number | null;
+    minutes: number;
+    firstMinute: string;
+    lastMinute: string;
+    settings: Partial<CaptureSettings> | null;
+  }>;
+  quality: {
+    checkedMinutes: number;
+    minutesWithIssues: number;
+    errors: number;
+    warnings: number;
+    issues: Array<{ code: MinuteIntegrityIssueCode; severity: 'error' | 'warning'; minutes: number; examples: Array<{ minute: string; message: string }> }>;
+  };
+};
+
+export function formatCardDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function cell(value: unknown): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function table(headers: string[], rows: unknown[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function hardwareText(hardware: DeviceHardwareInfo | null): string {
+  if (!hardware) return 'not recorded';
+  const sensors = (hardware.sensors || hardware.available_sensors || [])
+    .filter((sensor) => sensor.available !== false)
+    .map((sensor) => sensor.name || sensor.sensor_type || sensor.key)
+    .filter(Boolean);
+  return [
+    hardware.raspberry_pi_model || hardware.device_type,
+    hardware.hostname ? `host ${hardware.hostname}` : '',
+    sensors.length ? `sensors: ${sensors.join(', ')}` : '',
+  ].filter(Boolean).join('; ') || 'not recorded';
+}
+
+function settingsText(settings: Partial<CaptureSettings> | null): string {
+  if (!settings) return '';
+  return [
+    settings.system_mode ? `mode ${settings.system_mode}` : '',
+    settings.chunk_seconds ? `${settings.chunk_seconds} s chunks` : '',
+    settings.radar_detection_threshold_normalized !== undefined ? `radar gate ${settings.radar_detection_threshold_normalized}` : '',
+    settings.occupancy_threshold_percent !== undefined ? `occupied at ≥${settings.occupancy_threshold_percent}%` : '',
+    settings.sensors ? `sensors ${Object.keys(settings.sensors).filter((key) => settings.sensors![key]).join(', ')}` : '',
+  ].filter(Boolean).join(', ');
+}
+
+export function datasetCardMarkdown(card: DatasetCard): string {
+  const sections = [
+    `# Dataset card: ${card.name}`,
+    [
+      card.description || '',
+      `Generated ${card.generated_at} from ${card.source === 'cloud-dataset' ? 'a cloud dataset' : 'a local export'}.`,
+    ].filter(Boolean).join('\n\n'),
+    table(['', ''], [
+      ['Samples', `${card.samples.total}${card.samples.intervals ? ` (${card.samples.intervals} labeled intervals)` : ''}`],
+      ['Minutes', card.samples.minutes],
+      ...Object.entries(card.details).map(([key, value]) => [key, value]),
+    ]),
+    '## Label distribution',
+    card.labels.length
+      ? table(['Label', 'Samples', 'Share', 'Minutes', 'Duration'], card.labels.map((label) => [
+        label.label, label.samples, `${(label.share * 100).toFixed(1)}%`, label.minutes, formatCardDuration(label.durationSeconds),
+      ]))
+      : 'No labeled samples.',
+    '## Devices and hardware',
+    table(['Device', 'Minutes', 'Duration', 'Hardware'], card.devices.map((device) => [
+      `${device.deviceLabel} (${device.deviceKey})`, device.minutes, formatCardDuration(device.durationSeconds), hardwareText(device.hardware),
+    ])),
+    '## Sensors',
+    card.sensors.length
+      ? table(['Sensor', 'Minutes', 'Size'], card.sensors.map((sensor) => [sensor.kind, sensor.minutes, formatFileSize(sensor.bytes)]))
+      : 'No sensor files.',
+    '## Capture dates and durations',
+    [
+      `- First minute: ${card.dateRange.first || '—'}`,
+      `- Last minute: ${card.dateRange.last || '—'}`,
+      `- Capture days: ${card.dateRange.days}`,
+      `- Sample duration: ${formatCardDuration(card.durations.sampleSeconds)}`,
+      `- Recorded duration of the minutes used: ${formatCardDuration(card.durations.minuteSeconds)}`,
+    ].join('\n'),
+    '## Capture settings revisions',
+    table(['Device', 'Revision', 'Minutes', 'From', 'To', 'Settings'], card.captureSettings.map((entry) => [
+      entry.deviceKey, entry.revision ?? 'not recorded', entry.minutes, entry.firstMinute, entry.lastMinute, settingsText(entry.settings),
+    ])),
+    '## Known data-quality issues',
+    card.quality.issues.length
+      ? [
+        `${card.quality.minutesWithIssues} of ${card.quality.checkedMinutes} minutes have issues (${card.quality.errors} errors, ${card.quality.warnings} warnings).`,
+        table(['Issue', 'Severity', 'Minutes', 'Examples'], card.quality.issues.map((issue) => [
+          issue.code, issue.severity, issue.minutes, issue.examples.map((example) => `${example.minute}: ${example.message}`).join('; '),
+        ])),
+      ].join('\n\n')
+      : `No issues found in ${card.quality.checkedMinutes} minutes.`,
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
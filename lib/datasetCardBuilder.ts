@@ -0,0 +1,204 @@
+import path from 'path';
+import { minuteDate } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { minuteTiming } from '@/lib/labelIntervals';
+import { checkMinuteIntegrity } from '@/lib/minuteIntegrity';
+import type { MinuteIntegrityIssueCode } from '@/lib/minuteIntegrity';
+import { minuteUsageByKind, sensorKindForFile } from '@/lib/storageUsage';
+import type { SensorKind } from '@/lib/storageUsage';
+import { normalizeDeviceValue } from '@/lib/deviceHardware';
+import type { CaptureSettings, DeviceHardwareInfo } from '@/lib/deviceHardware';
+import type { DatasetCard } from '@/lib/datasetCard';
+
+const SENSOR_KINDS: SensorKind[] = ['video', 'radar', 'csi', 'other'];
+// Each issue lists at most this many example minutes.
+const ISSUE_EXAMPLES = 5;
+
+export type DatasetCardSample = {
+  minute: MinuteSummary;
+  labels: string[];
+  // Seconds of the minute the sample covers; the whole minute when unset.
+  durationSeconds?: number;
+  interval?: boolean;
+  // Files the sample includes; every file of the minute when unset.
+  files?: Array<{ name: string; size: number }>;
+};
+
+export type DatasetCardInput = {
+  name: string;
+  source: DatasetCard['source'];
+  description?: string;
+  samples: DatasetCardSample[];
+  // Hardware reported by the cloud backend by device key, preferred over what
+  // minute manifests recorded.
+  hardware?: Record<string, DeviceHardwareInfo>;
+  details?: Record<string, string | number | null>;
+};
+
+function manifestCaptureSettings(manifest: any): Partial<CaptureSettings> | null {
+  const settings = manifest?.capture_settings || manifest?.hardware_info?.capture_settings;
+  return settings && typeof settings === 'object' ? settings : null;
+}
+
+function settingsRevision(manifest: any): number | null {
+  const revision = Number(manifestCaptureSettings(manifest)?.revision ?? manifest?.settings_revision);
+  return Number.isFinite(revision) ? revision : null;
+}
+
+function manifestHardware(manifest: any): DeviceHardwareInfo | null {
+  const hardware = manifest?.hardware_info || manifest?.hardware;
+  return hardware && typeof hardware === 'object' ? hardware : null;
+}
+
+function minuteSeconds(minute: MinuteSummary): number {
+  return minuteTiming(minute.manifest, minute.progress?.storedChunks).durationSeconds;
+}
+
+// Cloud devices are matched to minutes by name, hostname or id, normalized the
+// way minute device keys are.
+export function hardwareByDeviceKey(devices: Array<{ device_name?: string; device_id?: string | number; device_uuid?: string; hardware_info?: DeviceHardwareInfo }>): Record<string, DeviceHardwareInfo> {
+  const hardware: Record<string, DeviceHardwareInfo> = {};
+  devices.forEach((device) => {
+    if (!device?.hardware_info) return;
+    [device.device_name, device.hardware_info.hostname, device.device_uuid, device.device_id]
+      .map(normalizeDeviceValue)
+      .filter(Boolean)
+      .forEach((key) => {
+        hardware[key] = hardware[key] || device.hardware_info!;
+      });
+  });
+  return hardware;
+}
+
+export function buildDatasetCard(input: DatasetCardInput): DatasetCard {
+  const minutes = new Map<string, MinuteSummary>();
+  const labels = new Map<string, { samples: number; minutes: Set<string>; durationSeconds: number }>();
+  const sensorMinutes = new Map<SensorKind, { minutes: Set<string>; bytes: number }>();
+  let sampleSeconds = 0;
+  let intervals = 0;
+
+  input.samples.forEach((sample) => {
+    const { minute } = sample;
+    minutes.set(minute.minute, minute);
+    const seconds = sample.durationSeconds ?? minuteSeconds(minute);
+    sampleSeconds += seconds;
+    if (sample.interval) intervals += 1;
+    sample.labels.forEach((label) => {
+      const entry = labels.get(label) || { samples: 0, minutes: new Set<string>(), durationSeconds: 0 };
+      entry.samples += 1;
+      entry.minutes.add(minute.minute);
+      entry.durationSeconds += seconds;
+      labels.set(label, entry);
+    });
+    const byKind: Partial<Record<SensorKind, number>> = {};
+    if (sample.files) {
+      sample.files.forEach((file) => {
+        const kind = sensorKindForFile(path.basename(file.name));
+        byKind[kind] = (byKind[kind] || 0) + file.size;
+      });
+    } else {
+      Object.assign(byKind, minuteUsageByKind(minute));
+    }
+    SENSOR_KINDS.forEach((kind) => {
+      if (!byKind[kind]) return;
+      const entry = sensorMinutes.get(kind) || { minutes: new Set<string>(), bytes: 0 };
+      entry.minutes.add(minute.minute);
+      entry.bytes += byKind[kind] || 0;
+      sensorMinutes.set(kind, entry);
+    });
+  });
+
+  const ordered = Array.from(minutes.values())
+    .sort((a, b) => a.minuteName.localeCompare(b.minuteName) || a.minute.localeCompare(b.minute));
+
+  const devices = new Map<string, DatasetCard['devices'][number]>();
+  const revisions = new Map<string, DatasetCard['captureSettings'][number]>();
+  const issues = new Map<MinuteIntegrityIssueCode, DatasetCard['quality']['issues'][number]>();
+  const issueMinutes = new Map<MinuteIntegrityIssueCode, Set<string>>();
+  const quality = { checkedMinutes: ordered.length, minutesWithIssues: 0, errors: 0, warnings: 0 };
+  const days = new Set<string>();
+  let minuteTotal = 0;
+
+  ordered.forEach((minute) => {
+    const seconds = minuteSeconds(minute);
+    minuteTotal += seconds;
+    days.add(minute.minuteName.slice(0, 8));
+
+    const device = devices.get(minute.deviceKey) || {
+      deviceKey: minute.deviceKey,
+      deviceLabel: minute.deviceLabel,
+      minutes: 0,
+      durationSeconds: 0,
+      hardware: input.hardware?.[minute.deviceKey] || null,
+    };
+    device.minutes += 1;
+    device.durationSeconds += seconds;
+    device.hardware = device.hardware || manifestHardware(minute.manifest);
+    devices.set(minute.deviceKey, device);
+
+    const revision = settingsRevision(minute.manifest);
+    const revisionKey = `${minute.deviceKey}\n${revision ?? ''}`;
+    const entry = revisions.get(revisionKey) || {
+      deviceKey: minute.deviceKey,
+      revision,
+      minutes: 0,
+      firstMinute: minute.minuteName,
+      lastMinute: minute.minuteName,
+      settings: manifestCaptureSettings(minute.manifest),
+    };
+    entry.minutes += 1;
+    entry.lastMinute = minute.minuteName;
+    revisions.set(revisionKey, entry);
+
+    const report = checkMinuteIntegrity(minute);
+    if (report.issues.length) quality.minutesWithIssues += 1;
+    quality.errors += report.errors;
+    quality.warnings += report.warnings;
+    report.issues.forEach((issue) => {
+      const item = issues.get(issue.code) || { code: issue.code, severity: issue.severity, minutes: 0, examples: [] };
+      const seen = issueMinutes.get(issue.code) || new Set<string>();
+      if (!seen.has(minute.minute)) {
+        seen.add(minute.minute);
+        item.minutes = seen.size;
+        if (item.examples.length < ISSUE_EXAMPLES) item.examples.push({ minute: minute.minute, message: issue.message });
+      }
+      issueMinutes.set(issue.code, seen);
+      if (issue.severity === 'error') item.severity = 'error';
+      issues.set(issue.code, item);
+    });
+  });
+
+  const first = ordered.length ? minuteDate(ordered[0].minuteName) : null;
+  const last = ordered.length ? minuteDate(ordered[ordered.length - 1].minuteName) : null;
+
+  return {
+    version: 1,
+    name: input.name,
+    source: input.source,
+    description: input.description || null,
+    generated_at: new Date().toISOString(),
+    details: input.details || {},
+    samples: { total: input.samples.length, minutes: ordered.length, intervals },
+    labels: Array.from(labels.entries())
+      .map(([label, entry]) => ({
+        label,
+        samples: entry.samples,
+        minutes: entry.minutes.size,
+        durationSeconds: entry.durationSeconds,
+        share: input.samples.length ? entry.samples / input.samples.length : 0,
+      }))
+      .sort((a, b) => b.samples - a.samples || a.label.localeCompare(b.label)),
+    devices: Array.from(devices.values()).sort((a, b) => b.minutes - a.minutes || a.deviceKey.localeCompare(b.deviceKey)),
+    sensors: SENSOR_KINDS
+      .filter((kind) => sensorMinutes.has(kind))
+      .map((kind) => ({ kind, minutes: sensorMinutes.get(kind)!.minutes.size, bytes: sensorMinutes.get(kind)!.bytes })),
+    dateRange: { first: first?.toISOString() || null, last: last?.toISOString() || null, days: days.size },
+    durations: { sampleSeconds, minuteSeconds: minuteTotal },
+    captureSettings: Array.from(revisions.values())
+      .sort((a, b) => a.deviceKey.localeCompare(b.deviceKey) || a.firstMinute.localeCompare(b.firstMinute)),
+    quality: {
+      ...quality,
+      issues: Array.from(issues.values()).sort((a, b) => b.minutes - a.minutes || a.code.localeCompare(b.code)),
+    },
+  };
+}
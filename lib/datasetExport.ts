@@ -0,0 +1,442 @@
+import fs from 'fs';
+import path from 'path';
+import { MINUTES_DATA_DIR, listMinuteSummaries, manualMinuteLabels, minuteDate } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import { minuteSessionIds } from '@/lib/recordingSessions';
+import { MINUTE_ARCHIVE_KINDS, archivePathSegment, minuteArchiveEntries } from '@/lib/minuteArchive';
+import type { MinuteArchiveEntry, MinuteArchiveKind } from '@/lib/minuteArchive';
+import { csvLine } from '@/lib/csv';
+import { jsonObject } from '@/lib/requestBody';
+import { DATASET_CARD_JSON, DATASET_CARD_MARKDOWN, datasetCardMarkdown } from '@/lib/datasetCard';
+import { buildDatasetCard } from '@/lib/datasetCardBuilder';
+import type { DatasetCard } from '@/lib/datasetCard';
+
+export const DATASET_SPLITS = ['train', 'val', 'test'] as const;
+export const DATASET_GROUPINGS = ['session', 'device'] as const;
+
+export type DatasetSplit = typeof DATASET_SPLITS[number];
+export type DatasetGrouping = typeof DATASET_GROUPINGS[number];
+
+const EXPORTS_DIRNAME = 'exports';
+const INDEX_JSON = 'index.json';
+const INDEX_CSV = 'index.csv';
+const EXPORT_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9._-]{0,79}$/;
+const DEFAULT_RATIOS: Record<DatasetSplit, number> = { train: 0.7, val: 0.15, test: 0.15 };
+
+export type DatasetExportOptions = {
+  name: string;
+  labels: string[];
+  groupBy: DatasetGrouping;
+  ratios: Record<DatasetSplit, number>;
+  seed: string;
+  kinds: MinuteArchiveKind[] | null;
+  deviceKeys: string[];
+  // Inclusive YYYY-MM-DD days, compared with the minute name.
+  from: string | null;
+  to: string | null;
+};
+
+export type DatasetExportItem = {
+  split: DatasetSplit;
+  label: string;
+  // Minute folder relative to the export root.
+  path: string;
+  minute: string;
+  minute_name: string;
+  device_key: string;
+  device_label: string;
+  group: string;
+  timestamp: string | null;
+  files: string[];
+  bytes: number;
+};
+
+export type DatasetSplitStats = {
+  minutes: number;
+  groups: number;
+  bytes: number;
+  byLabel: Record<string, number>;
+};
+
+export type DatasetExportIndex = Omit<DatasetExportOptions, 'deviceKeys' | 'from' | 'to'> & {
+  created_at: string | null;
+  source: string;
+  filters: { deviceKeys: string[]; from: string | null; to: string | null };
+  splits: Record<DatasetSplit, DatasetSplitStats>;
+  skipped: { ambiguous: number; collecting: number; empty: number };
+  items: DatasetExportItem[];
+};
+
+export type DatasetExportSummary = Omit<DatasetExportIndex, 'items'> & { minuteCount: number };
+
+export type DatasetExportOptionsResult =
+  | { ok: true; options: DatasetExportOptions }
+  | { ok: false; error: string };
+
+export type DatasetExportResult =
+  | { ok: true; export: DatasetExportSummary; copied: number }
+  | { ok: false; status: number; error: string };
+
+type Candidate = {
+  summary: MinuteSummary;
+  label: string;
+  group: string;
+  files: MinuteArchiveEntry[];
+};
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function datasetExportsDir(): string {
+  return path.join(MINUTES_DATA_DIR, EXPORTS_DIRNAME);
+}
+
+function stringList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return Array.from(new Set(values.map((item) => String(item || '').trim()).filter(Boolean)));
+}
+
+export function parseDatasetExportOptions(body: unknown): DatasetExportOptionsResult {
+  const input = jsonObject(body);
+  const taxonomy = readLabelTaxonomy();
+  const labels = Array.from(new Set(mapLabels(stringList(input.labels), taxonomy).labels));
+  if (!labels.length) return { ok: false, error: 'Select at least one label' };
+
+  const groupBy = (input.groupBy || 'session') as DatasetGrouping;
+  if (!DATASET_GROUPINGS.includes(groupBy)) {
+    return { ok: false, error: `groupBy must be one of ${DATASET_GROUPINGS.join(', ')}` };
+  }
+
+  const ratios = { ...DEFAULT_RATIOS };
+  if (input.ratios !== undefined) {
+    const requested = jsonObject(input.ratios);
+    for (const split of DATASET_SPLITS) {
+      const value = Number(requested[split] ?? 0);
+      if (!Number.isFinite(value) || value < 0) return { ok: false, error: `${split} ratio must be a non-negative number` };
+      ratios[split] = value;
+    }
+  }
+  const total = DATASET_SPLITS.reduce((sum, split) => sum + ratios[split], 0);
+  if (!total) return { ok: false, error: 'At least one split ratio must be positive' };
+  DATASET_SPLITS.forEach((split) => {
+    ratios[split] /= total;
+  });
+
+  const kinds = stringList(input.kinds);
+  const unknownKind = kinds.find((kind) => !(MINUTE_ARCHIVE_KINDS as readonly string[]).includes(kind));
+  if (unknownKind) return { ok: false, error: `Unknown kind ${unknownKind}; expected ${MINUTE_ARCHIVE_KINDS.join(', ')}` };
+
+  const from = input.from ? String(input.from) : null;
+  const to = input.to ? String(input.to) : null;
+  if ((from && !DAY_RE.test(from)) || (to && !DAY_RE.test(to))) {
+    return { ok: false, error: 'from and to must be YYYY-MM-DD' };
+  }
+
+  const seed = String(input.seed ?? '0').trim() || '0';
+  const name = String(input.name || `${labels.join('-')}-${groupBy}-seed${seed}`).trim();
+  if (!EXPORT_NAME_RE.test(name)) {
+    return { ok: false, error: 'Name must start with a letter or digit and use only letters, digits, ".", "_" and "-"' };
+  }
+
+  return {
+    ok: true,
+    options: {
+      name,
+      labels,
+      groupBy,
+      ratios,
+      seed,
+      kinds: kinds.length ? kinds as MinuteArchiveKind[] : null,
+      deviceKeys: stringList(input.deviceKeys),
+      from,
+      to,
+    },
+  };
+}
+
+// mulberry32 seeded from an FNV-1a hash of the seed string, so the same seed
+// always produces the same split.
+function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index += 1) {
+    state ^= seed.charCodeAt(index);
+    state = Math.imul(state, 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function emptySplitStats(): Record<DatasetSplit, DatasetSplitStats> {
+  return {
+    train: { minutes: 0, groups: 0, bytes: 0, byLabel: {} },
+    val: { minutes: 0, groups: 0, bytes: 0, byLabel: {} },
+    test: { minutes: 0, groups: 0, bytes: 0, byLabel: {} },
+  };
+}
+
+// Whole groups are assigned to splits, largest first (seeded order among equal
+// sizes), each to the split that leaves every label's share per split closest
+// to the target ratios. Minutes of one session or device therefore never
+// straddle two splits.
+function assignGroups(candidates: Candidate[], options: DatasetExportOptions): Map<string, DatasetSplit> {
+  const groups = new Map<string, Record<string, number>>();
+  const totals: Record<string, number> = {};
+  candidates.forEach((candidate) => {
+    const counts = groups.get(candidate.group) || {};
+    counts[candidate.label] = (counts[candidate.label] || 0) + 1;
+    groups.set(candidate.group, counts);
+    totals[candidate.label] = (totals[candidate.label] || 0) + 1;
+  });
+
+  const random = seededRandom(options.seed);
+  const keys = Array.from(groups.keys()).sort();
+  for (let index = keys.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [keys[index], keys[swap]] = [keys[swap], keys[index]];
+  }
+  const size = (key: string) => Object.values(groups.get(key) || {}).reduce((sum, count) => sum + count, 0);
+  const order = keys.map((key, position) => ({ key, position, size: size(key) }))
+    .sort((a, b) => b.size - a.size || a.position - b.position);
+
+  const labels = Object.keys(totals);
+  const assigned = new Map<string, DatasetSplit>();
+  const counts: Record<DatasetSplit, Record<string, number>> = { train: {}, val: {}, test: {} };
+  const cost = (group: Record<string, number>, target: DatasetSplit) => DATASET_SPLITS.reduce((sum, split) => (
+    sum + labels.reduce((labelSum, label) => {
+      const count = (counts[split][label] || 0) + (split === target ? group[label] || 0 : 0);
+      return labelSum + (count / totals[label] - options.ratios[split]) ** 2;
+    }, 0)
+  ), 0);
+
+  order.forEach(({ key }) => {
+    const group = groups.get(key) || {};
+    const split = DATASET_SPLITS
+      .filter((candidate) => options.ratios[candidate] > 0)
+      .map((candidate) => ({ split: candidate, cost: cost(group, candidate) }))
+      .sort((a, b) => a.cost - b.cost)[0].split;
+    assigned.set(key, split);
+    labels.forEach((label) => {
+      counts[split][label] = (counts[split][label] || 0) + (group[label] || 0);
+    });
+  });
+  return assigned;
+}
+
+// Selects the labeled minutes and assigns them to splits without touching
+// the disk, so the same plan serves previews and exports. `sources` maps each
+// item's export folder to its minute.
+function buildPlan(options: DatasetExportOptions): { index: DatasetExportIndex; sources: Map<string, MinuteSummary> } {
+  const taxonomy = readLabelTaxonomy();
+  const sessions = options.groupBy === 'session' ? minuteSessionIds() : null;
+  const from = options.from ? options.from.replace(/-/g, '') : '';
+  const to = options.to ? options.to.replace(/-/g, '') : '';
+  const skipped = { ambiguous: 0, collecting: 0, empty: 0 };
+
+  const candidates: Candidate[] = [];
+  listMinuteSummaries()
+    .filter((summary) => {
+      const day = summary.minuteName.slice(0, 8);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      return !options.deviceKeys.length || options.deviceKeys.includes(summary.deviceKey);
+    })
+    .sort((a, b) => a.minuteName.localeCompare(b.minuteName) || a.minute.localeCompare(b.minute))
+    .forEach((summary) => {
+      // Manual labels only: a summary falls back to the model's present/absent
+      // output for unlabelled minutes, which is no ground truth to train on.
+      const labels = manualMinuteLabels(summary, taxonomy).filter((label) => options.labels.includes(label));
+      if (!labels.length) return;
+      if (summary.state === 'collecting') {
+        skipped.collecting += 1;
+        return;
+      }
+      // One class per sample: minutes carrying two of the selected labels
+      // would teach the model both answers.
+      if (labels.length > 1) {
+        skipped.ambiguous += 1;
+        return;
+      }
+      const files = minuteArchiveEntries(summary, options.kinds);
+      if (!files.length) {
+        skipped.empty += 1;
+        return;
+      }
+      const group = options.groupBy === 'device'
+        ? summary.deviceKey
+        : sessions?.get(summary.minute) || `${summary.deviceKey}@${summary.minuteName}`;
+      candidates.push({ summary, label: labels[0], group, files });
+    });
+
+  const assigned = assignGroups(candidates, options);
+  const splits = emptySplitStats();
+  const groupsPerSplit: Record<DatasetSplit, Set<string>> = { train: new Set(), val: new Set(), test: new Set() };
+  const used = new Set<string>();
+  const sources = new Map<string, MinuteSummary>();
+  const items = candidates.map((candidate): DatasetExportItem => {
+    const split = assigned.get(candidate.group) || 'train';
+    const base = `${split}/${archivePathSegment(candidate.label)}/${archivePathSegment(candidate.summary.minuteName)}`;
+    let folder = base;
+    for (let count = 1; used.has(folder); count += 1) {
+      folder = `${base}__${archivePathSegment(candidate.summary.deviceKey)}${count > 1 ? `_${count}` : ''}`;
+    }
+    used.add(folder);
+    sources.set(folder, candidate.summary);
+
+    const bytes = candidate.files.reduce((sum, file) => sum + file.size, 0);
+    const stats = splits[split];
+    stats.minutes += 1;
+    stats.bytes += bytes;
+    stats.byLabel[candidate.label] = (stats.byLabel[candidate.label] || 0) + 1;
+    groupsPerSplit[split].add(candidate.group);
+    return {
+      split,
+      label: candidate.label,
+      path: folder,
+      minute: candidate.summary.minute,
+      minute_name: candidate.summary.minuteName,
+      device_key: candidate.summary.deviceKey,
+      device_label: candidate.summary.deviceLabel,
+      group: candidate.group,
+      timestamp: minuteDate(candidate.summary.minuteName)?.toISOString() || null,
+      files: candidate.files.map((file) => file.name),
+      bytes,
+    };
+  });
+  DATASET_SPLITS.forEach((split) => {
+    splits[split].groups = groupsPerSplit[split].size;
+  });
+
+  return {
+    index: {
+      name: options.name,
+      labels: options.labels,
+      groupBy: options.groupBy,
+      ratios: options.ratios,
+      seed: options.seed,
+      kinds: options.kinds,
+      created_at: null,
+      source: MINUTES_DATA_DIR,
+      filters: { deviceKeys: options.deviceKeys, from: options.from, to: options.to },
+      splits,
+      skipped,
+      items,
+    },
+    sources,
+  };
+}
+
+export function planDatasetExport(options: DatasetExportOptions): DatasetExportIndex {
+  return buildPlan(options).index;
+}
+
+export function summarizeDatasetExport(index: DatasetExportIndex): DatasetExportSummary {
+  const { items, ...summary } = index;
+  return { ...summary, minuteCount: items.length };
+}
+
+// Hard links keep an export from doubling disk usage; data roots on another
+// drive fall back to copies.
+function linkOrCopy(source: string, target: string): boolean {
+  try {
+    fs.linkSync(source, target);
+    return false;
+  } catch {
+    fs.copyFileSync(source, target);
+    return true;
+  }
+}
+
+function indexCsv(items: DatasetExportItem[]): string {
+  const columns = ['split', 'label', 'path', 'minute', 'minute_name', 'device_key', 'device_label', 'group', 'timestamp', 'files', 'bytes'] as const;
+  return csvLine(columns as unknown as string[]) + items.map((item) => csvLine(columns.map((column) => item[column]))).join('');
+}
+
+// Writes `<exports>/<name>/{train,val,test}/<label>/<minute>/` plus index.csv,
+// index.json and the dataset card. The export is assembled in a temporary
+// folder and renamed into place, so a failed export never leaves a partial
+// dataset behind.
+export function createDatasetExport(options: DatasetExportOptions): DatasetExportResult {
+  const target = path.join(datasetExportsDir(), options.name);
+  if (fs.existsSync(target)) return { ok: false, status: 409, error: `Export ${options.name} already exists` };
+
+  const { index, sources } = buildPlan(options);
+  if (!index.items.length) return { ok: false, status: 400, error: 'No labeled minutes match the selection' };
+  index.created_at = new Date().toISOString();
+
+  const temp = path.join(datasetExportsDir(), `.${options.name}.${process.pid}.tmp`);
+  let copied = 0;
+  try {
+    fs.rmSync(temp, { recursive: true, force: true });
+    index.items.forEach((item) => {
+      const minuteDir = sources.get(item.path)?.path || '';
+      item.files.forEach((file) => {
+        const destination = path.join(temp, item.path, file);
+        fs.mkdirSync(path.dirname(destination), { recursive: true });
+        if (linkOrCopy(path.join(minuteDir, file), destination)) copied += 1;
+      });
+    });
+    fs.writeFileSync(path.join(temp, INDEX_CSV), indexCsv(index.items));
+    fs.writeFileSync(path.join(temp, INDEX_JSON), JSON.stringify(index, null, 2));
+    const card = buildDatasetCard({
+      name: index.name,
+      source: 'local-export',
+      samples: index.items.map((item) => ({
+        minute: sources.get(item.path)!,
+        labels: [item.label],
+        files: item.files.map((file) => ({ name: file, size: fs.statSync(path.join(temp, item.path, file)).size })),
+      })),
+      details: {
+        Splits: DATASET_SPLITS.map((split) => `${split} ${index.splits[split].minutes}`).join(', '),
+        'Grouped by': index.groupBy,
+        Seed: index.seed,
+      },
+    });
+    fs.writeFileSync(path.join(temp, DATASET_CARD_JSON), JSON.stringify(card, null, 2));
+    fs.writeFileSync(path.join(temp, DATASET_CARD_MARKDOWN), datasetCardMarkdown(card));
+    fs.renameSync(temp, target);
+  } catch (error) {
+    fs.rmSync(temp, { recursive: true, force: true });
+    throw error;
+  }
+  return { ok: true, export: summarizeDatasetExport(index), copied };
+}
+
+export function readDatasetExport(name: string): DatasetExportIndex | null {
+  if (!EXPORT_NAME_RE.test(name)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(path.join(datasetExportsDir(), name, INDEX_JSON), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Exports made before dataset cards existed have none.
+export function readDatasetExportCard(name: string): DatasetCard | null {
+  if (!EXPORT_NAME_RE.test(name)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(path.join(datasetExportsDir(), name, DATASET_CARD_JSON), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function listDatasetExports(): DatasetExportSummary[] {
+  const dir = datasetExportsDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter((name) => EXPORT_NAME_RE.test(name))
+    .map(readDatasetExport)
+    .filter((index): index is DatasetExportIndex => Boolean(index))
+    .map(summarizeDatasetExport)
+    .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+}
+
+export function deleteDatasetExport(name: string): boolean {
+  if (!readDatasetExport(name)) return false;
+  fs.rmSync(path.join(datasetExportsDir(), name), { recursive: true, force: true });
+  return true;
+}
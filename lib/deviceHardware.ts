@@ -0,0 +1,49 @@
+// Device descriptions reported by the cloud backend in `hardware_info`. Dataset
+// cards also read them from minute manifests that recorded them.
+
+export type Sensor = {
+  sensor_type?: string;
+  key?: string;
+  name?: string;
+  available?: boolean;
+};
+
+export type CaptureSettings = {
+  labels: string[];
+  sensors: Record<string, boolean>;
+  radar_detection_threshold_normalized: number;
+  occupancy_threshold_percent: number;
+  yellow_threshold_percent: number;
+  green_threshold_percent: number;
+  auto_occupancy_label_enabled: boolean;
+  chunk_seconds: number;
+  system_mode: 'responsive' | 'balanced' | 'precision';
+  occupancy_vote_chunks: number;
+  prediction_label_style: 'occupancy' | 'presence';
+  people_count_label_enabled: boolean;
+  sleep_study_enabled: boolean;
+  calibrations?: Record<string, unknown>;
+  revision: number;
+  updated_at?: string | null;
+};
+
+export type DeviceHardwareInfo = {
+  device_type?: string;
+  is_raspberry_pi?: boolean;
+  raspberry_pi_model?: string;
+  portal_upload_allowed?: boolean;
+  sensors?: Sensor[];
+  available_sensors?: Sensor[];
+  hostname?: string;
+  capture_settings?: CaptureSettings;
+};
+
+// Device keys as minute summaries store them, so the browser can ask for a
+// device's minutes with the same keys.
+export function normalizeDeviceValue(value: unknown): string {
+  return String(value || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
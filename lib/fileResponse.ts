@@ -0,0 +1,139 @@
+import fs from 'fs';
+
+// Serving files from disk with HTTP caching and byte ranges, so browsers can
+// seek in long videos and revalidate without re-downloading, and a large file
+// is streamed instead of read into memory.
+
+const READ_SIZE = 256 * 1024;
+
+export type FileResponseOptions = {
+  contentType: string;
+  disposition: 'inline' | 'attachment';
+  filename: string;
+};
+
+export type FileResponse = {
+  status: 200 | 206 | 304 | 416;
+  headers: Record<string, string>;
+  body: ReadableStream<Uint8Array> | null;
+};
+
+type ByteRange = { start: number; end: number };
+
+// Size and modification time identify a capture file: files are written once
+// and only grow while a minute is collecting. The tag is strong so If-Range
+// can use it to resume a download.
+export function fileEtag(stat: fs.Stats): string {
+  return `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+}
+
+function etagMatches(header: string, etag: string): boolean {
+  const weak = (value: string) => value.trim().replace(/^W\//, '');
+  return header.split(',').some((value) => value.trim() === '*' || weak(value) === weak(etag));
+}
+
+function notModified(headers: Headers, stat: fs.Stats, etag: string): boolean {
+  const ifNoneMatch = headers.get('if-none-match');
+  if (ifNoneMatch) return etagMatches(ifNoneMatch, etag);
+  const ifModifiedSince = Date.parse(headers.get('if-modified-since') || '');
+  // HTTP dates have one-second resolution.
+  return Number.isFinite(ifModifiedSince) && Math.floor(stat.mtimeMs / 1000) * 1000 <= ifModifiedSince;
+}
+
+// A Range only applies when If-Range (if sent) still names this version of
+// the file; otherwise the client gets the whole, current file.
+function rangeApplies(headers: Headers, stat: fs.Stats, etag: string): boolean {
+  const ifRange = headers.get('if-range');
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) return ifRange === etag;
+  const date = Date.parse(ifRange);
+  return Number.isFinite(date) && Math.floor(stat.mtimeMs / 1000) * 1000 === date;
+}
+
+// Parses a single `bytes=` range. Multiple ranges and invalid ones such as
+// `bytes=5-3` are answered with the whole file, as RFC 9110 asks; null means
+// a valid range starts past the end of the file.
+function parseRange(header: string, size: number): ByteRange | 'ignore' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return 'ignore';
+  const [, startText, endText] = match;
+  if (!startText && !endText) return 'ignore';
+  if (!startText) {
+    const suffix = Number(endText);
+    if (!suffix || !size) return null;
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+  const start = Number(startText);
+  if (endText && Number(endText) < start) return 'ignore';
+  if (start >= size) return null;
+  return { start, end: endText ? Math.min(Number(endText), size - 1) : size - 1 };
+}
+
+export function fileReadStream(filePath: string, start: number, end: number): ReadableStream<Uint8Array> {
+  let handle: fs.promises.FileHandle | null = null;
+  let position = start;
+  const close = async () => {
+    const current = handle;
+    handle = null;
+    await current?.close();
+  };
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        handle = handle || await fs.promises.open(filePath, 'r');
+        const length = Math.min(READ_SIZE, end - position + 1);
+        const buffer = Buffer.alloc(Math.max(0, length));
+        const { bytesRead } = length > 0 ? await handle.read(buffer, 0, length, position) : { bytesRead: 0 };
+        if (!bytesRead) {
+          await close();
+          controller.close();
+          return;
+        }
+        position += bytesRead;
+        controller.enqueue(buffer.subarray(0, bytesRead));
+      } catch (error) {
+        await close().catch(() => undefined);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await close();
+    },
+  });
+}
+
+// Answers a GET for `filePath` from the request's conditional and Range
+// headers: 304 when the client's copy is current, 206 for a satisfiable
+// range, 416 for one past the end, and a streamed 200 otherwise.
+export function fileResponse(requestHeaders: Headers, filePath: string, stat: fs.Stats, options: FileResponseOptions): FileResponse {
+  const etag = fileEtag(stat);
+  const headers: Record<string, string> = {
+    'Accept-Ranges': 'bytes',
+    ETag: etag,
+    'Last-Modified': stat.mtime.toUTCString(),
+    // Revalidate on every use: a collecting minute's files still change.
+    'Cache-Control': 'private, no-cache',
+  };
+
+  if (notModified(requestHeaders, stat, etag)) {
+    return { status: 304, headers, body: null };
+  }
+
+  headers['Content-Type'] = options.contentType;
+  headers['Content-Disposition'] = `${options.disposition}; filename="${options.filename.replace(/"/g, '')}"`;
+
+  const rangeHeader = requestHeaders.get('range');
+  const range = rangeHeader && rangeApplies(requestHeaders, stat, etag) ? parseRange(rangeHeader, stat.size) : 'ignore';
+  if (range === null) {
+    headers['Content-Range'] = `bytes */${stat.size}`;
+    return { status: 416, headers, body: null };
+  }
+  if (range !== 'ignore') {
+    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${stat.size}`;
+    headers['Content-Length'] = String(range.end - range.start + 1);
+    return { status: 206, headers, body: fileReadStream(filePath, range.start, range.end) };
+  }
+
+  headers['Content-Length'] = String(stat.size);
+  return { status: 200, headers, body: fileReadStream(filePath, 0, stat.size - 1) };
+}
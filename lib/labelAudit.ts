@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { MINUTES_DATA_DIR, getMinuteDetail } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { manifestRevision, updateManifest } from '@/lib/manifestStore';
+
+const AUDIT_FILENAME = 'label-audit.jsonl';
+
+export type LabelChangeMode = 'replace' | 'merge' | 'undo' | 'rename-label' | 'merge-labels' | 'delete-label';
+
+export type LabelActor = {
+  username: string;
+  userId?: number | string;
+};
+
+export type LabelAuditEntry = {
+  id: string;
+  batchId: string;
+  at: string;
+  actor: LabelActor;
+  minute: string;
+  mode: LabelChangeMode;
+  before: string[];
+  after: string[];
+  undoOf?: string;
+  // Set when a label operation also moved the minute folder. Relative paths
+  // are root-qualified; `minute` is the ID after the move.
+  moved?: { from: string; to: string };
+};
+
+export type LabelUndoResult = {
+  batchId: string;
+  undone: LabelAuditEntry[];
+  skipped: Array<{ id: string; minute: string; error: string }>;
+};
+
+function auditPath(): string {
+  return path.join(MINUTES_DATA_DIR, 'config', AUDIT_FILENAME);
+}
+
+function sameLabels(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((label, index) => label === b[index]);
+}
+
+export function manifestLabels(manifest: any): string[] {
+  return Array.isArray(manifest?.labels) ? manifest.labels.map((label: unknown) => String(label)) : [];
+}
+
+// The local API has no session of its own, so the actor is read from the
+// bearer token the browser already sends to the cloud backend. The token is
+// not verified here; it only attributes the change.
+export function labelActorFromRequest(request: Request): LabelActor {
+  const token = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] || '', 'base64url').toString('utf8'));
+    const username = payload?.username || payload?.sub || payload?.email;
+    if (username) return { username: String(username), userId: payload?.user_id ?? payload?.userId };
+  } catch {
+    // Fall through to an anonymous actor.
+  }
+  return { username: 'anonymous' };
+}
+
+export function newLabelBatchId(): string {
+  return crypto.randomUUID();
+}
+
+export function recordLabelChange(entry: Omit<LabelAuditEntry, 'id' | 'at'>): LabelAuditEntry | null {
+  if (sameLabels(entry.before, entry.after) && !entry.moved) return null;
+  const record: LabelAuditEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), ...entry };
+  const target = auditPath();
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.appendFileSync(target, `${JSON.stringify(record)}\n`);
+  return record;
+}
+
+export function readLabelAudit(): LabelAuditEntry[] {
+  try {
+    return fs.readFileSync(auditPath(), 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        try {
+          return JSON.parse(line) as LabelAuditEntry;
+        } catch {
+          return null;
+        }
+      })
+      .filter(Boolean) as LabelAuditEntry[];
+  } catch {
+    return [];
+  }
+}
+
+export function queryLabelAudit({ minute, batchId, limit = 200 }: { minute?: string | null; batchId?: string | null; limit?: number }) {
+  const entries = readLabelAudit();
+  const undone = new Set(entries.map((entry) => entry.undoOf).filter(Boolean) as string[]);
+  const matching = entries
+    .filter((entry) => (!minute || entry.minute === minute) && (!batchId || entry.batchId === batchId))
+    .reverse();
+  return {
+    entries: matching.slice(0, limit).map((entry) => ({ ...entry, undone: undone.has(entry.id) })),
+    total: matching.length,
+  };
+}
+
+// Reverts entries newest first. A minute whose labels changed again after the
+// entry is skipped rather than overwritten, unless `force` is set.
+export async function undoLabelChanges(
+  { id, batchId, force = false }: { id?: string | null; batchId?: string | null; force?: boolean },
+  actor: LabelActor,
+): Promise<LabelUndoResult | null> {
+  const entries = readLabelAudit();
+  const alreadyUndone = new Set(entries.map((entry) => entry.undoOf).filter(Boolean) as string[]);
+  const targets = entries
+    .filter((entry) => (id ? entry.id === id : Boolean(batchId) && entry.batchId === batchId))
+    .reverse();
+  if (!targets.length) return null;
+
+  const result: LabelUndoResult = { batchId: newLabelBatchId(), undone: [], skipped: [] };
+  for (const entry of targets) {
+    if (alreadyUndone.has(entry.id)) {
+      result.skipped.push({ id: entry.id, minute: entry.minute, error: 'Already undone' });
+      continue;
+    }
+    const detail = getMinuteDetail(entry.minute);
+    const manifestPath = detail ? path.join(detail.path, 'manifest.json') : '';
+    if (!detail || !fs.existsSync(manifestPath)) {
+      result.skipped.push({ id: entry.id, minute: entry.minute, error: 'Minute folder not found' });
+      continue;
+    }
+    let manifest: any;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    } catch {
+      result.skipped.push({ id: entry.id, minute: entry.minute, error: 'manifest.json is not valid JSON' });
+      continue;
+    }
+    const current = manifestLabels(manifest);
+    if (sameLabels(current, entry.before)) {
+      result.skipped.push({ id: entry.id, minute: entry.minute, error: 'Labels already match' });
+      continue;
+    }
+    if (!force && !sameLabels(current, entry.after)) {
+      result.skipped.push({ id: entry.id, minute: entry.minute, error: 'Labels changed since this edit' });
+      continue;
+    }
+    const written = await updateManifest(detail.path, (next) => {
+      next.labels = entry.before;
+    }, { expectedRevision: manifestRevision(manifest) });
+    if (!written.ok) {
+      result.skipped.push({ id: entry.id, minute: entry.minute, error: written.error });
+      continue;
+    }
+    invalidateMinuteIndex(detail.relativePath);
+    const record = recordLabelChange({
+      batchId: result.batchId,
+      actor,
+      minute: entry.minute,
+      mode: 'undo',
+      before: current,
+      after: entry.before,
+      undoOf: entry.id,
+    });
+    if (record) result.undone.push(record);
+  }
+  return result;
+}
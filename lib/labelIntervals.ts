@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import path from 'path';
+import { getMinutePaths, listMinuteSummaries } from '@/lib/minutes';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import { relativeDataPath } from '@/lib/dataRoots';
+
+export const LABEL_INTERVALS_FIELD = 'label_intervals';
+// Capture devices default to 10 s radar chunks when the manifest does not say.
+const DEFAULT_CHUNK_SECONDS = 10;
+
+export type LabelInterval = {
+  id: string;
+  start_s: number;
+  end_s: number;
+  labels: string[];
+  // Set when the interval was drawn on a single chunk rather than a free range.
+  chunk_index?: number;
+};
+
+export type MinuteTiming = {
+  chunkSeconds: number;
+  expectedChunks: number;
+  durationSeconds: number;
+};
+
+export type LabelIntervalParseResult =
+  | { ok: true; intervals: LabelInterval[]; mapped: Array<{ from: string; to: string }> }
+  | { ok: false; errors: string[]; unknown?: string[] };
+
+export type LabeledIntervalSample = {
+  minute: string;
+  minutePath: string;
+  minuteRelativePath: string;
+  interval: LabelInterval;
+  labels: string[];
+  chunkIndexes: number[];
+  files: Array<{ filename: string; relativePath: string; chunkIndex: number }>;
+};
+
+export function minuteTiming(manifest: any, storedChunks = 0): MinuteTiming {
+  const chunkSeconds = Number(manifest?.chunk_seconds) > 0 ? Number(manifest.chunk_seconds) : DEFAULT_CHUNK_SECONDS;
+  const expectedChunks = Math.max(1, Number(manifest?.expected_chunks || 0) || storedChunks || Math.round(60 / chunkSeconds));
+  return { chunkSeconds, expectedChunks, durationSeconds: chunkSeconds * expectedChunks };
+}
+
+export function manifestLabelIntervals(manifest: any): LabelInterval[] {
+  const intervals = manifest?.[LABEL_INTERVALS_FIELD];
+  return Array.isArray(intervals) ? intervals.filter((interval) => interval && typeof interval === 'object') : [];
+}
+
+function roundSeconds(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Accepts either a chunk_index or an explicit start_s/end_s range per entry.
+// Labels go through the taxonomy the same way minute labels do.
+export function parseLabelIntervals(value: unknown, timing: MinuteTiming): LabelIntervalParseResult {
+  if (!Array.isArray(value)) return { ok: false, errors: ['intervals must be an array'] };
+  const taxonomy = readLabelTaxonomy();
+  const errors: string[] = [];
+  const unknown: string[] = [];
+  const mapped: Array<{ from: string; to: string }> = [];
+  const intervals: LabelInterval[] = [];
+
+  value.forEach((item: any, index) => {
+    const where = `Interval ${index + 1}`;
+    const hasChunk = item?.chunk_index !== undefined && item?.chunk_index !== null && item?.chunk_index !== '';
+    const chunkIndex = Number(item?.chunk_index);
+    if (hasChunk && (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= timing.expectedChunks)) {
+      errors.push(`${where}: chunk_index must be between 0 and ${timing.expectedChunks - 1}`);
+      return;
+    }
+    const start = hasChunk ? chunkIndex * timing.chunkSeconds : Number(item?.start_s);
+    const end = hasChunk ? start + timing.chunkSeconds : Number(item?.end_s);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start || end > timing.durationSeconds) {
+      errors.push(`${where}: range must satisfy 0 ≤ start_s < end_s ≤ ${timing.durationSeconds}`);
+      return;
+    }
+
+    const rawLabels = Array.isArray(item?.labels) ? item.labels : String(item?.labels || '').split(',');
+    const mapping = mapLabels(rawLabels.map((label: unknown) => String(label || '')), taxonomy);
+    if (!mapping.labels.length) {
+      errors.push(`${where}: at least one label is required`);
+      return;
+    }
+    mapped.push(...mapping.mapped);
+    if (taxonomy.mode === 'strict') unknown.push(...mapping.unknown.filter((label) => !unknown.includes(label)));
+
+    const id = typeof item?.id === 'string' && /^[A-Za-z0-9-]{1,64}$/.test(item.id) ? item.id : crypto.randomUUID();
+    intervals.push({
+      id,
+      start_s: roundSeconds(start),
+      end_s: roundSeconds(end),
+      labels: mapping.labels,
+      ...(hasChunk ? { chunk_index: chunkIndex } : {}),
+    });
+  });
+
+  if (unknown.length) errors.push(`Unknown labels: ${unknown.join(', ')}`);
+  if (errors.length) return { ok: false, errors, ...(unknown.length ? { unknown } : {}) };
+  const ids = new Set<string>();
+  intervals.forEach((interval) => {
+    if (ids.has(interval.id)) interval.id = crypto.randomUUID();
+    ids.add(interval.id);
+  });
+  intervals.sort((a, b) => a.start_s - b.start_s || a.end_s - b.end_s);
+  return { ok: true, intervals, mapped };
+}
+
+export function intervalChunkIndexes(interval: Pick<LabelInterval, 'start_s' | 'end_s'>, timing: MinuteTiming): number[] {
+  const first = Math.max(0, Math.floor(interval.start_s / timing.chunkSeconds));
+  const last = Math.min(timing.expectedChunks - 1, Math.ceil(interval.end_s / timing.chunkSeconds) - 1);
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, offset) => first + offset);
+}
+
+// One sample per labeled interval that carries any of `labels`, with the radar
+// chunk files the interval covers. Chunk files are matched to chunk indexes by
+// sort order, the same way minute progress counts stored chunks.
+export function listLabeledIntervalSamples(labels: string[]): LabeledIntervalSample[] {
+  const samples: LabeledIntervalSample[] = [];
+  listMinuteSummaries().forEach((summary) => {
+    const intervals = manifestLabelIntervals(summary.manifest);
+    if (!intervals.length) return;
+    const radarBins = getMinutePaths(summary.path).radarBins;
+    const timing = minuteTiming(summary.manifest, radarBins.length);
+    intervals.forEach((interval) => {
+      const matching = (interval.labels || []).filter((label) => labels.includes(label));
+      if (!matching.length) return;
+      const chunkIndexes = intervalChunkIndexes(interval, timing);
+      samples.push({
+        minute: summary.minute,
+        minutePath: summary.path,
+        minuteRelativePath: summary.relativePath,
+        interval,
+        labels: matching,
+        chunkIndexes,
+        files: chunkIndexes
+          .filter((index) => radarBins[index])
+          .map((index) => ({
+            filename: path.basename(radarBins[index]),
+            relativePath: relativeDataPath(radarBins[index]) || path.join(summary.relativePath, path.basename(radarBins[index])),
+            chunkIndex: index,
+          })),
+      });
+    });
+  });
+  return samples;
+}
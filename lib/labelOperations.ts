@@ -0,0 +1,227 @@
+import fs from 'fs';
+import { listMinuteSummaries } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { resolveDataPath } from '@/lib/dataRoots';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import { LabelActor, LabelChangeMode, manifestLabels, newLabelBatchId, recordLabelChange } from '@/lib/labelAudit';
+import { manifestRevision, updateManifest } from '@/lib/manifestStore';
+import { jsonObject } from '@/lib/requestBody';
+import { labelFolderError, minuteFolderLabel, minuteFolderTarget, moveMinuteFolder } from '@/lib/minuteLayout';
+
+export type LabelOperationAction = 'rename' | 'merge' | 'delete';
+
+export type LabelOperation = {
+  action: LabelOperationAction;
+  from: string[];
+  to: string | null;
+};
+
+export type LabelOperationParseResult =
+  | { ok: true; operation: LabelOperation; mapped: Array<{ from: string; to: string }> }
+  | { ok: false; errors: string[] };
+
+export type LabelOperationChange = {
+  minute: string;
+  root: string;
+  relativePath: string;
+  before: string[];
+  after: string[];
+  // Root-qualified relative paths when the minute sits in a matching label folder.
+  folder: { from: string; to: string; minute: string } | null;
+  blocked?: string;
+  revision: number;
+};
+
+export type LabelOperationPlan = {
+  operation: LabelOperation;
+  changes: LabelOperationChange[];
+  manifestCount: number;
+  folderCount: number;
+  blockedCount: number;
+};
+
+export type LabelUsage = {
+  label: string;
+  manifestCount: number;
+  folderCount: number;
+};
+
+export type LabelOperationResult = LabelOperationPlan & {
+  batchId: string;
+  applied: Array<{ minute: string; previousMinute: string; labels: string[]; moved: boolean }>;
+  skipped: Array<{ minute: string; error: string }>;
+};
+
+const AUDIT_MODES: Record<LabelOperationAction, LabelChangeMode> = {
+  rename: 'rename-label',
+  merge: 'merge-labels',
+  delete: 'delete-label',
+};
+
+function cleanLabel(value: unknown): string {
+  return String(value ?? '').trim().replace(/\s+/g, ' ');
+}
+
+export function parseLabelOperation(body: unknown): LabelOperationParseResult {
+  const input = jsonObject(body);
+  const errors: string[] = [];
+  const action = String(input.action || '') as LabelOperationAction;
+  if (!['rename', 'merge', 'delete'].includes(action)) {
+    return { ok: false, errors: ['action must be rename, merge or delete'] };
+  }
+
+  const rawFrom = Array.isArray(input.from) ? input.from : String(input.from ?? '').split(',');
+  const from = Array.from(new Set(rawFrom.map(cleanLabel).filter(Boolean))) as string[];
+  if (!from.length) errors.push('Provide at least one label to change');
+  if (action === 'rename' && from.length > 1) errors.push('Rename takes exactly one label; use merge for several');
+  if (action === 'merge' && from.length < 2) errors.push('Merge needs at least two labels');
+
+  let to: string | null = null;
+  let mapped: Array<{ from: string; to: string }> = [];
+  if (action !== 'delete') {
+    const taxonomy = readLabelTaxonomy();
+    const mapping = mapLabels([cleanLabel(input.to)], taxonomy);
+    to = mapping.labels[0] || null;
+    mapped = mapping.mapped;
+    if (!to) {
+      errors.push('Provide the target label');
+    } else {
+      const folderError = labelFolderError(to);
+      if (folderError) errors.push(folderError);
+      if (taxonomy.mode === 'strict' && mapping.unknown.length) errors.push(`Unknown label: ${to}`);
+      if (action === 'rename' && from[0] === to) errors.push('The new name matches the current one');
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, operation: { action, from, to }, mapped };
+}
+
+export function relabel(labels: string[], operation: LabelOperation): string[] {
+  const next: string[] = [];
+  labels.forEach((label) => {
+    const value = operation.from.includes(label) ? operation.to : label;
+    if (value && !next.includes(value)) next.push(value);
+  });
+  return next;
+}
+
+// Counts labels as stored: manifest labels and label folders, without the
+// occupancy labels derived from predictions.
+export function listLabelUsage(): LabelUsage[] {
+  const usage = new Map<string, LabelUsage>();
+  const entry = (label: string) => {
+    if (!usage.has(label)) usage.set(label, { label, manifestCount: 0, folderCount: 0 });
+    return usage.get(label) as LabelUsage;
+  };
+  listMinuteSummaries().forEach((summary) => {
+    manifestLabels(summary.manifest).forEach((label) => {
+      entry(label).manifestCount += 1;
+    });
+    const folderLabel = minuteFolderLabel(summary.relativePath);
+    if (folderLabel) entry(folderLabel).folderCount += 1;
+  });
+  return Array.from(usage.values()).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function planLabelOperation(operation: LabelOperation): LabelOperationPlan {
+  const changes: LabelOperationChange[] = [];
+  listMinuteSummaries().forEach((summary) => {
+    const before = manifestLabels(summary.manifest);
+    const after = relabel(before, operation);
+    const folderLabel = minuteFolderLabel(summary.relativePath);
+    const inFolder = Boolean(folderLabel) && folderLabel !== operation.to && operation.from.includes(folderLabel as string);
+    const labelsChange = after.length !== before.length || after.some((label, index) => label !== before[index]);
+    if (!labelsChange && !inFolder) return;
+
+    const change: LabelOperationChange = {
+      minute: summary.minute,
+      root: summary.root,
+      relativePath: summary.relativePath,
+      before,
+      after,
+      folder: null,
+      revision: manifestRevision(summary.manifest),
+    };
+    const target = inFolder ? minuteFolderTarget(summary.relativePath, operation.to) : null;
+    if (target) {
+      change.folder = { from: summary.relativePath, to: target.relativePath, minute: target.minute };
+      // Moving a folder the capture process is still writing to would split the minute in two.
+      if (summary.state === 'collecting') change.blocked = 'Minute is still being captured';
+      else if (fs.existsSync(target.path)) change.blocked = `${target.relativePath} already exists`;
+    }
+    changes.push(change);
+  });
+
+  changes.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  return {
+    operation,
+    changes,
+    manifestCount: changes.filter((change) => change.before.join('\n') !== change.after.join('\n')).length,
+    folderCount: changes.filter((change) => change.folder && !change.blocked).length,
+    blockedCount: changes.filter((change) => change.blocked).length,
+  };
+}
+
+// Rewrites manifests first and moves folders second, so a failed move leaves
+// the minute relabeled in place rather than moved with stale labels.
+export async function applyLabelOperation(operation: LabelOperation, actor: LabelActor): Promise<LabelOperationResult> {
+  const plan = planLabelOperation(operation);
+  const result: LabelOperationResult = { ...plan, batchId: newLabelBatchId(), applied: [], skipped: [] };
+
+  for (const change of plan.changes) {
+    if (change.blocked && change.before.join('\n') === change.after.join('\n')) {
+      result.skipped.push({ minute: change.minute, error: change.blocked });
+      continue;
+    }
+    const resolved = resolveDataPath(change.relativePath);
+    if (!resolved || !fs.existsSync(resolved.path)) {
+      result.skipped.push({ minute: change.minute, error: 'Minute folder not found' });
+      continue;
+    }
+
+    let before = change.before;
+    let after = change.after;
+    const relabeled = before.join('\n') !== after.join('\n');
+    if (relabeled) {
+      const written = await updateManifest(resolved.path, (manifest) => {
+        before = manifestLabels(manifest);
+        after = relabel(before, operation);
+        manifest.labels = after;
+      }, { expectedRevision: change.revision });
+      if (!written.ok) {
+        result.skipped.push({ minute: change.minute, error: written.error });
+        continue;
+      }
+      invalidateMinuteIndex(change.relativePath);
+    }
+
+    let minute = change.minute;
+    let folder: { from: string; to: string } | undefined;
+    if (change.folder && !change.blocked) {
+      const outcome = moveMinuteFolder(change, operation.to);
+      if (outcome.ok) {
+        minute = outcome.minute;
+        folder = { from: change.folder.from, to: outcome.relativePath };
+      } else {
+        result.skipped.push({ minute: change.minute, error: outcome.error });
+        if (!relabeled) continue;
+      }
+    } else if (change.blocked) {
+      result.skipped.push({ minute: change.minute, error: change.blocked });
+    }
+
+    recordLabelChange({
+      batchId: result.batchId,
+      actor,
+      minute,
+      mode: AUDIT_MODES[operation.action],
+      before,
+      after,
+      ...(folder ? { moved: folder } : {}),
+    });
+    result.applied.push({ minute, previousMinute: change.minute, labels: after, moved: Boolean(folder) });
+  }
+
+  return result;
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { MINUTES_DATA_DIR } from '@/lib/minutes';
+import { jsonObject } from '@/lib/requestBody';
+
+const TAXONOMY_FILENAME = 'label-taxonomy.json';
+
+export const LABEL_CATEGORIES = ['occupancy', 'activity', 'people-count'] as const;
+
+export type LabelCategory = typeof LABEL_CATEGORIES[number];
+
+// off: labels are stored as typed. map: synonyms and case variants are
+// rewritten to the canonical label, unknown labels pass through. strict: as
+// map, but labels missing from the taxonomy are rejected.
+export type LabelTaxonomyMode = 'off' | 'map' | 'strict';
+
+export type TaxonomyLabel = {
+  name: string;
+  category: LabelCategory;
+  color: string;
+  synonyms: string[];
+  description?: string;
+};
+
+export type LabelTaxonomy = {
+  mode: LabelTaxonomyMode;
+  labels: TaxonomyLabel[];
+  updated_at?: string;
+};
+
+export type LabelMappingResult = {
+  labels: string[];
+  mapped: Array<{ from: string; to: string }>;
+  unknown: string[];
+};
+
+export type LabelTaxonomyParseResult =
+  | { ok: true; taxonomy: LabelTaxonomy }
+  | { ok: false; errors: string[] };
+
+// Until someone saves a taxonomy, labels are stored exactly as entered: the
+// built-in labels only seed the admin editor and nothing is mapped.
+export const DEFAULT_LABEL_TAXONOMY: LabelTaxonomy = {
+  mode: 'off',
+  labels: [
+    { name: 'occupied', category: 'occupancy', color: '#ef4444', synonyms: [] },
+    { name: 'empty', category: 'occupancy', color: '#22c55e', synonyms: [] },
+    { name: 'walking', category: 'activity', color: '#3b82f6', synonyms: [] },
+    { name: 'sitting', category: 'activity', color: '#8b5cf6', synonyms: [] },
+    { name: 'standing', category: 'activity', color: '#06b6d4', synonyms: [] },
+    { name: 'lying', category: 'activity', color: '#f59e0b', synonyms: [] },
+    { name: '1-person', category: 'people-count', color: '#64748b', synonyms: [] },
+    { name: '2-people', category: 'people-count', color: '#475569', synonyms: [] },
+    { name: '3-plus-people', category: 'people-count', color: '#334155', synonyms: [] },
+  ],
+};
+
+function taxonomyPath(): string {
+  return path.join(MINUTES_DATA_DIR, 'config', TAXONOMY_FILENAME);
+}
+
+// Case, surrounding whitespace and separator differences never distinguish
+// labels: "Occupied", " occupied" and "occupied_" all compare equal.
+export function labelKey(value: unknown): string {
+  return String(value || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function cleanLabel(value: unknown): string {
+  return String(value || '').trim().replace(/\s+/g, ' ');
+}
+
+function normalizeColor(value: unknown): string {
+  const color = String(value || '').trim();
+  return /^#[0-9a-f]{6}$/i.test(color) ? color.toLowerCase() : '#64748b';
+}
+
+export function parseLabelTaxonomy(value: unknown): LabelTaxonomyParseResult {
+  const input = jsonObject(value);
+  const problems: string[] = [];
+  const owners = new Map<string, string>();
+  const labels: TaxonomyLabel[] = [];
+
+  (Array.isArray(input.labels) ? input.labels : []).forEach((entry: unknown, index: number) => {
+    const item = jsonObject(entry);
+    const name = cleanLabel(item.name);
+    if (!name) {
+      problems.push(`Label #${index + 1} has no name`);
+      return;
+    }
+    const category = LABEL_CATEGORIES.find((option) => option === item.category) || null;
+    if (!category) {
+      problems.push(`"${name}" needs a category (${LABEL_CATEGORIES.join(', ')})`);
+      return;
+    }
+    const synonyms = Array.from(new Set(
+      (Array.isArray(item.synonyms) ? item.synonyms : String(item.synonyms || '').split(','))
+        .map(cleanLabel)
+        .filter((synonym: string) => synonym && labelKey(synonym) !== labelKey(name)),
+    )) as string[];
+    [name, ...synonyms].forEach((term) => {
+      const owner = owners.get(labelKey(term));
+      if (owner && owner !== name) problems.push(`"${term}" is used by both "${owner}" and "${name}"`);
+      owners.set(labelKey(term), name);
+    });
+    labels.push({
+      name,
+      category,
+      color: normalizeColor(item.color),
+      synonyms,
+      ...(item.description ? { description: String(item.description).trim() } : {}),
+    });
+  });
+
+  if (problems.length) return { ok: false, errors: problems };
+  return {
+    ok: true,
+    taxonomy: {
+      mode: input.mode === 'off' || input.mode === 'strict' ? input.mode : 'map',
+      labels,
+      updated_at: typeof input.updated_at === 'string' ? input.updated_at : undefined,
+    },
+  };
+}
+
+export function readLabelTaxonomy(): LabelTaxonomy {
+  try {
+    const parsed = parseLabelTaxonomy(JSON.parse(fs.readFileSync(taxonomyPath(), 'utf8')));
+    if (parsed.ok) return parsed.taxonomy;
+    console.warn('Ignoring invalid label taxonomy:', parsed.errors.join('; '));
+  } catch {
+    // No taxonomy file yet; fall back to the built-in labels.
+  }
+  return DEFAULT_LABEL_TAXONOMY;
+}
+
+export function writeLabelTaxonomy(value: unknown): LabelTaxonomyParseResult {
+  const parsed = parseLabelTaxonomy(value);
+  if (!parsed.ok) return parsed;
+  const taxonomy = { ...parsed.taxonomy, updated_at: new Date().toISOString() };
+  const target = taxonomyPath();
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(taxonomy, null, 2));
+  return { ok: true, taxonomy };
+}
+
+export function findTaxonomyLabel(taxonomy: LabelTaxonomy, value: unknown): TaxonomyLabel | null {
+  const key = labelKey(value);
+  if (!key) return null;
+  return taxonomy.labels.find((label) => (
+    labelKey(label.name) === key || label.synonyms.some((synonym) => labelKey(synonym) === key)
+  )) || null;
+}
+
+export function mapLabels(labels: string[], taxonomy: LabelTaxonomy = readLabelTaxonomy()): LabelMappingResult {
+  const result: LabelMappingResult = { labels: [], mapped: [], unknown: [] };
+  labels.forEach((raw) => {
+    const label = cleanLabel(raw);
+    if (!label) return;
+    const match = taxonomy.mode === 'off' ? null : findTaxonomyLabel(taxonomy, label);
+    const value = match ? match.name : label;
+    if (match && match.name !== label) result.mapped.push({ from: label, to: match.name });
+    if (!match && taxonomy.mode !== 'off') result.unknown.push(label);
+    const duplicate = result.labels.some((existing) => (
+      taxonomy.mode === 'off' ? existing === value : labelKey(existing) === labelKey(value)
+    ));
+    if (!duplicate) result.labels.push(value);
+  });
+  return result;
+}
+
+export function canonicalLabel(label: string, taxonomy: LabelTaxonomy): string {
+  if (taxonomy.mode === 'off') return label;
+  return findTaxonomyLabel(taxonomy, label)?.name || label;
+}
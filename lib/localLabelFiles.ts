@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
-import { MINUTES_DATA_DIR, MINUTE_RE } from '@/lib/minutes';
+import { MINUTE_RE, RESERVED_DATA_DIRS } from '@/lib/minutes';
+import { listDataRoots, qualifyRootPath, resolveDataPath } from '@/lib/dataRoots';
+import type { DataRoot } from '@/lib/dataRoots';
 
 const DATA_EXTENSIONS = new Set(['.dat', '.bin', '.csv', '.jsonl']);
 const SKIP_NAMES = new Set(['manifest.json', 'predictions.json', 'cloud_upload.json']);
@@ -29,50 +31,63 @@ export function contentTypeForLocalFile(filePath: string): string {
   return 'application/octet-stream';
 }
 
+// Anything under a root's config/ folder is app state (the share link secret,
+// audit logs, policies) and is never served as a data file.
 export function localPathForRelative(relativePath: string): string | null {
-  const resolvedRoot = path.resolve(MINUTES_DATA_DIR);
-  const resolved = path.resolve(MINUTES_DATA_DIR, relativePath);
-  if (!resolved.startsWith(`${resolvedRoot}${path.sep}`)) return null;
-  return resolved;
+  const resolved = resolveDataPath(relativePath);
+  if (!resolved) return null;
+  const [topLevel] = path.relative(resolved.root.dir, resolved.path).split(path.sep);
+  return topLevel === 'config' ? null : resolved.path;
 }
 
-export function listLocalLabelFiles(): LocalLabelGroup[] {
-  const labels: LocalLabelGroup[] = [];
-  if (!fs.existsSync(MINUTES_DATA_DIR)) return labels;
+function collectLabelFiles(root: DataRoot, label: string, files: LocalLabelFile[]) {
+  const labelDir = path.join(root.dir, label);
+  for (const minute of fs.readdirSync(labelDir).sort()) {
+    if (!MINUTE_RE.test(minute)) continue;
+    const minuteDir = path.join(labelDir, minute);
+    if (!fs.statSync(minuteDir).isDirectory()) continue;
 
-  for (const label of fs.readdirSync(MINUTES_DATA_DIR).sort()) {
-    if (label === 'config' || label.startsWith('.')) continue;
-    const labelDir = path.join(MINUTES_DATA_DIR, label);
-    if (!fs.statSync(labelDir).isDirectory() || MINUTE_RE.test(label)) continue;
+    for (const filename of fs.readdirSync(minuteDir).sort()) {
+      const filePath = path.join(minuteDir, filename);
+      if (!fs.statSync(filePath).isFile()) continue;
+      const ext = path.extname(filename).toLowerCase();
+      if (SKIP_NAMES.has(filename) || filename.endsWith('.log') || !DATA_EXTENSIONS.has(ext)) continue;
+      const stat = fs.statSync(filePath);
+      const relativePath = qualifyRootPath(root, path.join(label, minute, filename));
+      files.push({
+        id: Buffer.from(relativePath).toString('base64url'),
+        label,
+        minute,
+        filename,
+        relativePath,
+        size: stat.size,
+        modified: stat.mtime.toISOString(),
+        contentType: contentTypeForLocalFile(filePath),
+      });
+    }
+  }
+}
 
-    const files: LocalLabelFile[] = [];
-    for (const minute of fs.readdirSync(labelDir).sort()) {
-      if (!MINUTE_RE.test(minute)) continue;
-      const minuteDir = path.join(labelDir, minute);
-      if (!fs.statSync(minuteDir).isDirectory()) continue;
+// Label folders with the same name on different roots are listed as one group.
+export function listLocalLabelFiles(): LocalLabelGroup[] {
+  const groups = new Map<string, LocalLabelFile[]>();
+  const roots = listDataRoots();
+  const rootDirs = new Set(roots.map((root) => root.dir));
 
-      for (const filename of fs.readdirSync(minuteDir).sort()) {
-        const filePath = path.join(minuteDir, filename);
-        if (!fs.statSync(filePath).isFile()) continue;
-        const ext = path.extname(filename).toLowerCase();
-        if (SKIP_NAMES.has(filename) || filename.endsWith('.log') || !DATA_EXTENSIONS.has(ext)) continue;
-        const stat = fs.statSync(filePath);
-        const relativePath = path.join(label, minute, filename);
-        files.push({
-          id: Buffer.from(relativePath).toString('base64url'),
-          label,
-          minute,
-          filename,
-          relativePath,
-          size: stat.size,
-          modified: stat.mtime.toISOString(),
-          contentType: contentTypeForLocalFile(filePath),
-        });
-      }
+  for (const root of roots) {
+    if (!fs.existsSync(root.dir)) continue;
+    for (const label of fs.readdirSync(root.dir).sort()) {
+      if (RESERVED_DATA_DIRS.has(label) || label.startsWith('.')) continue;
+      const labelDir = path.join(root.dir, label);
+      if (rootDirs.has(labelDir) || !fs.statSync(labelDir).isDirectory() || MINUTE_RE.test(label)) continue;
+      const files = groups.get(label) || [];
+      collectLabelFiles(root, label, files);
+      groups.set(label, files);
     }
-
-    if (files.length) labels.push({ label, files });
   }
 
-  return labels;
+  return Array.from(groups.entries())
+    .filter(([, files]) => files.length)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([label, files]) => ({ label, files }));
 }
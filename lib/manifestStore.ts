@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export const MANIFEST_REVISION_FIELD = 'manifest_revision';
+
+const LOCK_TIMEOUT_MS = 2000;
+const LOCK_RETRY_MS = 25;
+// A lock older than this belongs to a crashed writer and is taken over.
+const LOCK_STALE_MS = 10 * 1000;
+const MAX_WRITE_ATTEMPTS = 5;
+
+export type ManifestUpdateFailure = {
+  ok: false;
+  reason: 'conflict' | 'locked' | 'invalid';
+  error: string;
+  revision?: number;
+};
+
+export type ManifestUpdateResult =
+  | { ok: true; manifest: any; previous: any; revision: number }
+  | ManifestUpdateFailure;
+
+export type ManifestUpdateOptions = {
+  expectedRevision?: number | null;
+  overwriteInvalid?: boolean;
+};
+
+type ManifestSnapshot = {
+  manifest: any;
+  invalid: boolean;
+  stamp: string;
+};
+
+export function manifestRevision(manifest: any): number {
+  const revision = Number(manifest?.[MANIFEST_REVISION_FIELD]);
+  return Number.isInteger(revision) && revision > 0 ? revision : 0;
+}
+
+export function parseExpectedRevision(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision >= 0 ? revision : undefined;
+}
+
+export function manifestFailureStatus(failure: ManifestUpdateFailure): number {
+  return failure.reason === 'invalid' ? 422 : 409;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function fileStamp(filePath: string): string {
+  try {
+    const stat = fs.statSync(filePath);
+    return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+  } catch {
+    return 'missing';
+  }
+}
+
+function readSnapshot(manifestPath: string): ManifestSnapshot {
+  const stamp = fileStamp(manifestPath);
+  if (stamp === 'missing') return { manifest: {}, invalid: false, stamp };
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    const invalid = !manifest || typeof manifest !== 'object' || Array.isArray(manifest);
+    return { manifest: invalid ? {} : manifest, invalid, stamp };
+  } catch {
+    return { manifest: {}, invalid: true, stamp };
+  }
+}
+
+async function acquireLock(lockPath: string): Promise<boolean> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, `${process.pid} ${new Date().toISOString()}\n`);
+      fs.closeSync(fd);
+      return true;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error;
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) fs.rmSync(lockPath, { force: true });
+      } catch {
+        // The holder released it between our open and stat.
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+  return false;
+}
+
+function writeAtomically(manifestPath: string, manifest: any) {
+  const temp = `${manifestPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const fd = fs.openSync(temp, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(manifest, null, 2));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temp, manifestPath);
+  } finally {
+    fs.rmSync(temp, { force: true });
+  }
+}
+
+// Applies `mutate` to the freshest manifest on disk and replaces the file in a
+// single rename. Writers inside this app serialize on a lock file; the capture
+// process does not take the lock, so if it rewrites the manifest while we are
+// working the update is re-applied on top of its version.
+export async function updateManifest(
+  minuteDir: string,
+  mutate: (manifest: any) => any,
+  { expectedRevision = null, overwriteInvalid = false }: ManifestUpdateOptions = {},
+): Promise<ManifestUpdateResult> {
+  const manifestPath = path.join(minuteDir, 'manifest.json');
+  const lockPath = `${manifestPath}.lock`;
+  if (!(await acquireLock(lockPath))) {
+    return { ok: false, reason: 'locked', error: 'Manifest is being updated by another request' };
+  }
+
+  try {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt += 1) {
+      const snapshot = readSnapshot(manifestPath);
+      if (snapshot.invalid && !overwriteInvalid) {
+        return { ok: false, reason: 'invalid', error: 'manifest.json is not valid JSON' };
+      }
+      const revision = manifestRevision(snapshot.manifest);
+      if (expectedRevision !== null && expectedRevision !== revision) {
+        return {
+          ok: false,
+          reason: 'conflict',
+          error: `Manifest changed (revision ${revision}, expected ${expectedRevision})`,
+          revision,
+        };
+      }
+
+      const previous = JSON.parse(JSON.stringify(snapshot.manifest));
+      const draft = JSON.parse(JSON.stringify(snapshot.manifest));
+      const next = mutate(draft) ?? draft;
+      next[MANIFEST_REVISION_FIELD] = revision + 1;
+      next.manifest_updated_at = new Date().toISOString();
+
+      if (fileStamp(manifestPath) !== snapshot.stamp) continue;
+      writeAtomically(manifestPath, next);
+      return { ok: true, manifest: next, previous, revision: revision + 1 };
+    }
+    return { ok: false, reason: 'conflict', error: 'Manifest kept changing while it was being updated' };
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { primaryDataRoot } from '@/lib/dataRoots';
+
+const ALIASES_FILENAME = 'minute-aliases.json';
+const MAX_ALIAS_HOPS = 16;
+
+export type MinuteAlias = {
+  from: string;
+  to: string;
+  at: string;
+};
+
+type MinuteAliasFile = {
+  version: 1;
+  aliases: Record<string, { to: string; at: string }>;
+};
+
+function aliasesPath(): string {
+  return path.join(primaryDataRoot().dir, 'config', ALIASES_FILENAME);
+}
+
+function readAliasFile(): MinuteAliasFile {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(aliasesPath(), 'utf8'));
+    if (parsed && typeof parsed.aliases === 'object' && !Array.isArray(parsed.aliases)) {
+      return { version: 1, aliases: parsed.aliases };
+    }
+  } catch {
+    // No minute has been moved yet.
+  }
+  return { version: 1, aliases: {} };
+}
+
+function writeAliasFile(file: MinuteAliasFile) {
+  const target = aliasesPath();
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(temp, JSON.stringify(file, null, 2));
+  fs.renameSync(temp, target);
+}
+
+// Remembers the IDs minutes had before their folders moved. Existing aliases
+// that pointed at a moved ID are re-pointed so lookups stay one hop, and an ID
+// that is in use again stops being an alias.
+export function recordMinuteAliases(moves: Array<{ from: string; to: string }>) {
+  if (!moves.length) return;
+  const file = readAliasFile();
+  const at = new Date().toISOString();
+  moves.forEach(({ from, to }) => {
+    if (from === to) return;
+    Object.keys(file.aliases).forEach((alias) => {
+      if (file.aliases[alias].to === from) file.aliases[alias] = { to, at };
+    });
+    file.aliases[from] = { to, at };
+    delete file.aliases[to];
+  });
+  Object.keys(file.aliases).forEach((alias) => {
+    if (file.aliases[alias].to === alias) delete file.aliases[alias];
+  });
+  writeAliasFile(file);
+}
+
+export function resolveMinuteAlias(minute: string): string | null {
+  const { aliases } = readAliasFile();
+  let current = minute;
+  for (let hop = 0; hop < MAX_ALIAS_HOPS && aliases[current]; hop += 1) {
+    current = aliases[current].to;
+  }
+  return current === minute ? null : current;
+}
+
+export function listMinuteAliases(): MinuteAlias[] {
+  const { aliases } = readAliasFile();
+  return Object.keys(aliases)
+    .map((from) => ({ from, to: aliases[from].to, at: aliases[from].at }))
+    .sort((a, b) => b.at.localeCompare(a.at) || a.from.localeCompare(b.from));
+}
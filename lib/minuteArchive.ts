@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { listMinuteSummaries, manualMinuteLabels } from '@/lib/minutes';
+import type { MinuteDetail, MinuteSummary } from '@/lib/minutes';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+import { matchesMinuteQuery } from '@/lib/minuteQuery';
+import type { MinuteQuery } from '@/lib/minuteQuery';
+import { sensorKindForFile } from '@/lib/storageUsage';
+import { csvLine } from '@/lib/csv';
+import type { ZipEntry } from '@/lib/zipStream';
+
+export const MINUTE_ARCHIVE_KINDS = ['video', 'radar', 'csi', 'manifest', 'other'] as const;
+
+export type MinuteArchiveKind = typeof MINUTE_ARCHIVE_KINDS[number];
+
+export const MINUTE_ARCHIVE_CHECKSUM_FILE = 'SHA256SUMS';
+
+export const BULK_ARCHIVE_INDEX_FILE = 'index.csv';
+
+// Folder for minutes without any label in a bulk archive.
+const UNLABELED_FOLDER = 'unlabeled';
+
+export type MinuteArchiveEntry = ZipEntry & {
+  kind: MinuteArchiveKind;
+  size: number;
+};
+
+export type BulkArchiveSelection = {
+  // Minute query filters; labels pick the label folders to include.
+  query: MinuteQuery;
+  // Explicit minute ids, combined with the filters when both are given.
+  minutes: string[];
+  kinds: MinuteArchiveKind[] | null;
+};
+
+export function minuteArchiveKind(filename: string): MinuteArchiveKind {
+  return filename === 'manifest.json' ? 'manifest' : sensorKindForFile(filename);
+}
+
+// Reads `?kind=video&kind=radar` or `?kind=video,radar`. No kinds means the
+// whole folder; unknown kinds are returned so the route can reject them.
+export function parseMinuteArchiveKinds(values: string[]): { kinds: MinuteArchiveKind[] | null; unknown: string[] } {
+  const requested = values.flatMap((value) => value.split(',')).map((value) => value.trim().toLowerCase()).filter(Boolean);
+  const unknown = requested.filter((value) => !(MINUTE_ARCHIVE_KINDS as readonly string[]).includes(value));
+  const kinds = Array.from(new Set(requested.filter((value) => !unknown.includes(value)))) as MinuteArchiveKind[];
+  return { kinds: kinds.length ? kinds : null, unknown };
+}
+
+function listFolderFiles(dir: string, prefix = ''): Array<{ name: string; path: string; size: number }> {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const filePath = path.join(dir, entry.name);
+      const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) return listFolderFiles(filePath, name);
+      return entry.isFile() ? [{ name, path: filePath, size: fs.statSync(filePath).size }] : [];
+    });
+}
+
+// Zip entries for a minute folder, optionally limited to some kinds, under
+// `prefix/` when one is given. Hidden marker files such as `.uploaded` are
+// bookkeeping for this machine and never archived.
+export function minuteArchiveEntries(detail: Pick<MinuteDetail, 'path'>, kinds: MinuteArchiveKind[] | null, prefix = ''): MinuteArchiveEntry[] {
+  if (!fs.existsSync(detail.path)) return [];
+  return listFolderFiles(detail.path)
+    .map((file) => ({ ...file, kind: minuteArchiveKind(path.basename(file.name)) }))
+    .filter((file) => !kinds || kinds.includes(file.kind))
+    .map((file) => ({ name: prefix ? `${prefix}/${file.name}` : file.name, path: file.path, kind: file.kind, size: file.size }));
+}
+
+// A single safe path segment for archive and export folder names.
+export function archivePathSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^\.+/, '_') || '_';
+}
+
+// Label folders a minute is archived under: its canonical manual labels,
+// limited to the requested ones when the selection names labels. The
+// present/absent labels a summary derives from predictions are not labels
+// anyone gave the minute, so those minutes go under unlabeled/.
+function archiveFolders(summary: MinuteSummary, requested: string[], taxonomy: LabelTaxonomy): string[] {
+  const labels = manualMinuteLabels(summary, taxonomy);
+  if (requested.length) return labels.filter((label) => requested.includes(label));
+  return labels.length ? labels : [UNLABELED_FOLDER];
+}
+
+// Entries for a bulk archive laid out as `label/minute/...`, starting with an
+// index.csv of every archived minute folder. A minute with several labels is
+// archived once under each of them, as in the labeled data folders.
+export function bulkArchiveEntries(selection: BulkArchiveSelection): { entries: ZipEntry[]; minuteCount: number } {
+  const taxonomy = readLabelTaxonomy();
+  const requestedLabels = Array.from(new Set(selection.query.labels.flatMap((label) => mapLabels([label], taxonomy).labels)));
+  const otherFilters: MinuteQuery = { ...selection.query, labels: [] };
+  const explicit = new Set(selection.minutes);
+
+  const folders: Array<{ folder: string; summary: MinuteSummary }> = [];
+  listMinuteSummaries()
+    .filter((summary) => (!explicit.size || explicit.has(summary.minute)) && matchesMinuteQuery(summary, otherFilters, taxonomy))
+    .sort((a, b) => a.minuteName.localeCompare(b.minuteName) || a.minute.localeCompare(b.minute))
+    .forEach((summary) => {
+      archiveFolders(summary, requestedLabels, taxonomy).forEach((label) => folders.push({ folder: archivePathSegment(label), summary }));
+    });
+
+  // Minute names repeat across devices and data roots; later ones get the
+  // device appended so folders never merge.
+  const used = new Set<string>();
+  const files: ZipEntry[] = [];
+  const columns = ['path', 'minute', 'minute_name', 'device_key', 'device_label', 'labels', 'state', 'uploaded', 'file_count', ...MINUTE_ARCHIVE_KINDS.map((kind) => `${kind}_bytes`), 'total_bytes'];
+  let index = csvLine(columns);
+  const minutes = new Set<string>();
+  folders.forEach(({ folder, summary }) => {
+    const base = `${folder}/${archivePathSegment(summary.minuteName)}`;
+    let prefix = base;
+    for (let count = 1; used.has(prefix); count += 1) {
+      prefix = `${base}__${archivePathSegment(summary.deviceKey)}${count > 1 ? `_${count}` : ''}`;
+    }
+
+    const entries = minuteArchiveEntries(summary, selection.kinds, prefix);
+    if (!entries.length) return;
+    used.add(prefix);
+    minutes.add(summary.minute);
+    const bytes: Record<MinuteArchiveKind, number> = { video: 0, radar: 0, csi: 0, manifest: 0, other: 0 };
+    entries.forEach((entry) => {
+      bytes[entry.kind] += entry.size;
+      files.push({ name: entry.name, path: entry.path });
+    });
+    index += csvLine([
+      `${prefix}/`,
+      summary.minute,
+      summary.minuteName,
+      summary.deviceKey,
+      summary.deviceLabel,
+      manualMinuteLabels(summary, taxonomy),
+      summary.state,
+      summary.uploaded,
+      entries.length,
+      ...MINUTE_ARCHIVE_KINDS.map((kind) => bytes[kind]),
+      entries.reduce((sum, entry) => sum + entry.size, 0),
+    ]);
+  });
+
+  return {
+    entries: files.length ? [{ name: BULK_ARCHIVE_INDEX_FILE, data: index }, ...files] : [],
+    minuteCount: minutes.size,
+  };
+}
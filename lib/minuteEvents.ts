@@ -0,0 +1,103 @@
+import type { MinuteSummary } from '@/lib/minutes';
+
+const HISTORY_LIMIT = 500;
+
+type MinuteChunk = NonNullable<MinuteSummary['progress']>['chunks'][number];
+
+export type MinuteEventType =
+  | 'minute.created'
+  | 'minute.completed'
+  | 'minute.uploaded'
+  | 'labels.changed'
+  | 'chunk.stored'
+  | 'chunk.analyzed';
+
+export type MinuteEvent = {
+  id: number;
+  type: MinuteEventType;
+  at: string;
+  minute: string;
+  minuteName: string;
+  deviceKey: string;
+  state: MinuteSummary['state'];
+  labels?: string[];
+  previousLabels?: string[];
+  chunk?: MinuteChunk;
+  progress?: MinuteSummary['progress'];
+};
+
+export type MinuteEventFilter = {
+  deviceKeys?: string[];
+  minutes?: string[];
+};
+
+type MinuteEventListener = (event: MinuteEvent) => void;
+
+const listeners = new Set<MinuteEventListener>();
+const history: MinuteEvent[] = [];
+let nextEventId = 1;
+
+function manifestLabels(summary: MinuteSummary | null): string[] {
+  return Array.isArray(summary?.manifest?.labels) ? summary!.manifest.labels.map(String) : [];
+}
+
+function isAnalyzed(chunk: MinuteChunk | undefined): boolean {
+  return chunk?.state === 'occupied' || chunk?.state === 'empty' || chunk?.state === 'error';
+}
+
+export function diffMinuteSummaries(previous: MinuteSummary | null, next: MinuteSummary): Array<Omit<MinuteEvent, 'id' | 'at' | 'minute' | 'minuteName' | 'deviceKey' | 'state'>> {
+  const changes: Array<Omit<MinuteEvent, 'id' | 'at' | 'minute' | 'minuteName' | 'deviceKey' | 'state'>> = [];
+  if (!previous) changes.push({ type: 'minute.created', labels: next.labels, progress: next.progress });
+
+  const previousChunks = new Map<number, MinuteChunk>((previous?.progress?.chunks || []).map((chunk): [number, MinuteChunk] => [chunk.index, chunk]));
+  for (const chunk of next.progress?.chunks || []) {
+    const before = previousChunks.get(chunk.index);
+    if (chunk.stored && !before?.stored) changes.push({ type: 'chunk.stored', chunk });
+    if (isAnalyzed(chunk) && before?.state !== chunk.state) changes.push({ type: 'chunk.analyzed', chunk });
+  }
+
+  const before = manifestLabels(previous);
+  const after = manifestLabels(next);
+  if (previous && JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ type: 'labels.changed', labels: after, previousLabels: before });
+  }
+  if (previous && next.completed && !previous.completed) changes.push({ type: 'minute.completed', progress: next.progress });
+  if (next.uploaded && !previous?.uploaded) changes.push({ type: 'minute.uploaded' });
+  return changes;
+}
+
+export function publishMinuteChanges(previous: MinuteSummary | null, next: MinuteSummary) {
+  if (!listeners.size) return;
+  const at = new Date().toISOString();
+  for (const change of diffMinuteSummaries(previous, next)) {
+    const event: MinuteEvent = {
+      id: nextEventId++,
+      at,
+      minute: next.minute,
+      minuteName: next.minuteName,
+      deviceKey: next.deviceKey,
+      state: next.state,
+      ...change,
+    };
+    history.push(event);
+    if (history.length > HISTORY_LIMIT) history.shift();
+    listeners.forEach((listener) => listener(event));
+  }
+}
+
+export function matchesMinuteEventFilter(event: MinuteEvent, filter: MinuteEventFilter): boolean {
+  if (filter.deviceKeys?.length && !filter.deviceKeys.includes(event.deviceKey)) return false;
+  if (filter.minutes?.length && !filter.minutes.includes(event.minute) && !filter.minutes.includes(event.minuteName)) return false;
+  return true;
+}
+
+export function minuteEventsSince(lastEventId: number): MinuteEvent[] {
+  return history.filter((event) => event.id > lastEventId);
+}
+
+export function subscribeMinuteEvents(listener: MinuteEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
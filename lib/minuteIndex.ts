@@ -0,0 +1,308 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  MINUTES_DATA_DIR,
+  MINUTE_RE,
+  RESERVED_DATA_DIRS,
+  buildMinuteSummary,
+  discoverMinuteCandidates,
+  readMinutePredictions,
+} from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { publishMinuteChanges } from '@/lib/minuteEvents';
+import { listDataRoots, qualifyRootPath, resolveDataPath } from '@/lib/dataRoots';
+
+const INDEX_VERSION = 2;
+const INDEX_FILENAME = 'minute-index.json';
+// Completed minutes are not watched individually; their mtimes are re-checked
+// on this interval so writes from the capture process are still picked up.
+const VERIFY_INTERVAL_MS = 30 * 1000;
+const PERSIST_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 1000;
+
+type MinuteIndexEntry = {
+  signature: string;
+  summary: MinuteSummary;
+  predictions: any;
+};
+
+type MinuteIndexState = {
+  root: string;
+  entries: Map<string, MinuteIndexEntry>;
+  byMinute: Map<string, string>;
+  dirty: Set<string>;
+  structureDirty: boolean;
+  verifiedAt: number;
+  primed: boolean;
+  sorted: MinuteSummary[] | null;
+  watchers: Map<string, fs.FSWatcher>;
+  persistTimer: NodeJS.Timeout | null;
+};
+
+let minuteIndex: MinuteIndexState | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let pollSubscribers = 0;
+
+export function minuteIndexPath(): string {
+  return path.join(MINUTES_DATA_DIR, 'config', INDEX_FILENAME);
+}
+
+function minuteSignature(minuteDir: string): string {
+  return [minuteDir, path.join(minuteDir, 'manifest.json'), path.join(minuteDir, 'predictions.json')]
+    .map((filePath) => {
+      try {
+        return String(fs.statSync(filePath).mtimeMs);
+      } catch {
+        return '-';
+      }
+    })
+    .join(':');
+}
+
+// Identifies the configured set of roots so a persisted index is discarded
+// when a mount is added, removed or pointed somewhere else.
+function rootsSignature(): string {
+  return listDataRoots().map((root) => `${root.name}=${root.dir}`).join(',');
+}
+
+function loadPersistedIndex(): MinuteIndexState {
+  const state: MinuteIndexState = {
+    root: rootsSignature(),
+    entries: new Map(),
+    byMinute: new Map(),
+    dirty: new Set(),
+    structureDirty: true,
+    verifiedAt: 0,
+    primed: false,
+    sorted: null,
+    watchers: new Map(),
+    persistTimer: null,
+  };
+  try {
+    const payload = JSON.parse(fs.readFileSync(minuteIndexPath(), 'utf8'));
+    if (payload?.version === INDEX_VERSION && payload.root === state.root && payload.entries && typeof payload.entries === 'object') {
+      Object.entries(payload.entries as Record<string, MinuteIndexEntry>).forEach(([relativePath, entry]) => {
+        if (!entry?.summary?.minute) return;
+        state.entries.set(relativePath, entry);
+        state.byMinute.set(entry.summary.minute, relativePath);
+      });
+    }
+  } catch {
+    // A missing or unreadable index is rebuilt from the data directory.
+  }
+  return state;
+}
+
+function persistIndex(state: MinuteIndexState) {
+  const target = minuteIndexPath();
+  const temp = `${target}.${process.pid}.tmp`;
+  try {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(temp, JSON.stringify({
+      version: INDEX_VERSION,
+      root: state.root,
+      saved_at: new Date().toISOString(),
+      entries: Object.fromEntries(state.entries),
+    }));
+    fs.renameSync(temp, target);
+  } catch (error) {
+    console.warn('Unable to persist minute index:', error);
+    fs.rmSync(temp, { force: true });
+  }
+}
+
+function schedulePersist(state: MinuteIndexState) {
+  if (state.persistTimer) return;
+  state.persistTimer = setTimeout(() => {
+    state.persistTimer = null;
+    persistIndex(state);
+  }, PERSIST_DELAY_MS);
+  state.persistTimer.unref?.();
+}
+
+function watchDirectory(state: MinuteIndexState, dir: string, onChange: (filename: string | null) => void) {
+  if (state.watchers.has(dir)) return;
+  try {
+    const watcher = fs.watch(dir, { persistent: false }, (_event, filename) => onChange(filename ? String(filename) : null));
+    watcher.on('error', () => {
+      watcher.close();
+      state.watchers.delete(dir);
+      state.structureDirty = true;
+    });
+    state.watchers.set(dir, watcher);
+  } catch {
+    // Without a watcher the index falls back to mtime checks for this directory.
+  }
+}
+
+function unwatchDirectory(state: MinuteIndexState, dir: string) {
+  state.watchers.get(dir)?.close();
+  state.watchers.delete(dir);
+}
+
+function markDirty(state: MinuteIndexState, relativePath: string) {
+  state.dirty.add(relativePath);
+  state.sorted = null;
+}
+
+function removeEntry(state: MinuteIndexState, relativePath: string) {
+  const entry = state.entries.get(relativePath);
+  if (entry && state.byMinute.get(entry.summary.minute) === relativePath) {
+    state.byMinute.delete(entry.summary.minute);
+  }
+  state.entries.delete(relativePath);
+  state.dirty.delete(relativePath);
+  const minuteDir = entry?.summary.path || resolveDataPath(relativePath)?.path;
+  if (minuteDir) unwatchDirectory(state, minuteDir);
+}
+
+function rediscover(state: MinuteIndexState): boolean {
+  let changed = false;
+  const seen = new Set<string>();
+  const labelDirs = new Set<string>();
+  const rootDirs = new Set(listDataRoots().map((root) => root.dir));
+  for (const candidate of discoverMinuteCandidates()) {
+    seen.add(candidate.relativePath);
+    if (!rootDirs.has(path.dirname(candidate.dir))) labelDirs.add(path.dirname(candidate.dir));
+    if (!state.entries.has(candidate.relativePath)) markDirty(state, candidate.relativePath);
+  }
+  Array.from(state.entries.keys()).forEach((relativePath) => {
+    if (seen.has(relativePath)) return;
+    removeEntry(state, relativePath);
+    changed = true;
+  });
+  Array.from(state.dirty).forEach((relativePath) => {
+    if (!seen.has(relativePath)) state.dirty.delete(relativePath);
+  });
+
+  listDataRoots().forEach((root) => {
+    if (!fs.existsSync(root.dir)) return;
+    watchDirectory(state, root.dir, (filename) => {
+      if (filename && RESERVED_DATA_DIRS.has(filename)) return;
+      state.structureDirty = true;
+      if (filename && MINUTE_RE.test(filename)) markDirty(state, qualifyRootPath(root, filename));
+    });
+  });
+  labelDirs.forEach((dir) => watchDirectory(state, dir, () => {
+    state.structureDirty = true;
+  }));
+  return changed;
+}
+
+function rebuildEntry(state: MinuteIndexState, relativePath: string): boolean {
+  state.dirty.delete(relativePath);
+  const resolved = resolveDataPath(relativePath);
+  if (!resolved || !fs.existsSync(resolved.path)) {
+    removeEntry(state, relativePath);
+    return true;
+  }
+  const minuteDir = resolved.path;
+  try {
+    const signature = minuteSignature(minuteDir);
+    const summary = buildMinuteSummary({ dir: minuteDir, root: resolved.root.name, relativePath, minuteName: path.basename(relativePath) });
+    if (state.primed) publishMinuteChanges(state.entries.get(relativePath)?.summary || null, summary);
+    state.entries.set(relativePath, { signature, summary, predictions: readMinutePredictions(minuteDir) });
+    state.byMinute.set(summary.minute, relativePath);
+    if (summary.completed) {
+      unwatchDirectory(state, minuteDir);
+    } else {
+      watchDirectory(state, minuteDir, () => markDirty(state, relativePath));
+    }
+    return true;
+  } catch (error) {
+    console.warn(`Unable to index minute folder ${relativePath}:`, error);
+    return false;
+  }
+}
+
+function refreshMinuteIndex(): MinuteIndexState {
+  if (!minuteIndex || minuteIndex.root !== rootsSignature()) minuteIndex = loadPersistedIndex();
+  const state = minuteIndex;
+  const now = Date.now();
+  const verify = now - state.verifiedAt >= VERIFY_INTERVAL_MS;
+  let changed = false;
+
+  const unwatchedRoot = listDataRoots().some((root) => !state.watchers.has(root.dir) && fs.existsSync(root.dir));
+  if (verify || state.structureDirty || unwatchedRoot) {
+    state.structureDirty = false;
+    changed = rediscover(state) || changed;
+  }
+
+  state.entries.forEach((entry, relativePath) => {
+    if (state.dirty.has(relativePath)) return;
+    const unwatchedCollecting = !entry.summary.completed && !state.watchers.has(entry.summary.path);
+    if (unwatchedCollecting || (verify && minuteSignature(entry.summary.path) !== entry.signature)) {
+      markDirty(state, relativePath);
+    }
+  });
+  if (verify) state.verifiedAt = now;
+
+  Array.from(state.dirty).forEach((relativePath) => {
+    changed = rebuildEntry(state, relativePath) || changed;
+  });
+
+  if (changed) {
+    state.sorted = null;
+    schedulePersist(state);
+  }
+  state.primed = true;
+  return state;
+}
+
+// Keeps the index refreshing while live subscribers (such as the minute event
+// stream) need change notifications without waiting for the next listing.
+export function startMinuteIndexPolling(): () => void {
+  pollSubscribers += 1;
+  if (!pollTimer) {
+    pollTimer = setInterval(() => {
+      try {
+        refreshMinuteIndex();
+      } catch (error) {
+        console.warn('Unable to refresh minute index:', error);
+      }
+    }, POLL_INTERVAL_MS);
+    pollTimer.unref?.();
+  }
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    pollSubscribers -= 1;
+    if (pollSubscribers <= 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+      pollSubscribers = 0;
+    }
+  };
+}
+
+export function listIndexedMinuteSummaries(): MinuteSummary[] {
+  const state = refreshMinuteIndex();
+  if (!state.sorted) {
+    state.sorted = Array.from(state.entries.values())
+      .map((entry) => entry.summary)
+      .sort((a, b) => b.minute.localeCompare(a.minute));
+  }
+  return state.sorted.slice();
+}
+
+export function findIndexedMinute(minute: string): MinuteSummary | null {
+  const state = refreshMinuteIndex();
+  const relativePath = state.byMinute.get(minute);
+  return (relativePath && state.entries.get(relativePath)?.summary) || null;
+}
+
+export function readIndexedPredictions(summary: Pick<MinuteSummary, 'relativePath' | 'path'>): any {
+  const entry = minuteIndex?.entries.get(summary.relativePath);
+  return entry ? entry.predictions : readMinutePredictions(summary.path);
+}
+
+export function invalidateMinuteIndex(relativePath?: string) {
+  if (!minuteIndex) return;
+  if (relativePath) {
+    markDirty(minuteIndex, relativePath);
+    return;
+  }
+  minuteIndex.structureDirty = true;
+  minuteIndex.verifiedAt = 0;
+}
@@ -0,0 +1,332 @@
+import fs from 'fs';
+import path from 'path';
+import { getMinutePaths, getMinuteSummary, listMinuteSummaries } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { invalidateMinuteIndex, readIndexedPredictions } from '@/lib/minuteIndex';
+import { updateManifest } from '@/lib/manifestStore';
+
+// A collecting minute whose folder has not changed for this long is treated
+// as abandoned by the capture process.
+const STALE_COLLECTING_MS = 15 * 60 * 1000;
+const TRUNCATED_CHUNK_RATIO = 0.5;
+
+export type MinuteRepairAction = 'regenerate-manifest' | 'mark-finished';
+
+export type MinuteIntegrityIssueCode =
+  | 'missing-manifest'
+  | 'invalid-manifest'
+  | 'missing-chunks'
+  | 'extra-chunks'
+  | 'empty-file'
+  | 'truncated-file'
+  | 'prediction-out-of-range'
+  | 'chunk-error'
+  | 'stale-collecting';
+
+export type MinuteIntegrityIssue = {
+  code: MinuteIntegrityIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  file?: string;
+  chunkIndex?: number;
+  output?: string;
+  repair?: MinuteRepairAction;
+};
+
+export type MinuteIntegrityReport = {
+  minute: string;
+  minuteName: string;
+  relativePath: string;
+  deviceKey: string;
+  deviceLabel: string;
+  state: MinuteSummary['state'];
+  issues: MinuteIntegrityIssue[];
+  errors: number;
+  warnings: number;
+  repairs: MinuteRepairAction[];
+};
+
+export type DeviceIntegritySummary = {
+  deviceKey: string;
+  deviceLabel: string;
+  minuteCount: number;
+  healthyCount: number;
+  errorCount: number;
+  warningCount: number;
+  issueCounts: Partial<Record<MinuteIntegrityIssueCode, number>>;
+};
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Walks the top-level MP4 boxes; a finished recording always carries `moov`.
+function mp4HasMoov(filePath: string): boolean {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const size = fs.fstatSync(fd).size;
+    const header = Buffer.alloc(16);
+    let offset = 0;
+    while (offset + 8 <= size) {
+      fs.readSync(fd, header, 0, 16, offset);
+      let boxSize = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      if (type === 'moov') return true;
+      if (boxSize === 1) boxSize = Number(header.readBigUInt64BE(8));
+      if (boxSize === 0) return false;
+      if (boxSize < 8) return false;
+      offset += boxSize;
+    }
+    return false;
+  } catch {
+    return false;
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+}
+
+function endsWithNewline(filePath: string): boolean {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const size = fs.fstatSync(fd).size;
+    if (!size) return false;
+    const last = Buffer.alloc(1);
+    fs.readSync(fd, last, 0, 1, size - 1);
+    return last[0] === 0x0a;
+  } catch {
+    return false;
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+}
+
+function isStale(minute: MinuteSummary, now = Date.now()): boolean {
+  return !minute.completed && now - new Date(minute.modified).getTime() > STALE_COLLECTING_MS;
+}
+
+export function checkMinuteIntegrity(minute: MinuteSummary): MinuteIntegrityReport {
+  const issues: MinuteIntegrityIssue[] = [];
+  const paths = getMinutePaths(minute.path);
+  const manifest = minute.manifest;
+
+  if (!paths.manifest) {
+    issues.push({ code: 'missing-manifest', severity: 'error', message: 'manifest.json is missing', repair: 'regenerate-manifest' });
+  } else if (!manifest || typeof manifest !== 'object') {
+    issues.push({ code: 'invalid-manifest', severity: 'error', message: 'manifest.json is empty or not valid JSON', file: 'manifest.json', repair: 'regenerate-manifest' });
+  }
+
+  const expectedChunks = Number(manifest?.expected_chunks || 0);
+  const radarSizes = paths.radarBins.map((filePath) => ({ filename: path.basename(filePath), size: fileSize(filePath) }));
+  if (expectedChunks && minute.completed && radarSizes.length < expectedChunks) {
+    issues.push({
+      code: 'missing-chunks',
+      severity: 'error',
+      message: `Expected ${expectedChunks} radar chunks but ${radarSizes.length} are stored`,
+    });
+  }
+  if (expectedChunks && radarSizes.length > expectedChunks) {
+    issues.push({
+      code: 'extra-chunks',
+      severity: 'warning',
+      message: `Expected ${expectedChunks} radar chunks but ${radarSizes.length} are stored`,
+    });
+  }
+
+  const typicalChunk = median(radarSizes.map((chunk) => chunk.size).filter(Boolean));
+  radarSizes.forEach((chunk, index) => {
+    const collectingTail = !minute.completed && index === radarSizes.length - 1;
+    if (!chunk.size) {
+      if (!collectingTail) issues.push({ code: 'empty-file', severity: 'error', message: `${chunk.filename} is zero bytes`, file: chunk.filename });
+    } else if (!collectingTail && radarSizes.length > 2 && chunk.size < typicalChunk * TRUNCATED_CHUNK_RATIO) {
+      issues.push({
+        code: 'truncated-file',
+        severity: 'warning',
+        message: `${chunk.filename} is ${chunk.size} bytes, well below the typical ${Math.round(typicalChunk)} bytes`,
+        file: chunk.filename,
+      });
+    }
+  });
+
+  const sensorFiles = [paths.video, paths.csiCsv, paths.csiTimestamped, paths.csiSerial].filter(Boolean) as string[];
+  for (const filePath of sensorFiles) {
+    const filename = path.basename(filePath);
+    if (!fileSize(filePath)) {
+      if (minute.completed) issues.push({ code: 'empty-file', severity: 'error', message: `${filename} is zero bytes`, file: filename });
+      continue;
+    }
+    if (!minute.completed) continue;
+    if (filePath === paths.video && !mp4HasMoov(filePath)) {
+      issues.push({ code: 'truncated-file', severity: 'error', message: `${filename} has no moov box and will not play`, file: filename });
+    } else if (filePath !== paths.video && !endsWithNewline(filePath)) {
+      issues.push({ code: 'truncated-file', severity: 'warning', message: `${filename} ends mid-line`, file: filename });
+    }
+  }
+
+  const predictions = readIndexedPredictions(minute);
+  const timeline = Array.isArray(predictions?.timeline) ? predictions.timeline : [];
+  const chunkLimit = expectedChunks || minute.progress?.expectedChunks || 0;
+  timeline.forEach((entry: any) => {
+    const chunkIndex = Number(entry?.chunk_index);
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || (chunkLimit && chunkIndex >= chunkLimit)) {
+      issues.push({
+        code: 'prediction-out-of-range',
+        severity: 'warning',
+        message: `predictions.json references chunk ${entry?.chunk_index} outside 0–${Math.max(0, chunkLimit - 1)}`,
+        file: 'predictions.json',
+        chunkIndex: Number.isFinite(chunkIndex) ? chunkIndex : undefined,
+      });
+    }
+  });
+
+  Object.entries(manifest?.outputs || {}).forEach(([output, value]: [string, any]) => {
+    (Array.isArray(value?.chunks) ? value.chunks : [])
+      .filter((chunk: any) => String(chunk?.status) === 'error')
+      .forEach((chunk: any) => {
+        issues.push({
+          code: 'chunk-error',
+          severity: 'error',
+          message: `${output} chunk ${chunk?.chunk_index} failed${chunk?.error ? `: ${chunk.error}` : ''}`,
+          output,
+          chunkIndex: Number(chunk?.chunk_index),
+        });
+      });
+  });
+
+  if (isStale(minute)) {
+    issues.push({
+      code: 'stale-collecting',
+      severity: 'warning',
+      message: `Capture never finished; folder unchanged since ${minute.modified}`,
+      repair: paths.manifest && manifest ? 'mark-finished' : 'regenerate-manifest',
+    });
+  }
+
+  return {
+    minute: minute.minute,
+    minuteName: minute.minuteName,
+    relativePath: minute.relativePath,
+    deviceKey: minute.deviceKey,
+    deviceLabel: minute.deviceLabel,
+    state: minute.state,
+    issues,
+    errors: issues.filter((issue) => issue.severity === 'error').length,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    repairs: Array.from(new Set(issues.map((issue) => issue.repair).filter(Boolean))) as MinuteRepairAction[],
+  };
+}
+
+export function checkAllMinutes(deviceKey?: string | null): MinuteIntegrityReport[] {
+  return listMinuteSummaries()
+    .filter((minute) => !deviceKey || minute.deviceKey === deviceKey)
+    .map(checkMinuteIntegrity);
+}
+
+export function summarizeIntegrityByDevice(reports: MinuteIntegrityReport[]): DeviceIntegritySummary[] {
+  const devices = new Map<string, DeviceIntegritySummary>();
+  for (const report of reports) {
+    const summary = devices.get(report.deviceKey) || {
+      deviceKey: report.deviceKey,
+      deviceLabel: report.deviceLabel,
+      minuteCount: 0,
+      healthyCount: 0,
+      errorCount: 0,
+      warningCount: 0,
+      issueCounts: {},
+    };
+    summary.minuteCount += 1;
+    if (!report.issues.length) summary.healthyCount += 1;
+    if (report.errors) summary.errorCount += 1;
+    if (report.warnings) summary.warningCount += 1;
+    report.issues.forEach((issue) => {
+      summary.issueCounts[issue.code] = (summary.issueCounts[issue.code] || 0) + 1;
+    });
+    devices.set(report.deviceKey, summary);
+  }
+  return Array.from(devices.values()).sort((a, b) => a.deviceKey.localeCompare(b.deviceKey));
+}
+
+function nearestDeviceManifest(minute: MinuteSummary): any {
+  const parent = path.dirname(minute.relativePath);
+  const siblings = listMinuteSummaries()
+    .filter((other) => other.minute !== minute.minute && other.manifest && path.dirname(other.relativePath) === parent)
+    .sort((a, b) => Math.abs(Number(a.minuteName.replace('_', '')) - Number(minute.minuteName.replace('_', '')))
+      - Math.abs(Number(b.minuteName.replace('_', '')) - Number(minute.minuteName.replace('_', ''))));
+  return siblings[0] ? { minute: siblings[0].minute, manifest: siblings[0].manifest } : null;
+}
+
+function regeneratedManifest(minute: MinuteSummary): Record<string, unknown> {
+  const paths = getMinutePaths(minute.path);
+  const neighbour = nearestDeviceManifest(minute);
+  const device = neighbour?.manifest || {};
+  const now = new Date().toISOString();
+  return {
+    ...(device.device_name ? { device_name: device.device_name } : {}),
+    ...(device.device_id ? { device_id: device.device_id } : {}),
+    ...(device.host ? { host: device.host } : {}),
+    ...(neighbour ? { device_inferred_from: neighbour.minute } : {}),
+    minute: minute.minuteName,
+    capture_finished: minute.completed || isStale(minute),
+    expected_chunks: paths.radarBins.length || undefined,
+    chunk_seconds: device.chunk_seconds,
+    labels: Array.isArray(minute.manifest?.labels) ? minute.manifest.labels : [],
+    outputs: {
+      ...(paths.video ? { video: { file: path.basename(paths.video) } } : {}),
+      ...(paths.radarBins.length ? {
+        radar: {
+          chunks: paths.radarBins.map((filePath, index) => ({
+            chunk_index: index,
+            file: path.basename(filePath),
+            status: 'stored',
+          })),
+        },
+      } : {}),
+      ...(paths.csiCsv || paths.csiTimestamped || paths.csiSerial ? {
+        wifi: { file: path.basename((paths.csiCsv || paths.csiTimestamped || paths.csiSerial) as string) },
+      } : {}),
+    },
+    regenerated_at: now,
+    regenerated_by: 'integrity-check',
+  };
+}
+
+export async function repairMinute(minuteId: string, action: MinuteRepairAction): Promise<MinuteIntegrityReport> {
+  const minute = getMinuteSummary(minuteId);
+  if (!minute) throw new Error(`Minute ${minuteId} not found`);
+  const report = checkMinuteIntegrity(minute);
+  if (!report.repairs.includes(action)) {
+    throw new Error(`${action} does not apply to ${minuteId}`);
+  }
+
+  const manifestPath = path.join(minute.path, 'manifest.json');
+  if (action === 'regenerate-manifest') {
+    if (fs.existsSync(manifestPath)) {
+      fs.copyFileSync(manifestPath, path.join(minute.path, `manifest.json.invalid-${Date.now()}`));
+    }
+    const result = await updateManifest(minute.path, () => regeneratedManifest(minute), { overwriteInvalid: true });
+    if (!result.ok) throw new Error(result.error);
+  } else {
+    const result = await updateManifest(minute.path, (manifest) => {
+      manifest.capture_finished = true;
+      manifest.capture_finished_by = 'integrity-check';
+      manifest.capture_finished_at = new Date().toISOString();
+    });
+    if (!result.ok) throw new Error(result.error);
+  }
+
+  invalidateMinuteIndex(minute.relativePath);
+  const refreshed = getMinuteSummary(minuteId);
+  return refreshed ? checkMinuteIntegrity(refreshed) : report;
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { MINUTE_RE, RESERVED_DATA_DIRS, listMinuteSummaries } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { qualifyMinuteId, qualifyRootPath, resolveDataPath } from '@/lib/dataRoots';
+import { manifestLabels } from '@/lib/labelAudit';
+import { recordMinuteAliases } from '@/lib/minuteAliases';
+import { movePinnedMinutes } from '@/lib/retention';
+
+export type MinuteLayoutMove = {
+  minute: string;
+  relativePath: string;
+  labels: string[];
+  folderLabel: string | null;
+  target: { label: string; relativePath: string; minute: string } | null;
+  // Folder labels the minute stops carrying because its manifest does not list them.
+  dropped: string[];
+  blocked?: string;
+};
+
+export type MinuteLayoutPlan = {
+  moves: MinuteLayoutMove[];
+  checked: number;
+  movable: number;
+  blockedCount: number;
+};
+
+export type MinuteLayoutResult = MinuteLayoutPlan & {
+  moved: Array<{ from: string; to: string; relativePath: string }>;
+  skipped: Array<{ minute: string; error: string }>;
+};
+
+export type MinuteMoveResult =
+  | { ok: true; minute: string; relativePath: string }
+  | { ok: false; error: string };
+
+// A label becomes a folder name, so it must be a single safe path segment that
+// discovery will not mistake for a minute or a reserved folder such as config.
+export function labelFolderError(label: string): string | null {
+  if (/[\\/~]/.test(label)) return 'Label cannot contain "/", "\\" or "~"';
+  if (label.startsWith('.')) return 'Label cannot start with "."';
+  if (RESERVED_DATA_DIRS.has(label) || MINUTE_RE.test(label)) return `"${label}" is reserved`;
+  return null;
+}
+
+// Target location for a minute within its own root: inside `label`, or at the
+// top level when no label is given.
+export function minuteFolderTarget(relativePath: string, label: string | null) {
+  const resolved = resolveDataPath(relativePath);
+  if (!resolved) return null;
+  const minuteName = path.basename(resolved.path);
+  const target = label ? path.join(label, minuteName) : minuteName;
+  return {
+    relativePath: qualifyRootPath(resolved.root, target),
+    minute: qualifyMinuteId(resolved.root, label ? `${label}__${minuteName}` : minuteName),
+    path: path.join(resolved.root.dir, target),
+  };
+}
+
+export function minuteFolderLabel(relativePath: string): string | null {
+  const parts = resolveDataPath(relativePath)?.relativePath.split(path.sep) || [];
+  return parts.length === 2 ? parts[0] : null;
+}
+
+// Moves a minute folder within its root, keeps its old ID as an alias and
+// carries a retention pin over to the new ID.
+export function moveMinuteFolder(minute: Pick<MinuteSummary, 'minute' | 'relativePath'>, label: string | null): MinuteMoveResult {
+  const source = resolveDataPath(minute.relativePath);
+  const target = minuteFolderTarget(minute.relativePath, label);
+  if (!source || !target || !fs.existsSync(source.path)) return { ok: false, error: 'Minute folder not found' };
+  if (fs.existsSync(target.path)) return { ok: false, error: `${target.relativePath} already exists` };
+  try {
+    fs.mkdirSync(path.dirname(target.path), { recursive: true });
+    fs.renameSync(source.path, target.path);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Unable to move minute folder' };
+  }
+
+  const previousFolder = path.dirname(source.path);
+  if (path.resolve(previousFolder) !== path.resolve(source.root.dir)) {
+    try {
+      if (!fs.readdirSync(previousFolder).length) fs.rmdirSync(previousFolder);
+    } catch {
+      // An unreadable label folder is left behind; discovery ignores empty ones.
+    }
+  }
+  const moves = [{ from: minute.minute, to: target.minute }];
+  recordMinuteAliases(moves);
+  movePinnedMinutes(moves);
+  invalidateMinuteIndex();
+  return { ok: true, minute: target.minute, relativePath: target.relativePath };
+}
+
+// Puts each minute in the folder of its first manifest label. Minutes without
+// manifest labels, or already filed under one of them, stay where they are.
+export function planMinuteLayout(): MinuteLayoutPlan {
+  const summaries = listMinuteSummaries();
+  const moves: MinuteLayoutMove[] = [];
+  summaries.forEach((summary) => {
+    const labels = manifestLabels(summary.manifest);
+    const folderLabel = minuteFolderLabel(summary.relativePath);
+    if (!labels.length || (folderLabel && labels.includes(folderLabel))) return;
+
+    const label = labels.find((item) => !labelFolderError(item)) || null;
+    const target = label ? minuteFolderTarget(summary.relativePath, label) : null;
+    const move: MinuteLayoutMove = {
+      minute: summary.minute,
+      relativePath: summary.relativePath,
+      labels,
+      folderLabel,
+      target: target && label ? { label, relativePath: target.relativePath, minute: target.minute } : null,
+      dropped: folderLabel ? [folderLabel] : [],
+    };
+    if (!target) move.blocked = 'No manifest label can be used as a folder name';
+    else if (summary.state === 'collecting') move.blocked = 'Minute is still being captured';
+    else if (fs.existsSync(target.path)) move.blocked = `${target.relativePath} already exists`;
+    moves.push(move);
+  });
+
+  moves.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const blockedCount = moves.filter((move) => move.blocked).length;
+  return { moves, checked: summaries.length, movable: moves.length - blockedCount, blockedCount };
+}
+
+export function applyMinuteLayout(): MinuteLayoutResult {
+  const plan = planMinuteLayout();
+  const result: MinuteLayoutResult = { ...plan, moved: [], skipped: [] };
+  plan.moves.forEach((move) => {
+    if (move.blocked || !move.target) {
+      result.skipped.push({ minute: move.minute, error: move.blocked || 'No target folder' });
+      return;
+    }
+    const outcome = moveMinuteFolder(move, move.target.label);
+    if (!outcome.ok) {
+      result.skipped.push({ minute: move.minute, error: outcome.error });
+      return;
+    }
+    result.moved.push({ from: move.minute, to: outcome.minute, relativePath: outcome.relativePath });
+  });
+  return result;
+}
@@ -0,0 +1,198 @@
+import { listMinuteSummaries, manualMinuteLabels } from '@/lib/minutes';
+import type { MinuteFiles, MinuteSummary } from '@/lib/minutes';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+
+export const MINUTE_QUERY_SORT_FIELDS = ['minute', 'modified', 'deviceKey', 'size'] as const;
+export const MINUTE_QUERY_DEFAULT_LIMIT = 100;
+export const MINUTE_QUERY_MAX_LIMIT = 1000;
+
+const SENSOR_KEYS: Array<keyof MinuteFiles> = ['video', 'radar', 'xy_tracking', 'csi', 'manifest', 'predictions'];
+
+export type MinuteQuerySort = typeof MINUTE_QUERY_SORT_FIELDS[number];
+
+export type MinuteQuery = {
+  roots: string[];
+  deviceKeys: string[];
+  labels: string[];
+  from: string | null;
+  to: string | null;
+  state: MinuteSummary['state'] | null;
+  uploaded: boolean | null;
+  completed: boolean | null;
+  sensors: Array<keyof MinuteFiles>;
+  sort: MinuteQuerySort;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor: string | null;
+};
+
+export type MinuteQueryResult = {
+  minutes: MinuteSummary[];
+  total: number;
+  nextCursor: string | null;
+};
+
+export type MinuteQueryParseResult =
+  | { ok: true; query: MinuteQuery }
+  | { ok: false; error: string };
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return params.getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function booleanParam(params: URLSearchParams, name: string): boolean | null | undefined {
+  const value = params.get(name);
+  if (value == null || value === '') return null;
+  if (['true', '1', 'yes'].includes(value.toLowerCase())) return true;
+  if (['false', '0', 'no'].includes(value.toLowerCase())) return false;
+  return undefined;
+}
+
+// Accepts YYYYMMDD, YYYYMMDD_HHMM or ISO-like dates and returns the
+// comparable `YYYYMMDD_HHMM` key used by minute folder names.
+function minuteKeyForDate(value: string | null, end: boolean): string | null | undefined {
+  if (!value) return null;
+  const digits = value.replace(/\D+/g, '');
+  if (digits.length === 8) return `${digits}_${end ? '2359' : '0000'}`;
+  if (digits.length >= 12) return `${digits.slice(0, 8)}_${digits.slice(8, 12)}`;
+  return undefined;
+}
+
+export function minuteTotalSize(minute: MinuteSummary): number {
+  return Object.values(minute.sizes || {}).reduce((sum, size) => sum + (Number(size) || 0), 0);
+}
+
+function sortValue(minute: MinuteSummary, sort: MinuteQuerySort): string | number {
+  if (sort === 'size') return minuteTotalSize(minute);
+  if (sort === 'modified') return minute.modified;
+  if (sort === 'deviceKey') return minute.deviceKey;
+  return minute.minuteName;
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function encodeCursor(minute: MinuteSummary, sort: MinuteQuerySort): string {
+  return Buffer.from(JSON.stringify([sortValue(minute, sort), minute.minute])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string | number, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(value) && value.length === 2 && typeof value[1] === 'string') return [value[0], value[1]];
+  } catch {
+    // Fall through to the invalid cursor response.
+  }
+  return null;
+}
+
+export function parseMinuteQuery(params: URLSearchParams): MinuteQueryParseResult {
+  const from = minuteKeyForDate(params.get('from'), false);
+  const to = minuteKeyForDate(params.get('to'), true);
+  if (from === undefined || to === undefined) {
+    return { ok: false, error: 'from and to must be YYYYMMDD, YYYYMMDD_HHMM or ISO dates' };
+  }
+
+  const state = params.get('state');
+  if (state && state !== 'ready' && state !== 'collecting') {
+    return { ok: false, error: 'state must be ready or collecting' };
+  }
+
+  const uploaded = booleanParam(params, 'uploaded');
+  const completed = booleanParam(params, 'completed');
+  if (uploaded === undefined || completed === undefined) {
+    return { ok: false, error: 'uploaded and completed must be true or false' };
+  }
+
+  const sensors = listParam(params, 'sensors');
+  const unknownSensor = sensors.find((sensor) => !SENSOR_KEYS.includes(sensor as keyof MinuteFiles));
+  if (unknownSensor) {
+    return { ok: false, error: `Unknown sensor ${unknownSensor}; expected one of ${SENSOR_KEYS.join(', ')}` };
+  }
+
+  const sort = (params.get('sort') || 'minute') as MinuteQuerySort;
+  if (!MINUTE_QUERY_SORT_FIELDS.includes(sort)) {
+    return { ok: false, error: `sort must be one of ${MINUTE_QUERY_SORT_FIELDS.join(', ')}` };
+  }
+  const order = params.get('order') === 'asc' ? 'asc' : 'desc';
+
+  const limit = Math.floor(Number(params.get('limit') || MINUTE_QUERY_DEFAULT_LIMIT));
+  if (!Number.isFinite(limit) || limit < 1) {
+    return { ok: false, error: 'limit must be a positive integer' };
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor && !decodeCursor(cursor)) {
+    return { ok: false, error: 'Invalid cursor' };
+  }
+
+  return {
+    ok: true,
+    query: {
+      roots: listParam(params, 'root'),
+      deviceKeys: listParam(params, 'deviceKey'),
+      labels: listParam(params, 'label'),
+      from,
+      to,
+      state: state as MinuteSummary['state'] | null,
+      uploaded,
+      completed,
+      sensors: sensors as Array<keyof MinuteFiles>,
+      sort,
+      order,
+      limit: Math.min(limit, MINUTE_QUERY_MAX_LIMIT),
+      cursor,
+    },
+  };
+}
+
+// Label filters match the labels people gave the minute, never the
+// present/absent state derived from its predictions. Pass the taxonomy when
+// matching many minutes so it is read once.
+export function matchesMinuteQuery(minute: MinuteSummary, query: MinuteQuery, taxonomy?: LabelTaxonomy): boolean {
+  if (query.roots.length && !query.roots.includes(minute.root)) return false;
+  if (query.deviceKeys.length && !query.deviceKeys.includes(minute.deviceKey)) return false;
+  if (query.labels.length) {
+    const current = taxonomy || readLabelTaxonomy();
+    const wanted = mapLabels(query.labels, current).labels;
+    const labels = manualMinuteLabels(minute, current);
+    if (!wanted.some((label) => labels.includes(label))) return false;
+  }
+  if (query.from && minute.minuteName < query.from) return false;
+  if (query.to && minute.minuteName > query.to) return false;
+  if (query.state && minute.state !== query.state) return false;
+  if (query.uploaded !== null && minute.uploaded !== query.uploaded) return false;
+  if (query.completed !== null && minute.completed !== query.completed) return false;
+  if (query.sensors.some((sensor) => !minute.files[sensor])) return false;
+  return true;
+}
+
+export function queryMinuteSummaries(query: MinuteQuery): MinuteQueryResult {
+  const direction = query.order === 'asc' ? 1 : -1;
+  const compare = (a: [string | number, string], b: [string | number, string]) => (
+    (compareValues(a[0], b[0]) || a[1].localeCompare(b[1])) * direction
+  );
+
+  const taxonomy = readLabelTaxonomy();
+  const matched = listMinuteSummaries()
+    .filter((minute) => matchesMinuteQuery(minute, query, taxonomy))
+    .map((minute) => ({ minute, key: [sortValue(minute, query.sort), minute.minute] as [string | number, string] }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? matched.filter((item) => compare(item.key, after) > 0) : matched;
+  const page = remaining.slice(0, query.limit).map((item) => item.minute);
+  const last = page[page.length - 1];
+
+  return {
+    minutes: page,
+    total: matched.length,
+    nextCursor: remaining.length > query.limit && last ? encodeCursor(last, query.sort) : null,
+  };
+}
@@ -0,0 +1,133 @@
+import { listMinuteSummaries } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { readIndexedPredictions } from '@/lib/minuteIndex';
+
+// Arrays of plain numbers longer than this are sensor samples or heatmaps,
+// not something anyone searches for by value.
+const MAX_NUMERIC_ARRAY = 16;
+const MAX_VALUE_LENGTH = 500;
+const MAX_FIELDS_PER_MINUTE = 5000;
+const MAX_MATCHES_PER_RESULT = 5;
+
+export type SearchField = {
+  field: string;
+  text: string;
+  // Chunk the field belongs to, when it sits inside a chunk or timeline entry.
+  chunk: number | null;
+};
+
+export type MinuteSearchMatch = SearchField;
+
+export type MinuteSearchResult = {
+  minute: string;
+  minuteName: string;
+  relativePath: string;
+  deviceKey: string;
+  deviceLabel: string;
+  deviceId: string;
+  labels: string[];
+  state: MinuteSummary['state'];
+  score: number;
+  matches: MinuteSearchMatch[];
+};
+
+type SearchDocument = {
+  fields: SearchField[];
+  lowered: string[];
+};
+
+// Index documents are keyed by summary object: the minute index replaces a
+// summary whenever its manifest or predictions change, which drops the entry.
+const documents = new WeakMap<MinuteSummary, SearchDocument>();
+
+function flatten(value: any, field: string, chunk: number | null, fields: SearchField[]) {
+  if (fields.length >= MAX_FIELDS_PER_MINUTE || value === null || value === undefined) return;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    fields.push({ field, text: String(value).slice(0, MAX_VALUE_LENGTH), chunk });
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (value.length > MAX_NUMERIC_ARRAY && value.every((item) => typeof item === 'number' || Array.isArray(item))) return;
+    if (value.every((item) => typeof item === 'string')) {
+      fields.push({ field, text: value.join(', ').slice(0, MAX_VALUE_LENGTH), chunk });
+      return;
+    }
+    value.forEach((item, index) => {
+      const itemChunk = item && typeof item === 'object' && Number.isInteger(Number(item.chunk_index))
+        ? Number(item.chunk_index)
+        : chunk;
+      flatten(item, `${field}[${index}]`, itemChunk, fields);
+    });
+    return;
+  }
+  if (typeof value === 'object') {
+    Object.keys(value).forEach((key) => flatten(value[key], field ? `${field}.${key}` : key, chunk, fields));
+  }
+}
+
+function searchDocument(summary: MinuteSummary): SearchDocument {
+  const cached = documents.get(summary);
+  if (cached) return cached;
+  const fields: SearchField[] = [
+    { field: 'minute', text: summary.minute, chunk: null },
+    { field: 'device', text: Array.from(new Set([summary.deviceLabel, summary.deviceKey])).join(' '), chunk: null },
+    { field: 'labels', text: summary.labels.join(', '), chunk: null },
+    { field: 'state', text: summary.state, chunk: null },
+  ];
+  flatten(summary.manifest, 'manifest', null, fields);
+  flatten(readIndexedPredictions(summary), 'predictions', null, fields);
+  const document = { fields, lowered: fields.map((item) => `${item.field} ${item.text}`.toLowerCase()) };
+  documents.set(summary, document);
+  return document;
+}
+
+// Terms are whitespace separated; double quotes keep a phrase together.
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query))) {
+    const term = (match[1] || match[2] || '').trim().toLowerCase();
+    if (term && !terms.includes(term)) terms.push(term);
+  }
+  return terms;
+}
+
+// Every term has to appear somewhere in the minute. Fields that match several
+// terms at once score higher, so "chunk 3 error" ranks a minute whose chunk 3
+// errored above one that merely has an error and a third chunk.
+export function searchMinutes(query: string, { limit = 50 }: { limit?: number } = {}) {
+  const terms = parseSearchQuery(query);
+  if (!terms.length) return { terms, results: [] as MinuteSearchResult[], total: 0 };
+
+  const results: MinuteSearchResult[] = [];
+  listMinuteSummaries().forEach((summary) => {
+    const document = searchDocument(summary);
+    const found = new Set<string>();
+    const scored: Array<{ index: number; hits: number }> = [];
+    document.lowered.forEach((text, index) => {
+      const hits = terms.filter((term) => text.includes(term));
+      if (!hits.length) return;
+      hits.forEach((term) => found.add(term));
+      scored.push({ index, hits: hits.length });
+    });
+    if (found.size !== terms.length) return;
+
+    scored.sort((a, b) => b.hits - a.hits || a.index - b.index);
+    results.push({
+      minute: summary.minute,
+      minuteName: summary.minuteName,
+      relativePath: summary.relativePath,
+      deviceKey: summary.deviceKey,
+      deviceLabel: summary.deviceLabel,
+      deviceId: String(summary.manifest?.device_uuid || summary.manifest?.device_id || summary.deviceKey),
+      labels: summary.labels,
+      state: summary.state,
+      score: scored.reduce((sum, item) => sum + item.hits * item.hits, 0),
+      matches: scored.slice(0, MAX_MATCHES_PER_RESULT).map((item) => document.fields[item.index]),
+    });
+  });
+
+  results.sort((a, b) => b.score - a.score || b.minute.localeCompare(a.minute));
+  return { terms, results: results.slice(0, limit), total: results.length };
+}
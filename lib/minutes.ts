@@ -1,9 +1,27 @@
 import fs from 'fs';
 import path from 'path';
-
-export const MINUTES_DATA_DIR = process.env.THOTH_DATA_DIR || '/home/pi/Desktop/thoth/data';
+import { findIndexedMinute, listIndexedMinuteSummaries, readIndexedPredictions } from '@/lib/minuteIndex';
+import {
+  dataRootForMinuteId,
+  findDataRoot,
+  listDataRoots,
+  primaryDataRoot,
+  qualifyMinuteId,
+  qualifyRootPath,
+  relativeDataPath,
+  resolveDataPath,
+} from '@/lib/dataRoots';
+import type { DataRoot } from '@/lib/dataRoots';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+import { resolveMinuteAlias } from '@/lib/minuteAliases';
+import { normalizeDeviceValue } from '@/lib/deviceHardware';
+
+export const MINUTES_DATA_DIR = primaryDataRoot().dir;
 export const MINUTE_RE = /^\d{8}_\d{4}$/;
-export const MINUTE_ID_RE = /^(?:(?<label>[^/\\]+)__)?(?<minute>\d{8}_\d{4})$/;
+export const MINUTE_ID_RE = /^(?:[a-z0-9][a-z0-9-]*~)?(?:(?<label>[^/\\~]+)__)?(?<minute>\d{8}_\d{4})$/;
+// Top-level folders of a data root that hold app state rather than minutes.
+export const RESERVED_DATA_DIRS = new Set(['config', 'exports']);
 
 export type MinuteFiles = {
   video: boolean;
@@ -17,6 +35,7 @@ export type MinuteFiles = {
 export type MinuteSummary = {
   minute: string;
   minuteName: string;
+  root: string;
   relativePath: string;
   path: string;
   modified: string;
@@ -55,6 +74,13 @@ export type MinuteSummary = {
   manifest?: any;
 };
 
+export type MinuteCandidate = {
+  dir: string;
+  root: string;
+  relativePath: string;
+  minuteName: string;
+};
+
 export type MinuteDetail = MinuteSummary & {
   filePaths: Record<string, string | null>;
   previews: Record<string, string>;
@@ -118,12 +144,15 @@ function readJsonPreview(filePath: string | null): any {
   }
 }
 
-function normalizeDeviceValue(value: unknown): string {
-  return String(value || '')
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
+export function minuteDate(minuteName: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})$/.exec(minuteName);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute));
+}
+
+export function readMinutePredictions(minuteDir: string): any {
+  return readJsonPreview(path.join(minuteDir, 'predictions.json'));
 }
 
 function normalizeLabelValue(value: unknown): string {
@@ -162,16 +191,34 @@ function resolvedMinuteLabels(
   return [completed ? 'no-radar-data' : 'collecting'];
 }
 
+// The labels people gave a minute, from its label folder and manifest, in
+// canonical taxonomy form. Unlike `MinuteSummary.labels` this never falls
+// back to the present/absent state derived from the minute's predictions, so
+// anything treated as ground truth should read labels through here.
+export function manualMinuteLabels(
+  summary: Pick<MinuteSummary, 'relativePath' | 'manifest'>,
+  taxonomy: LabelTaxonomy = readLabelTaxonomy(),
+): string[] {
+  return mapLabels([...labelsFromMinutePath(summary.relativePath), ...extractLabels(summary.manifest)], taxonomy).labels;
+}
+
+// Minute paths are root-qualified, so strip a secondary root's "<name>~"
+// segment before reading the label folder out of them.
+function minutePathParts(relativePath: string): string[] {
+  const parts = relativePath.split(/[\\/]+/).filter(Boolean);
+  return parts[0]?.endsWith('~') ? parts.slice(1) : parts;
+}
+
 function labelsFromMinutePath(relativePath: string): string[] {
-  const parts = relativePath.split(path.sep).filter(Boolean);
+  const parts = minutePathParts(relativePath);
   if (parts.length >= 2 && MINUTE_RE.test(parts[1])) return [parts[0]];
   return [];
 }
 
-function minuteIdFor(relativePath: string): string {
-  const parts = relativePath.split(path.sep).filter(Boolean);
-  if (parts.length >= 2 && MINUTE_RE.test(parts[1])) return `${parts[0]}__${parts[1]}`;
-  return parts[0] || relativePath;
+function minuteIdFor(root: DataRoot, relativePath: string): string {
+  const parts = minutePathParts(relativePath);
+  if (parts.length >= 2 && MINUTE_RE.test(parts[1])) return qualifyMinuteId(root, `${parts[0]}__${parts[1]}`);
+  return qualifyMinuteId(root, parts[0] || relativePath);
 }
 
 function extractDeviceInfo(manifest: any, minuteDir: string): { deviceKey: string; deviceLabel: string; uploaded: boolean } {
@@ -200,7 +247,7 @@ function extractDeviceInfo(manifest: any, minuteDir: string): { deviceKey: strin
   return { deviceKey, deviceLabel, uploaded };
 }
 
-function getMinutePaths(minuteDir: string) {
+export function getMinutePaths(minuteDir: string) {
   const names = fs.existsSync(minuteDir) ? fs.readdirSync(minuteDir) : [];
   const radarBins = names.filter((name) => (
     (name.startsWith('radar_') || name.startsWith('mmw_radar_raw_')) && name.endsWith('.bin')
@@ -283,93 +330,114 @@ function contentTypeForMinuteFile(filePath: string): string {
   return 'application/octet-stream';
 }
 
-export function listMinuteSummaries(): MinuteSummary[] {
-  if (!fs.existsSync(MINUTES_DATA_DIR)) return [];
-
-  const minutes: MinuteSummary[] = [];
-  const candidateDirs: Array<{ dir: string; relativePath: string; minuteName: string }> = [];
-  for (const item of fs.readdirSync(MINUTES_DATA_DIR)) {
-    if (item === 'config' || item.startsWith('.')) continue;
-    const itemPath = path.join(MINUTES_DATA_DIR, item);
-    if (!fs.statSync(itemPath).isDirectory()) continue;
-    if (MINUTE_RE.test(item)) {
-      candidateDirs.push({ dir: itemPath, relativePath: item, minuteName: item });
-      continue;
-    }
-    for (const child of fs.readdirSync(itemPath)) {
-      const childPath = path.join(itemPath, child);
-      if (fs.statSync(childPath).isDirectory() && MINUTE_RE.test(child)) {
-        candidateDirs.push({ dir: childPath, relativePath: path.join(item, child), minuteName: child });
+export function discoverMinuteCandidates(): MinuteCandidate[] {
+  const roots = listDataRoots();
+  const rootDirs = new Set(roots.map((root) => root.dir));
+  const candidateDirs: MinuteCandidate[] = [];
+
+  for (const root of roots) {
+    // An unplugged drive simply contributes no minutes until it is mounted again.
+    if (!fs.existsSync(root.dir)) continue;
+    for (const item of fs.readdirSync(root.dir, { withFileTypes: true })) {
+      if (RESERVED_DATA_DIRS.has(item.name) || item.name.startsWith('.')) continue;
+      if (!item.isDirectory()) continue;
+      const itemPath = path.join(root.dir, item.name);
+      if (rootDirs.has(itemPath)) continue;
+      if (MINUTE_RE.test(item.name)) {
+        candidateDirs.push({ dir: itemPath, root: root.name, relativePath: qualifyRootPath(root, item.name), minuteName: item.name });
+        continue;
+      }
+      for (const child of fs.readdirSync(itemPath, { withFileTypes: true })) {
+        if (child.isDirectory() && MINUTE_RE.test(child.name)) {
+          candidateDirs.push({
+            dir: path.join(itemPath, child.name),
+            root: root.name,
+            relativePath: qualifyRootPath(root, path.join(item.name, child.name)),
+            minuteName: child.name,
+          });
+        }
       }
     }
   }
+  return candidateDirs;
+}
 
-  for (const candidate of candidateDirs) {
-    const minuteDir = candidate.dir;
-    const stat = fs.statSync(minuteDir);
-    const paths = getMinutePaths(minuteDir);
-    const manifest = readJsonPreview(paths.manifest);
-    const deviceInfo = extractDeviceInfo(manifest, minuteDir);
-    const manifestLabels = Array.from(new Set([...labelsFromMinutePath(candidate.relativePath), ...extractLabels(manifest)]));
-    const completed = Boolean(manifest?.capture_finished);
-    const minute = minuteIdFor(candidate.relativePath);
-    const progress = getMinuteProgress(paths, manifest);
-    const labels = resolvedMinuteLabels(manifestLabels, progress, completed);
-    minutes.push({
-      minute,
-      minuteName: candidate.minuteName,
-      relativePath: candidate.relativePath,
-      path: minuteDir,
-      modified: stat.mtime.toISOString(),
-      created: stat.birthtime.toISOString(),
-      deviceKey: deviceInfo.deviceKey,
-      deviceLabel: deviceInfo.deviceLabel,
-      labels,
-      completed,
-      state: completed ? 'ready' : 'collecting',
-      uploaded: deviceInfo.uploaded,
-      files: {
-        video: !!paths.video,
-        radar: !!paths.radar,
-        xy_tracking: !!paths.xyTracking,
-        csi: !!(paths.csiCsv || paths.csiTimestamped || paths.csiSerial),
-        manifest: !!paths.manifest,
-        predictions: !!paths.predictions,
-      },
-      sizes: {
-        video: paths.video ? fs.statSync(paths.video).size : 0,
-        radar: paths.radar ? fs.statSync(paths.radar).size : 0,
-        csi_csv: paths.csiCsv ? fs.statSync(paths.csiCsv).size : 0,
-        csi_timestamped: paths.csiTimestamped ? fs.statSync(paths.csiTimestamped).size : 0,
-        csi_serial: paths.csiSerial ? fs.statSync(paths.csiSerial).size : 0,
-      },
-      progress,
-      dataFiles: listMinuteDataFiles(minuteDir),
-      manifest,
-    });
-  }
+export function buildMinuteSummary(candidate: MinuteCandidate): MinuteSummary {
+  const minuteDir = candidate.dir;
+  const stat = fs.statSync(minuteDir);
+  const paths = getMinutePaths(minuteDir);
+  const manifest = readJsonPreview(paths.manifest);
+  const deviceInfo = extractDeviceInfo(manifest, minuteDir);
+  const manifestLabels = Array.from(new Set([...labelsFromMinutePath(candidate.relativePath), ...extractLabels(manifest)]));
+  const completed = Boolean(manifest?.capture_finished);
+  const minute = minuteIdFor(findDataRoot(candidate.root) || primaryDataRoot(), candidate.relativePath);
+  const progress = getMinuteProgress(paths, manifest);
+  const labels = resolvedMinuteLabels(manifestLabels, progress, completed);
+  return {
+    minute,
+    minuteName: candidate.minuteName,
+    root: candidate.root,
+    relativePath: candidate.relativePath,
+    path: minuteDir,
+    modified: stat.mtime.toISOString(),
+    created: stat.birthtime.toISOString(),
+    deviceKey: deviceInfo.deviceKey,
+    deviceLabel: deviceInfo.deviceLabel,
+    labels,
+    completed,
+    state: completed ? 'ready' : 'collecting',
+    uploaded: deviceInfo.uploaded,
+    files: {
+      video: !!paths.video,
+      radar: !!paths.radar,
+      xy_tracking: !!paths.xyTracking,
+      csi: !!(paths.csiCsv || paths.csiTimestamped || paths.csiSerial),
+      manifest: !!paths.manifest,
+      predictions: !!paths.predictions,
+    },
+    sizes: {
+      video: paths.video ? fs.statSync(paths.video).size : 0,
+      radar: paths.radar ? fs.statSync(paths.radar).size : 0,
+      csi_csv: paths.csiCsv ? fs.statSync(paths.csiCsv).size : 0,
+      csi_timestamped: paths.csiTimestamped ? fs.statSync(paths.csiTimestamped).size : 0,
+      csi_serial: paths.csiSerial ? fs.statSync(paths.csiSerial).size : 0,
+    },
+    progress,
+    dataFiles: listMinuteDataFiles(minuteDir),
+    manifest,
+  };
+}
 
-  minutes.sort((a, b) => b.minute.localeCompare(a.minute));
-  return minutes;
+export function listMinuteSummaries(): MinuteSummary[] {
+  return listIndexedMinuteSummaries();
 }
 
+// Minutes whose folder was moved keep answering to their old ID.
 export function getMinuteSummary(minute: string): MinuteSummary | null {
-  return listMinuteSummaries().find((m) => m.minute === minute) || null;
+  const summary = findIndexedMinute(minute);
+  if (summary) return summary;
+  const alias = resolveMinuteAlias(minute);
+  return alias ? findIndexedMinute(alias) : null;
 }
 
 export function getMinuteDetail(minute: string): MinuteDetail | null {
   const existingSummary = getMinuteSummary(minute);
   const parsed = MINUTE_ID_RE.exec(minute);
   if (!existingSummary && !parsed) return null;
+  const root = existingSummary ? findDataRoot(existingSummary.root) : dataRootForMinuteId(minute);
+  if (!root) return null;
   const minuteName = existingSummary?.minuteName || parsed?.groups?.minute || minute;
-  const minuteDir = existingSummary?.path || path.join(MINUTES_DATA_DIR, minuteName);
-  if (!fs.existsSync(minuteDir) || !fs.statSync(minuteDir).isDirectory()) return null;
+  const fallback = existingSummary
+    ? null
+    : resolveDataPath(qualifyRootPath(root, path.join(parsed?.groups?.label || '', minuteName)));
+  const minuteDir = existingSummary?.path || fallback?.path;
+  if (!minuteDir || !fs.existsSync(minuteDir) || !fs.statSync(minuteDir).isDirectory()) return null;
 
   const stat = fs.statSync(minuteDir);
   const paths = getMinutePaths(minuteDir);
   const manifest = readJsonPreview(paths.manifest);
   const deviceInfo = extractDeviceInfo(manifest, minuteDir);
-  const relativePath = existingSummary?.relativePath || minuteName;
+  const relativePath = existingSummary?.relativePath || qualifyRootPath(root, fallback?.relativePath || minuteName);
   const manifestLabels = Array.from(new Set([...labelsFromMinutePath(relativePath), ...extractLabels(manifest)]));
   const completed = Boolean(manifest?.capture_finished);
   const progress = getMinuteProgress(paths, manifest);
@@ -377,6 +445,7 @@ export function getMinuteDetail(minute: string): MinuteDetail | null {
   const summary = existingSummary || {
     minute,
     minuteName,
+    root: root.name,
     relativePath,
     path: minuteDir,
     modified: stat.mtime.toISOString(),
@@ -450,7 +519,7 @@ export function listMinuteDataFiles(minuteDir: string): MinuteDataFile[] {
       const stat = fs.statSync(filePath);
       return {
         filename: path.basename(filePath),
-        relativePath: path.relative(MINUTES_DATA_DIR, filePath).split(path.sep).join('/'),
+        relativePath: (relativeDataPath(filePath) || path.basename(filePath)).split(path.sep).join('/'),
         path: filePath,
         size: stat.size,
         modified: stat.mtime.toISOString(),
@@ -461,17 +530,17 @@ export function listMinuteDataFiles(minuteDir: string): MinuteDataFile[] {
 
 export function listLabeledMinuteGroups(): LabeledMinuteGroup[] {
   const groups = new Map<string, LabeledMinuteGroup>();
+  const taxonomy = readLabelTaxonomy();
 
   for (const minute of listMinuteSummaries()) {
     if (!minute.labels.length) continue;
-    const detail = getMinuteDetail(minute.minute);
-    const files = detail
-      ? listMinuteDataFiles(detail.path)
-      : listMinuteDataFiles(minute.path);
+    const files = minute.dataFiles || listMinuteDataFiles(minute.path);
     const fileCount = files.length;
     const totalSize = files.reduce((sum, file) => sum + file.size, 0);
 
-    for (const label of minute.labels) {
+    // Synonyms and case variants written before the taxonomy existed are
+    // grouped under their canonical label.
+    for (const label of mapLabels(minute.labels, taxonomy).labels) {
       const existing = groups.get(label) || {
         label,
         minutes: [],
@@ -508,23 +577,22 @@ function normalizePredictionLabels(value: unknown): string[] {
     .filter(Boolean);
 }
 
-export function collectPredictionTimelines(): Record<string, PredictionTimelineEntry[]> {
-  const timelines: Record<string, PredictionTimelineEntry[]> = {};
-
-  for (const minute of listMinuteSummaries()) {
-    const predictionPath = path.join(minute.path, 'predictions.json');
-    const prediction = readJsonPreview(predictionPath);
-    if (!prediction || typeof prediction !== 'object') continue;
-
-    const generatedAt = prediction.generated_at;
-    const labels = Array.from(new Set([...minute.labels, ...normalizePredictionLabels(prediction.labels)]));
-    const deployedModels = Array.isArray(prediction.deployed_models) ? prediction.deployed_models : [];
-    const timeline = Array.isArray(prediction.timeline) ? prediction.timeline : [];
-    const entries = timeline.length ? timeline : deployedModels;
-
-    if (entries.length) {
-      for (const item of entries) {
-        if (!item || typeof item !== 'object') continue;
+// One entry per model output stored in the minute's predictions.json: the
+// timeline (or deployed model list) when present, the top-level result otherwise.
+export function minutePredictionEntries(minute: MinuteSummary): PredictionTimelineEntry[] {
+  const prediction = readIndexedPredictions(minute);
+  if (!prediction || typeof prediction !== 'object') return [];
+
+  const generatedAt = prediction.generated_at;
+  const labels = Array.from(new Set([...minute.labels, ...normalizePredictionLabels(prediction.labels)]));
+  const deployedModels = Array.isArray(prediction.deployed_models) ? prediction.deployed_models : [];
+  const timeline = Array.isArray(prediction.timeline) ? prediction.timeline : [];
+  const entries = timeline.length ? timeline : deployedModels;
+
+  if (entries.length) {
+    return entries
+      .filter((item: any) => item && typeof item === 'object')
+      .map((item: any) => {
         const modelName = String(
           item.model_name ||
           item.model ||
@@ -532,34 +600,40 @@ export function collectPredictionTimelines(): Record<string, PredictionTimelineE
           item.name ||
           'default'
         ).trim() || 'default';
-
-        if (!timelines[modelName]) timelines[modelName] = [];
-        timelines[modelName].push({
+        return {
           minute: minute.minute,
           minuteName: minute.minuteName,
           generated_at: generatedAt,
           labels,
           model_name: modelName,
           ...item,
-        });
-      }
-      continue;
-    }
+        };
+      });
+  }
 
-    const modelName = String(prediction.model_name || prediction.model || 'default').trim() || 'default';
-    if (!timelines[modelName]) timelines[modelName] = [];
-    timelines[modelName].push({
-      minute: minute.minute,
-      minuteName: minute.minuteName,
-      generated_at: generatedAt,
-      labels,
-      model_name: modelName,
-      prediction: prediction.prediction || prediction.label || prediction.occupied,
-      probability: prediction.probability || prediction.confidence || null,
-      confidence: prediction.confidence || null,
-      status: prediction.status,
-      error: prediction.error,
-    });
+  const modelName = String(prediction.model_name || prediction.model || 'default').trim() || 'default';
+  return [{
+    minute: minute.minute,
+    minuteName: minute.minuteName,
+    generated_at: generatedAt,
+    labels,
+    model_name: modelName,
+    prediction: prediction.prediction || prediction.label || prediction.occupied,
+    probability: prediction.probability || prediction.confidence || null,
+    confidence: prediction.confidence || null,
+    status: prediction.status,
+    error: prediction.error,
+  }];
+}
+
+export function collectPredictionTimelines(): Record<string, PredictionTimelineEntry[]> {
+  const timelines: Record<string, PredictionTimelineEntry[]> = {};
+
+  for (const minute of listMinuteSummaries()) {
+    for (const entry of minutePredictionEntries(minute)) {
+      if (!timelines[entry.model_name]) timelines[entry.model_name] = [];
+      timelines[entry.model_name].push(entry);
+    }
   }
 
   for (const modelName of Object.keys(timelines)) {
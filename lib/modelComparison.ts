@@ -0,0 +1,185 @@
+import { getMinuteSummary, listMinuteSummaries, minutePredictionEntries } from '@/lib/minutes';
+import type { MinuteSummary, PredictionTimelineEntry } from '@/lib/minutes';
+import { readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+import { predictedClass, predictionDay } from '@/lib/predictionEvaluation';
+
+const MAX_DISAGREEMENTS = 500;
+// Hotspot buckets need this many shared chunks before their rate means much.
+const MIN_HOTSPOT_SUPPORT = 5;
+
+export type ModelOutput = {
+  predicted: string | null;
+  probability: number | null;
+};
+
+export type PairAgreement = {
+  a: string;
+  b: string;
+  shared: number;
+  agreed: number;
+  rate: number | null;
+};
+
+export type DisagreementHotspot = {
+  dimension: 'device' | 'day' | 'hour' | 'chunk';
+  key: string;
+  shared: number;
+  disagreed: number;
+  rate: number;
+};
+
+export type ChunkDisagreement = {
+  minute: string;
+  minuteName: string;
+  deviceKey: string;
+  deviceId: string;
+  chunk_index: number | null;
+  outputs: Record<string, ModelOutput>;
+};
+
+export type ComparisonFilters = {
+  models?: string[];
+  deviceKey?: string | null;
+  from?: string | null;
+  to?: string | null;
+};
+
+function numberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Outputs without a chunk index describe the whole minute and align with the
+// other models' whole-minute outputs.
+function chunkKey(entry: PredictionTimelineEntry): string {
+  const index = numberOrNull(entry.chunk_index);
+  return index === null ? 'minute' : String(index);
+}
+
+function deviceId(summary: MinuteSummary): string {
+  return String(summary.manifest?.device_uuid || summary.manifest?.device_id || summary.deviceKey);
+}
+
+function alignMinute(summary: MinuteSummary, taxonomy: LabelTaxonomy) {
+  const aligned = new Map<string, Record<string, ModelOutput>>();
+  minutePredictionEntries(summary).forEach((entry) => {
+    const key = chunkKey(entry);
+    const outputs = aligned.get(key) || {};
+    outputs[entry.model_name] = {
+      predicted: predictedClass(entry, taxonomy),
+      probability: numberOrNull(entry.probability ?? entry.confidence),
+    };
+    aligned.set(key, outputs);
+  });
+  return aligned;
+}
+
+// Aligns every model's per-chunk output on the minutes they share and reports
+// how often they agree, overall, per pair and per device/day/hour/chunk.
+export function compareModels(filters: ComparisonFilters = {}) {
+  const taxonomy = readLabelTaxonomy();
+  const selected = filters.models && filters.models.length ? filters.models : null;
+  const from = filters.from ? filters.from.replace(/-/g, '') : '';
+  const to = filters.to ? filters.to.replace(/-/g, '') : '';
+
+  const allModels = new Set<string>();
+  const pairs = new Map<string, PairAgreement>();
+  const hotspots = new Map<string, DisagreementHotspot>();
+  const disagreements: ChunkDisagreement[] = [];
+  let shared = 0;
+  let unanimous = 0;
+
+  const addHotspot = (dimension: DisagreementHotspot['dimension'], key: string, disagreed: boolean) => {
+    const id = `${dimension}:${key}`;
+    const bucket = hotspots.get(id) || { dimension, key, shared: 0, disagreed: 0, rate: 0 };
+    bucket.shared += 1;
+    if (disagreed) bucket.disagreed += 1;
+    bucket.rate = bucket.disagreed / bucket.shared;
+    hotspots.set(id, bucket);
+  };
+
+  const summaries = listMinuteSummaries();
+  const devices = Array.from(new Set(summaries.map((summary) => summary.deviceKey))).sort();
+
+  summaries
+    .filter((summary) => {
+      const day = summary.minuteName.slice(0, 8);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      return !filters.deviceKey || summary.deviceKey === filters.deviceKey;
+    })
+    .sort((a, b) => b.minuteName.localeCompare(a.minuteName))
+    .forEach((summary) => {
+      alignMinute(summary, taxonomy).forEach((outputs, key) => {
+        Object.keys(outputs).forEach((model) => allModels.add(model));
+        const models = Object.keys(outputs)
+          .filter((model) => (!selected || selected.includes(model)) && outputs[model].predicted !== null)
+          .sort();
+        if (models.length < 2) return;
+
+        models.forEach((a, index) => models.slice(index + 1).forEach((b) => {
+          const pairKey = `${a}\u0000${b}`;
+          const pair = pairs.get(pairKey) || { a, b, shared: 0, agreed: 0, rate: null };
+          pair.shared += 1;
+          if (outputs[a].predicted === outputs[b].predicted) pair.agreed += 1;
+          pair.rate = pair.agreed / pair.shared;
+          pairs.set(pairKey, pair);
+        }));
+
+        shared += 1;
+        const agreed = new Set(models.map((model) => outputs[model].predicted)).size === 1;
+        if (agreed) unanimous += 1;
+        addHotspot('device', summary.deviceKey, !agreed);
+        addHotspot('day', predictionDay(summary), !agreed);
+        addHotspot('hour', `${summary.minuteName.slice(9, 11) || '??'}:00`, !agreed);
+        addHotspot('chunk', key, !agreed);
+        if (!agreed) {
+          disagreements.push({
+            minute: summary.minute,
+            minuteName: summary.minuteName,
+            deviceKey: summary.deviceKey,
+            deviceId: deviceId(summary),
+            chunk_index: key === 'minute' ? null : Number(key),
+            outputs: Object.fromEntries(models.map((model) => [model, outputs[model]])),
+          });
+        }
+      });
+    });
+
+  return {
+    models: Array.from(allModels).sort(),
+    compared: selected || Array.from(allModels).sort(),
+    devices,
+    shared,
+    unanimous,
+    agreementRate: shared ? unanimous / shared : null,
+    pairs: Array.from(pairs.values()).sort((a, b) => a.a.localeCompare(b.a) || a.b.localeCompare(b.b)),
+    hotspots: Array.from(hotspots.values())
+      .filter((bucket) => bucket.shared >= MIN_HOTSPOT_SUPPORT && bucket.disagreed > 0)
+      .sort((a, b) => b.rate - a.rate || b.disagreed - a.disagreed)
+      .slice(0, 20),
+    disagreements: disagreements.slice(0, MAX_DISAGREEMENTS),
+    disagreementCount: disagreements.length,
+  };
+}
+
+// The raw outputs of every model for one chunk (or the whole minute when
+// `chunk` is null), including heatmaps and maps the comparison leaves out.
+export function comparisonChunkOutputs(minute: string, chunk: number | null) {
+  const summary = getMinuteSummary(minute);
+  if (!summary) return null;
+  const entries = minutePredictionEntries(summary).filter((entry) => (
+    chunk === null ? chunkKey(entry) === 'minute' : numberOrNull(entry.chunk_index) === chunk
+  ));
+  return {
+    minute: summary.minute,
+    minuteName: summary.minuteName,
+    deviceKey: summary.deviceKey,
+    deviceId: deviceId(summary),
+    labels: summary.labels,
+    chunk_index: chunk,
+    entries,
+  };
+}
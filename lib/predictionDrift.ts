@@ -0,0 +1,262 @@
+import { collectPredictionTimelines } from '@/lib/minutes';
+import type { PredictionTimelineEntry } from '@/lib/minutes';
+import { readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import { predictedClass, predictionDay, predictionDevices } from '@/lib/predictionEvaluation';
+
+export const DEFAULT_BASELINE_DAYS = 7;
+export const DEFAULT_DRIFT_ALPHA = 0.01;
+// Days with fewer predictions than this are charted but never flagged: a
+// handful of chunks shifts any distribution.
+const MIN_DRIFT_SAMPLES = 20;
+const HISTOGRAM_BINS = 10;
+
+export type ShiftTest = {
+  statistic: number;
+  pValue: number;
+  df?: number;
+};
+
+export type DistributionSummary = {
+  count: number;
+  confidenceCount: number;
+  meanConfidence: number | null;
+  // Share of confidences per tenth of [0, 1].
+  histogram: number[];
+  classMix: Record<string, number>;
+};
+
+export type DriftDay = DistributionSummary & {
+  day: string;
+  inBaseline: boolean;
+  confidenceShift: ShiftTest | null;
+  mixShift: ShiftTest | null;
+  flagged: boolean;
+};
+
+export type DriftSeries = {
+  model: string;
+  deviceKey: string;
+  classes: string[];
+  baseline: DistributionSummary & { from: string | null; to: string | null };
+  days: DriftDay[];
+  flaggedDays: number;
+};
+
+export type DriftOptions = {
+  model?: string | null;
+  deviceKey?: string | null;
+  baselineDays?: number;
+  baselineFrom?: string | null;
+  baselineTo?: string | null;
+  alpha?: number;
+};
+
+type Sample = { day: string; confidence: number | null; predicted: string | null };
+
+// Models report either a confidence in the predicted class or the probability
+// of the positive class; prefer the explicit confidence.
+function sampleConfidence(entry: PredictionTimelineEntry): number | null {
+  const raw = entry.confidence ?? entry.probability;
+  if (raw === null || raw === undefined) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : null;
+}
+
+function summarize(samples: Sample[]): DistributionSummary {
+  const confidences = samples.map((sample) => sample.confidence).filter((value): value is number => value !== null);
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, () => 0);
+  confidences.forEach((value) => {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(value * HISTOGRAM_BINS))] += 1;
+  });
+  const classMix: Record<string, number> = {};
+  samples.forEach((sample) => {
+    if (sample.predicted) classMix[sample.predicted] = (classMix[sample.predicted] || 0) + 1;
+  });
+  return {
+    count: samples.length,
+    confidenceCount: confidences.length,
+    meanConfidence: confidences.length ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : null,
+    histogram: histogram.map((count) => (confidences.length ? count / confidences.length : 0)),
+    classMix,
+  };
+}
+
+// Two-sample Kolmogorov–Smirnov test with the asymptotic p-value
+// (Numerical Recipes' effective-n correction).
+function ksTest(a: number[], b: number[]): ShiftTest | null {
+  if (a.length < MIN_DRIFT_SAMPLES || b.length < MIN_DRIFT_SAMPLES) return null;
+  const x = a.slice().sort((left, right) => left - right);
+  const y = b.slice().sort((left, right) => left - right);
+  let i = 0;
+  let j = 0;
+  let d = 0;
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] === value) i += 1;
+    while (j < y.length && y[j] === value) j += 1;
+    d = Math.max(d, Math.abs(i / x.length - j / y.length));
+  }
+  const effective = Math.sqrt((x.length * y.length) / (x.length + y.length));
+  const lambda = (effective + 0.12 + 0.11 / effective) * d;
+  let pValue = 1;
+  if (lambda >= 0.2) {
+    pValue = 0;
+    for (let k = 1; k <= 100; k += 1) {
+      const term = 2 * (k % 2 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+      pValue += term;
+      if (Math.abs(term) < 1e-10) break;
+    }
+  }
+  return { statistic: d, pValue: Math.min(1, Math.max(0, pValue)) };
+}
+
+function logGamma(value: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = value;
+  const tmp = value + 5.5 - (value + 0.5) * Math.log(value + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach((coefficient) => {
+    y += 1;
+    series += coefficient / y;
+  });
+  return -tmp + Math.log((2.5066282746310005 * series) / value);
+}
+
+// Upper regularized incomplete gamma Q(a, x), the chi-square survival function
+// for a = df / 2 and x = statistic / 2.
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const lnPrefix = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n += 1) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(lnPrefix));
+  }
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n += 1) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.min(1, Math.exp(lnPrefix) * h);
+}
+
+// Chi-square test of homogeneity between the baseline and a day's class counts.
+function mixTest(baseline: Record<string, number>, day: Record<string, number>): ShiftTest | null {
+  const classes = Array.from(new Set([...Object.keys(baseline), ...Object.keys(day)]));
+  const baselineTotal = classes.reduce((sum, label) => sum + (baseline[label] || 0), 0);
+  const dayTotal = classes.reduce((sum, label) => sum + (day[label] || 0), 0);
+  if (classes.length < 2 || baselineTotal < MIN_DRIFT_SAMPLES || dayTotal < MIN_DRIFT_SAMPLES) return null;
+  const total = baselineTotal + dayTotal;
+  let statistic = 0;
+  classes.forEach((label) => {
+    const columnTotal = (baseline[label] || 0) + (day[label] || 0);
+    [[baseline[label] || 0, baselineTotal], [day[label] || 0, dayTotal]].forEach(([observed, rowTotal]) => {
+      const expected = (rowTotal * columnTotal) / total;
+      statistic += ((observed - expected) ** 2) / expected;
+    });
+  });
+  const df = classes.length - 1;
+  return { statistic, df, pValue: gammaQ(df / 2, statistic / 2) };
+}
+
+function buildSeries(model: string, deviceKey: string, samples: Sample[], options: Required<Pick<DriftOptions, 'baselineDays' | 'alpha'>> & DriftOptions): DriftSeries {
+  const byDay = new Map<string, Sample[]>();
+  samples.forEach((sample) => {
+    const list = byDay.get(sample.day);
+    if (list) list.push(sample);
+    else byDay.set(sample.day, [sample]);
+  });
+  const days = Array.from(byDay.keys()).sort();
+  const baselineDays = new Set(options.baselineFrom || options.baselineTo
+    ? days.filter((day) => (!options.baselineFrom || day >= options.baselineFrom) && (!options.baselineTo || day <= options.baselineTo))
+    : days.slice(0, options.baselineDays));
+  const baselineSamples = samples.filter((sample) => baselineDays.has(sample.day));
+  const baseline = summarize(baselineSamples);
+  const baselineConfidences = baselineSamples.map((sample) => sample.confidence).filter((value): value is number => value !== null);
+  const baselineList = days.filter((day) => baselineDays.has(day));
+
+  const driftDays = days.map((day) => {
+    const daySamples = byDay.get(day) || [];
+    const summary = summarize(daySamples);
+    const inBaseline = baselineDays.has(day);
+    const confidenceShift = inBaseline ? null : ksTest(
+      baselineConfidences,
+      daySamples.map((sample) => sample.confidence).filter((value): value is number => value !== null)
+    );
+    const mixShift = inBaseline ? null : mixTest(baseline.classMix, summary.classMix);
+    return {
+      day,
+      ...summary,
+      inBaseline,
+      confidenceShift,
+      mixShift,
+      flagged: Boolean((confidenceShift && confidenceShift.pValue < options.alpha) || (mixShift && mixShift.pValue < options.alpha)),
+    };
+  });
+
+  return {
+    model,
+    deviceKey,
+    classes: Array.from(new Set(samples.map((sample) => sample.predicted).filter(Boolean) as string[])).sort(),
+    baseline: { ...baseline, from: baselineList[0] || null, to: baselineList[baselineList.length - 1] || null },
+    days: driftDays,
+    flaggedDays: driftDays.filter((day) => day.flagged).length,
+  };
+}
+
+// One series per model and device, with each day after the baseline window
+// tested for a shift in confidence (KS) and predicted-class mix (chi-square).
+export function analyzePredictionDrift(options: DriftOptions = {}) {
+  const taxonomy = readLabelTaxonomy();
+  const devices = predictionDevices();
+  const timelines = collectPredictionTimelines();
+  const settings = {
+    ...options,
+    baselineDays: options.baselineDays || DEFAULT_BASELINE_DAYS,
+    alpha: options.alpha || DEFAULT_DRIFT_ALPHA,
+  };
+
+  const series: DriftSeries[] = [];
+  Object.keys(timelines).sort().forEach((model) => {
+    if (options.model && model !== options.model) return;
+    const byDevice = new Map<string, Sample[]>();
+    timelines[model].forEach((entry) => {
+      const day = predictionDay(entry);
+      if (day === 'unknown') return;
+      const deviceKey = devices.get(entry.minute)?.deviceKey || 'unknown';
+      if (options.deviceKey && deviceKey !== options.deviceKey) return;
+      const sample = { day, confidence: sampleConfidence(entry), predicted: predictedClass(entry, taxonomy) };
+      const list = byDevice.get(deviceKey);
+      if (list) list.push(sample);
+      else byDevice.set(deviceKey, [sample]);
+    });
+    Array.from(byDevice.keys()).sort().forEach((deviceKey) => {
+      series.push(buildSeries(model, deviceKey, byDevice.get(deviceKey) || [], settings));
+    });
+  });
+
+  return {
+    models: Object.keys(timelines).sort(),
+    devices: Array.from(new Set(Array.from(devices.values()).map((device) => device.deviceKey))).sort(),
+    baselineDays: settings.baselineDays,
+    alpha: settings.alpha,
+    minSamples: MIN_DRIFT_SAMPLES,
+    series,
+  };
+}
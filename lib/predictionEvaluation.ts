@@ -0,0 +1,249 @@
+import { collectPredictionTimelines, listMinuteSummaries, manualMinuteLabels } from '@/lib/minutes';
+import type { PredictionTimelineEntry } from '@/lib/minutes';
+import { canonicalLabel, findTaxonomyLabel, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+
+const MAX_MISCLASSIFIED = 500;
+
+export type ClassMetrics = {
+  label: string;
+  support: number;
+  predicted: number;
+  truePositives: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+};
+
+export type AccuracyBucket = {
+  key: string;
+  total: number;
+  correct: number;
+  accuracy: number | null;
+};
+
+export type Misclassification = {
+  minute: string;
+  minuteName: string;
+  deviceKey: string;
+  deviceId: string;
+  chunk_index: number | null;
+  predicted: string;
+  actual: string;
+  probability: number | null;
+};
+
+export type ModelEvaluation = {
+  model: string;
+  classes: string[];
+  // matrix[actual][predicted], indexed like `classes`.
+  matrix: number[][];
+  perClass: ClassMetrics[];
+  evaluated: number;
+  correct: number;
+  accuracy: number | null;
+  macroF1: number | null;
+  // Predictions that could not be scored: no usable ground-truth label, more
+  // than one candidate label, or an unreadable prediction value.
+  unlabeled: number;
+  ambiguous: number;
+  unscored: number;
+  byDay: AccuracyBucket[];
+  byDevice: AccuracyBucket[];
+  misclassified: Misclassification[];
+  misclassifiedCount: number;
+};
+
+export type EvaluationFilters = {
+  model?: string | null;
+  deviceKey?: string | null;
+  from?: string | null;
+  to?: string | null;
+};
+
+export type PredictionDevice = { deviceKey: string; deviceId: string };
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  const number = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(number) ? number : null;
+}
+
+// Occupancy models report a boolean; classifiers report a label. Both end up
+// as a canonical taxonomy label so they compare against manual labels.
+export function predictedClass(entry: PredictionTimelineEntry, taxonomy: LabelTaxonomy): string | null {
+  const value = typeof entry.occupied === 'boolean' ? entry.occupied : entry.prediction ?? entry.label;
+  if (typeof value === 'boolean') return value ? 'occupied' : 'empty';
+  if (typeof value === 'string' && value.trim()) return canonicalLabel(value.trim().toLowerCase(), taxonomy);
+  if (entry.status === 'occupied' || entry.status === 'empty') return entry.status;
+  return null;
+}
+
+// The ground truth is the minute label that belongs to the same set of classes
+// as the model's predictions: either one the model has predicted, or one from
+// the same taxonomy category (an occupancy model is scored on occupied/empty
+// and ignores activity labels).
+function actualClass(labels: string[], classes: Set<string>, categories: Set<string>, taxonomy: LabelTaxonomy) {
+  const candidates = Array.from(new Set(labels.map((label) => canonicalLabel(label, taxonomy)))).filter((label) => {
+    if (classes.has(label)) return true;
+    const category = findTaxonomyLabel(taxonomy, label)?.category;
+    return Boolean(category && categories.has(category));
+  });
+  if (!candidates.length) return { label: null, ambiguous: false };
+  if (candidates.length > 1) return { label: null, ambiguous: true };
+  return { label: candidates[0], ambiguous: false };
+}
+
+// Timeline entries only carry the minute ID; the device comes from the summary.
+export function predictionDevices(): Map<string, PredictionDevice> {
+  const devices = new Map<string, PredictionDevice>();
+  listMinuteSummaries().forEach((summary) => {
+    devices.set(summary.minute, {
+      deviceKey: summary.deviceKey,
+      deviceId: String(summary.manifest?.device_uuid || summary.manifest?.device_id || summary.deviceKey),
+    });
+  });
+  return devices;
+}
+
+// Ground truth comes from the labels people wrote to the manifest. Timeline
+// entries also carry labels derived from the predictions themselves for
+// minutes nobody labelled, and scoring those would grade a model against its
+// own output.
+function manualLabelsByMinute(taxonomy: LabelTaxonomy): Map<string, string[]> {
+  const labels = new Map<string, string[]>();
+  listMinuteSummaries().forEach((summary) => {
+    labels.set(summary.minute, manualMinuteLabels(summary, taxonomy));
+  });
+  return labels;
+}
+
+export function predictionDay(entry: Pick<PredictionTimelineEntry, 'minuteName'>): string {
+  return /^\d{8}/.test(entry.minuteName)
+    ? `${entry.minuteName.slice(0, 4)}-${entry.minuteName.slice(4, 6)}-${entry.minuteName.slice(6, 8)}`
+    : 'unknown';
+}
+
+function addBucket(buckets: Map<string, AccuracyBucket>, key: string, correct: boolean) {
+  const bucket = buckets.get(key) || { key, total: 0, correct: 0, accuracy: null };
+  bucket.total += 1;
+  if (correct) bucket.correct += 1;
+  bucket.accuracy = ratio(bucket.correct, bucket.total);
+  buckets.set(key, bucket);
+}
+
+function evaluateModel(
+  model: string,
+  entries: PredictionTimelineEntry[],
+  devices: Map<string, PredictionDevice>,
+  manualLabels: Map<string, string[]>,
+  taxonomy: LabelTaxonomy
+): ModelEvaluation {
+  const predictions = entries.map((entry) => ({ entry, predicted: predictedClass(entry, taxonomy) }));
+  const predictedClasses = new Set(predictions.map((item) => item.predicted).filter(Boolean) as string[]);
+  const categories = new Set<string>();
+  predictedClasses.forEach((label) => {
+    const category = findTaxonomyLabel(taxonomy, label)?.category;
+    if (category) categories.add(category);
+  });
+
+  const pairs: Array<{ entry: PredictionTimelineEntry; predicted: string; actual: string }> = [];
+  let unlabeled = 0;
+  let ambiguous = 0;
+  let unscored = 0;
+  predictions.forEach(({ entry, predicted }) => {
+    if (!predicted) {
+      unscored += 1;
+      return;
+    }
+    const actual = actualClass(manualLabels.get(entry.minute) || [], predictedClasses, categories, taxonomy);
+    if (actual.ambiguous) ambiguous += 1;
+    else if (!actual.label) unlabeled += 1;
+    else pairs.push({ entry, predicted, actual: actual.label });
+  });
+
+  const classes = Array.from(new Set(pairs.flatMap((pair) => [pair.actual, pair.predicted]))).sort();
+  const matrix = classes.map(() => classes.map(() => 0));
+  const byDay = new Map<string, AccuracyBucket>();
+  const byDevice = new Map<string, AccuracyBucket>();
+  const misclassified: Misclassification[] = [];
+  pairs.forEach(({ entry, predicted, actual }) => {
+    matrix[classes.indexOf(actual)][classes.indexOf(predicted)] += 1;
+    const correct = predicted === actual;
+    const device = devices.get(entry.minute);
+    addBucket(byDay, predictionDay(entry), correct);
+    addBucket(byDevice, device?.deviceKey || 'unknown', correct);
+    if (!correct) {
+      misclassified.push({
+        minute: entry.minute,
+        minuteName: entry.minuteName,
+        deviceKey: device?.deviceKey || 'unknown',
+        deviceId: device?.deviceId || 'unknown',
+        chunk_index: numberOrNull(entry.chunk_index),
+        predicted,
+        actual,
+        probability: numberOrNull(entry.probability ?? entry.confidence),
+      });
+    }
+  });
+
+  const perClass = classes.map((label, index) => {
+    const truePositives = matrix[index][index];
+    const support = matrix[index].reduce((sum, count) => sum + count, 0);
+    const predictedCount = matrix.reduce((sum, row) => sum + row[index], 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    const f1 = precision !== null && recall !== null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : precision !== null || recall !== null ? 0 : null;
+    return { label, support, predicted: predictedCount, truePositives, precision, recall, f1 };
+  });
+  const scoredF1 = perClass.filter((item) => item.support > 0 && item.f1 !== null).map((item) => item.f1 as number);
+  const correct = classes.reduce((sum, _, index) => sum + matrix[index][index], 0);
+  misclassified.sort((a, b) => b.minute.localeCompare(a.minute) || (a.chunk_index ?? -1) - (b.chunk_index ?? -1));
+
+  return {
+    model,
+    classes,
+    matrix,
+    perClass,
+    evaluated: pairs.length,
+    correct,
+    accuracy: ratio(correct, pairs.length),
+    macroF1: scoredF1.length ? scoredF1.reduce((sum, value) => sum + value, 0) / scoredF1.length : null,
+    unlabeled,
+    ambiguous,
+    unscored,
+    byDay: Array.from(byDay.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byDevice: Array.from(byDevice.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    misclassified: misclassified.slice(0, MAX_MISCLASSIFIED),
+    misclassifiedCount: misclassified.length,
+  };
+}
+
+// Scores every model's predictions against the manual minute labels. Date
+// filters are inclusive YYYY-MM-DD days on the minute name.
+export function evaluatePredictions(filters: EvaluationFilters = {}) {
+  const taxonomy = readLabelTaxonomy();
+  const devices = predictionDevices();
+  const manualLabels = manualLabelsByMinute(taxonomy);
+
+  const from = filters.from ? filters.from.replace(/-/g, '') : '';
+  const to = filters.to ? filters.to.replace(/-/g, '') : '';
+  const timelines = collectPredictionTimelines();
+  const models = Object.keys(timelines).sort();
+  const evaluations = models
+    .filter((model) => !filters.model || model === filters.model)
+    .map((model) => evaluateModel(model, timelines[model].filter((entry) => {
+      const day = entry.minuteName.slice(0, 8);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      return !filters.deviceKey || devices.get(entry.minute)?.deviceKey === filters.deviceKey;
+    }), devices, manualLabels, taxonomy));
+
+  const deviceKeys = Array.from(new Set(Array.from(devices.values()).map((device) => device.deviceKey))).sort();
+  return { models, devices: deviceKeys, evaluations };
+}
@@ -0,0 +1,226 @@
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer';
+import type { BasicType } from 'hyparquet-writer';
+import { listMinuteSummaries, minutePredictionEntries } from '@/lib/minutes';
+import type { MinuteSummary, PredictionTimelineEntry } from '@/lib/minutes';
+import { csvLine } from '@/lib/csv';
+
+export const PREDICTION_EXPORT_FORMATS = ['csv', 'jsonl', 'parquet'] as const;
+
+export type PredictionExportFormat = typeof PREDICTION_EXPORT_FORMATS[number];
+
+export type PredictionExportFilters = {
+  models?: string[];
+  deviceKey?: string | null;
+  // Inclusive YYYY-MM-DD days, compared with the minute name.
+  from?: string | null;
+  to?: string | null;
+};
+
+export type PredictionExportRow = {
+  model: string;
+  minute: string;
+  minute_name: string;
+  day: string;
+  device_key: string;
+  device_label: string;
+  generated_at: string | null;
+  chunk_index: number | null;
+  prediction: string | null;
+  probability: number | null;
+  confidence: number | null;
+  status: string | null;
+  classification: string | null;
+  location: string | null;
+  location_x: number | null;
+  location_y: number | null;
+  ratio: number | null;
+  score: number | null;
+  labels: string[];
+  error: string | null;
+};
+
+// Column order of every format, with the Parquet type of each column.
+const EXPORT_COLUMNS: Array<{ name: keyof PredictionExportRow; type: BasicType }> = [
+  { name: 'model', type: 'STRING' },
+  { name: 'minute', type: 'STRING' },
+  { name: 'minute_name', type: 'STRING' },
+  { name: 'day', type: 'STRING' },
+  { name: 'device_key', type: 'STRING' },
+  { name: 'device_label', type: 'STRING' },
+  { name: 'generated_at', type: 'STRING' },
+  { name: 'chunk_index', type: 'INT32' },
+  { name: 'prediction', type: 'STRING' },
+  { name: 'probability', type: 'DOUBLE' },
+  { name: 'confidence', type: 'DOUBLE' },
+  { name: 'status', type: 'STRING' },
+  { name: 'classification', type: 'STRING' },
+  { name: 'location', type: 'STRING' },
+  { name: 'location_x', type: 'DOUBLE' },
+  { name: 'location_y', type: 'DOUBLE' },
+  { name: 'ratio', type: 'DOUBLE' },
+  { name: 'score', type: 'DOUBLE' },
+  { name: 'labels', type: 'STRING' },
+  { name: 'error', type: 'STRING' },
+];
+
+// Rows per Parquet row group; also the most rows held in memory at once.
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+function numberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function minuteDay(minuteName: string): string {
+  return /^\d{8}/.test(minuteName)
+    ? `${minuteName.slice(0, 4)}-${minuteName.slice(4, 6)}-${minuteName.slice(6, 8)}`
+    : '';
+}
+
+// Locations come as {x, y}, [x, y] or a free-form zone name.
+function locationCoordinates(location: any): { x: number | null; y: number | null } {
+  if (Array.isArray(location)) return { x: numberOrNull(location[0]), y: numberOrNull(location[1]) };
+  if (location && typeof location === 'object') return { x: numberOrNull(location.x), y: numberOrNull(location.y) };
+  return { x: null, y: null };
+}
+
+export function flattenPredictionEntry(entry: PredictionTimelineEntry, summary: MinuteSummary): PredictionExportRow {
+  const coordinates = locationCoordinates(entry.location);
+  return {
+    model: entry.model_name,
+    minute: entry.minute,
+    minute_name: entry.minuteName,
+    day: minuteDay(entry.minuteName),
+    device_key: summary.deviceKey,
+    device_label: summary.deviceLabel,
+    generated_at: stringOrNull(entry.generated_at),
+    chunk_index: numberOrNull(entry.chunk_index),
+    prediction: stringOrNull(entry.prediction ?? (typeof entry.occupied === 'boolean' ? (entry.occupied ? 'occupied' : 'empty') : null)),
+    probability: numberOrNull(entry.probability),
+    confidence: numberOrNull(entry.confidence),
+    status: stringOrNull(entry.status),
+    classification: stringOrNull(entry.classification),
+    location: stringOrNull(entry.location),
+    location_x: coordinates.x,
+    location_y: coordinates.y,
+    ratio: numberOrNull(entry.ratio),
+    score: numberOrNull(entry.score),
+    labels: Array.isArray(entry.labels) ? entry.labels.map(String) : [],
+    error: stringOrNull(entry.error),
+  };
+}
+
+// Minutes are read one at a time in chronological order, so an export never
+// holds more than one minute's predictions.
+export function* iteratePredictionRows(filters: PredictionExportFilters = {}): Generator<PredictionExportRow> {
+  const from = filters.from ? filters.from.replace(/-/g, '') : '';
+  const to = filters.to ? filters.to.replace(/-/g, '') : '';
+  const minutes = listMinuteSummaries()
+    .filter((summary) => {
+      const day = summary.minuteName.slice(0, 8);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      return !filters.deviceKey || summary.deviceKey === filters.deviceKey;
+    })
+    .sort((a, b) => a.minuteName.localeCompare(b.minuteName) || a.minute.localeCompare(b.minute));
+
+  for (const summary of minutes) {
+    for (const entry of minutePredictionEntries(summary)) {
+      if (filters.models?.length && !filters.models.includes(entry.model_name)) continue;
+      yield flattenPredictionEntry(entry, summary);
+    }
+  }
+}
+
+// Writer whose bytes are handed to the stream after every row group instead
+// of accumulating for the whole file.
+class ChunkedByteWriter extends ByteWriter {
+  chunks: Uint8Array[] = [];
+
+  flush() {
+    if (!this.index) return;
+    this.chunks.push(new Uint8Array(this.buffer.slice(0, this.index)));
+    this.index = 0;
+  }
+
+  take(): Uint8Array[] {
+    this.flush();
+    const chunks = this.chunks;
+    this.chunks = [];
+    return chunks;
+  }
+}
+
+function parquetColumns(rows: PredictionExportRow[]) {
+  return EXPORT_COLUMNS.map(({ name, type }) => ({
+    name,
+    type,
+    nullable: true,
+    data: rows.map((row) => (name === 'labels' ? row.labels.join(';') : row[name])) as any[],
+  }));
+}
+
+export function predictionExportStream(format: PredictionExportFormat, filters: PredictionExportFilters = {}): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const rows = iteratePredictionRows(filters);
+  let started = false;
+  let parquet: { writer: ChunkedByteWriter; file: ParquetWriter } | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      try {
+        if (format === 'parquet') {
+          if (!parquet) {
+            const writer = new ChunkedByteWriter();
+            const schema = schemaFromColumnData({ columnData: parquetColumns([]) });
+            parquet = { writer, file: new ParquetWriter({ writer, schema }) };
+          }
+          const batch: PredictionExportRow[] = [];
+          let next = rows.next();
+          while (!next.done) {
+            batch.push(next.value);
+            if (batch.length >= PARQUET_ROW_GROUP_SIZE) break;
+            next = rows.next();
+          }
+          if (batch.length) parquet.file.write({ columnData: parquetColumns(batch), rowGroupSize: PARQUET_ROW_GROUP_SIZE });
+          if (next.done) parquet.file.finish();
+          parquet.writer.take().forEach((chunk) => controller.enqueue(chunk));
+          if (next.done) controller.close();
+          return;
+        }
+
+        if (!started && format === 'csv') controller.enqueue(encoder.encode(csvLine(EXPORT_COLUMNS.map((column) => column.name))));
+        started = true;
+        // Emit a few hundred rows per pull so the consumer's backpressure applies.
+        let text = '';
+        for (let count = 0; count < 500; count += 1) {
+          const next = rows.next();
+          if (next.done) {
+            if (text) controller.enqueue(encoder.encode(text));
+            controller.close();
+            return;
+          }
+          const row = next.value;
+          text += format === 'csv'
+            ? csvLine(EXPORT_COLUMNS.map((column) => row[column.name]))
+            : `${JSON.stringify(row)}\n`;
+        }
+        controller.enqueue(encoder.encode(text));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+}
+
+export function predictionExportContentType(format: PredictionExportFormat): string {
+  if (format === 'csv') return 'text/csv; charset=utf-8';
+  if (format === 'jsonl') return 'application/x-ndjson';
+  return 'application/vnd.apache.parquet';
+}
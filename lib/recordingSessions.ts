@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { MINUTES_DATA_DIR, listMinuteSummaries, manualMinuteLabels, minuteDate } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { mapLabels, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+import { minuteUsageByKind } from '@/lib/storageUsage';
+import type { SensorKind } from '@/lib/storageUsage';
+
+const SESSIONS_FILENAME = 'recording-sessions.json';
+// Consecutive minutes are one minute apart; a gap of 2 tolerates a single
+// dropped minute without ending the session.
+export const DEFAULT_SESSION_GAP_MINUTES = 2;
+const MAX_SESSION_GAP_MINUTES = 24 * 60;
+const SESSION_ID_RE = /^([a-z0-9-]*)@(\d{8}_\d{4})$/;
+
+// A manual boundary before a minute: "split" starts a new session there even
+// inside the gap tolerance, "join" keeps it in the previous session even
+// across a longer gap.
+export type SessionBoundary = 'split' | 'join';
+
+export type SessionMetadata = {
+  labels: string[];
+  notes: string;
+  updated_at?: string;
+};
+
+type SessionConfig = {
+  version: 1;
+  gapMinutes: number;
+  boundaries: Record<string, SessionBoundary>;
+  sessions: Record<string, SessionMetadata>;
+};
+
+export type RecordingSession = SessionMetadata & {
+  id: string;
+  deviceKey: string;
+  deviceLabel: string;
+  firstMinute: string;
+  lastMinute: string;
+  start: string;
+  end: string;
+  minutes: string[];
+  minuteCount: number;
+  durationMinutes: number;
+  missingMinutes: number;
+  bytes: number;
+  byKind: Record<SensorKind, number>;
+  minuteLabels: Record<string, number>;
+  uploadedCount: number;
+  collectingCount: number;
+};
+
+export type SessionUpdateResult =
+  | { ok: true; session: RecordingSession; mapped: Array<{ from: string; to: string }> }
+  | { ok: false; status: number; error: string; unknown?: string[] };
+
+function sessionsPath(): string {
+  return path.join(MINUTES_DATA_DIR, 'config', SESSIONS_FILENAME);
+}
+
+function readSessionConfig(): SessionConfig {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(sessionsPath(), 'utf8'));
+    return {
+      version: 1,
+      gapMinutes: normalizeGap(parsed?.gapMinutes) ?? DEFAULT_SESSION_GAP_MINUTES,
+      boundaries: parsed?.boundaries && typeof parsed.boundaries === 'object' ? parsed.boundaries : {},
+      sessions: parsed?.sessions && typeof parsed.sessions === 'object' ? parsed.sessions : {},
+    };
+  } catch {
+    return { version: 1, gapMinutes: DEFAULT_SESSION_GAP_MINUTES, boundaries: {}, sessions: {} };
+  }
+}
+
+function writeSessionConfig(config: SessionConfig) {
+  const target = sessionsPath();
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(temp, JSON.stringify(config, null, 2));
+  fs.renameSync(temp, target);
+}
+
+export function normalizeGap(value: unknown): number | null {
+  const gap = Number(value);
+  return Number.isInteger(gap) && gap >= 1 && gap <= MAX_SESSION_GAP_MINUTES ? gap : null;
+}
+
+export function sessionGapMinutes(): number {
+  return readSessionConfig().gapMinutes;
+}
+
+export function setSessionGapMinutes(gapMinutes: number) {
+  const config = readSessionConfig();
+  config.gapMinutes = gapMinutes;
+  writeSessionConfig(config);
+}
+
+export function sessionId(deviceKey: string, minuteName: string): string {
+  return `${deviceKey}@${minuteName}`;
+}
+
+export function parseSessionId(id: string): { deviceKey: string; minuteName: string } | null {
+  const match = SESSION_ID_RE.exec(id);
+  return match ? { deviceKey: match[1], minuteName: match[2] } : null;
+}
+
+function boundaryKey(deviceKey: string, minuteName: string): string {
+  return `${deviceKey}/${minuteName}`;
+}
+
+function minuteTime(summary: MinuteSummary): number {
+  return minuteDate(summary.minuteName)?.getTime() ?? 0;
+}
+
+function buildSession(
+  group: MinuteSummary[],
+  metadata: SessionMetadata | undefined,
+  taxonomy: LabelTaxonomy = readLabelTaxonomy(),
+): RecordingSession {
+  const first = group[0];
+  const last = group[group.length - 1];
+  const byKind: Record<SensorKind, number> = { video: 0, radar: 0, csi: 0, other: 0 };
+  const minuteLabels: Record<string, number> = {};
+  group.forEach((summary) => {
+    const usage = minuteUsageByKind(summary);
+    (Object.keys(usage) as SensorKind[]).forEach((kind) => {
+      byKind[kind] += usage[kind];
+    });
+    // Manual labels only: summary.labels falls back to the model's own
+    // present/absent output for minutes nobody labelled.
+    manualMinuteLabels(summary, taxonomy).forEach((label) => {
+      minuteLabels[label] = (minuteLabels[label] || 0) + 1;
+    });
+  });
+  const startTime = minuteTime(first);
+  const endTime = minuteTime(last) + 60 * 1000;
+  const durationMinutes = Math.round((endTime - startTime) / 60000);
+  const distinctMinutes = new Set(group.map((summary) => summary.minuteName)).size;
+  return {
+    id: sessionId(first.deviceKey, first.minuteName),
+    deviceKey: first.deviceKey,
+    deviceLabel: first.deviceLabel,
+    firstMinute: first.minuteName,
+    lastMinute: last.minuteName,
+    start: new Date(startTime).toISOString(),
+    end: new Date(endTime).toISOString(),
+    minutes: group.map((summary) => summary.minute),
+    minuteCount: group.length,
+    durationMinutes,
+    missingMinutes: Math.max(0, durationMinutes - distinctMinutes),
+    bytes: byKind.video + byKind.radar + byKind.csi + byKind.other,
+    byKind,
+    minuteLabels,
+    uploadedCount: group.filter((summary) => summary.uploaded).length,
+    collectingCount: group.filter((summary) => summary.state === 'collecting').length,
+    labels: metadata?.labels || [],
+    notes: metadata?.notes || '',
+    updated_at: metadata?.updated_at,
+  };
+}
+
+function groupSessions(config: SessionConfig, gapMinutes: number) {
+  const byDevice = new Map<string, MinuteSummary[]>();
+  listMinuteSummaries().forEach((summary) => {
+    if (!minuteDate(summary.minuteName)) return;
+    const list = byDevice.get(summary.deviceKey);
+    if (list) list.push(summary);
+    else byDevice.set(summary.deviceKey, [summary]);
+  });
+
+  const groups: MinuteSummary[][] = [];
+  byDevice.forEach((minutes, deviceKey) => {
+    minutes.sort((a, b) => a.minuteName.localeCompare(b.minuteName) || a.relativePath.localeCompare(b.relativePath));
+    let current: MinuteSummary[] = [];
+    minutes.forEach((summary) => {
+      const previous = current[current.length - 1];
+      const boundary = config.boundaries[boundaryKey(deviceKey, summary.minuteName)];
+      const withinGap = previous && (minuteTime(summary) - minuteTime(previous)) / 60000 <= gapMinutes;
+      const sameMinute = previous && previous.minuteName === summary.minuteName;
+      if (previous && (sameMinute || (boundary !== 'split' && (withinGap || boundary === 'join')))) {
+        current.push(summary);
+        return;
+      }
+      if (current.length) groups.push(current);
+      current = [summary];
+    });
+    if (current.length) groups.push(current);
+  });
+  return groups;
+}
+
+export function listRecordingSessions({ gapMinutes, deviceKey }: { gapMinutes?: number | null; deviceKey?: string | null } = {}) {
+  const config = readSessionConfig();
+  const gap = gapMinutes ?? config.gapMinutes;
+  const taxonomy = readLabelTaxonomy();
+  const sessions = groupSessions(config, gap)
+    .filter((group) => !deviceKey || group[0].deviceKey === deviceKey)
+    .map((group) => buildSession(group, config.sessions[sessionId(group[0].deviceKey, group[0].minuteName)], taxonomy))
+    .sort((a, b) => b.start.localeCompare(a.start) || a.deviceKey.localeCompare(b.deviceKey));
+  return { gapMinutes: gap, sessions };
+}
+
+// Session id of every minute that belongs to one, keyed by minute id.
+export function minuteSessionIds(): Map<string, string> {
+  const config = readSessionConfig();
+  const ids = new Map<string, string>();
+  groupSessions(config, config.gapMinutes).forEach((group) => {
+    const id = sessionId(group[0].deviceKey, group[0].minuteName);
+    group.forEach((summary) => ids.set(summary.minute, id));
+  });
+  return ids;
+}
+
+export function getRecordingSession(id: string): { session: RecordingSession; summaries: MinuteSummary[] } | null {
+  const parsed = parseSessionId(id);
+  if (!parsed) return null;
+  const config = readSessionConfig();
+  const group = groupSessions(config, config.gapMinutes)
+    .find((items) => items[0].deviceKey === parsed.deviceKey && items[0].minuteName === parsed.minuteName);
+  if (!group) return null;
+  return { session: buildSession(group, config.sessions[id]), summaries: group };
+}
+
+export function updateRecordingSession(id: string, patch: { labels?: unknown; notes?: unknown }): SessionUpdateResult {
+  const current = getRecordingSession(id);
+  if (!current) return { ok: false, status: 404, error: 'Session not found' };
+
+  const config = readSessionConfig();
+  const metadata: SessionMetadata = { labels: current.session.labels, notes: current.session.notes };
+  let mapped: Array<{ from: string; to: string }> = [];
+  if (patch.labels !== undefined) {
+    const taxonomy = readLabelTaxonomy();
+    const raw = Array.isArray(patch.labels) ? patch.labels : String(patch.labels || '').split(',');
+    const mapping = mapLabels(raw.map((label: unknown) => String(label || '')), taxonomy);
+    if (taxonomy.mode === 'strict' && mapping.unknown.length) {
+      return { ok: false, status: 400, error: `Unknown labels: ${mapping.unknown.join(', ')}`, unknown: mapping.unknown };
+    }
+    metadata.labels = mapping.labels;
+    mapped = mapping.mapped;
+  }
+  if (patch.notes !== undefined) metadata.notes = String(patch.notes || '').slice(0, 10000);
+  config.sessions[id] = { ...metadata, updated_at: new Date().toISOString() };
+  writeSessionConfig(config);
+  return { ok: true, session: { ...current.session, ...config.sessions[id] }, mapped };
+}
+
+// Starts a new session at `minuteName`. The new session inherits the labels
+// and notes of the one it was split from.
+export function splitRecordingSession(id: string, minuteName: string): SessionUpdateResult {
+  const current = getRecordingSession(id);
+  if (!current) return { ok: false, status: 404, error: 'Session not found' };
+  const index = current.summaries.findIndex((summary) => summary.minuteName === minuteName);
+  if (index <= 0) return { ok: false, status: 400, error: 'Split at a minute after the first one in the session' };
+  if (current.summaries[index - 1].minuteName === minuteName) {
+    return { ok: false, status: 400, error: 'Minutes recorded at the same time cannot be split apart' };
+  }
+
+  const config = readSessionConfig();
+  const { deviceKey } = current.session;
+  config.boundaries[boundaryKey(deviceKey, minuteName)] = 'split';
+  if (config.sessions[id]) config.sessions[sessionId(deviceKey, minuteName)] = { ...config.sessions[id] };
+  writeSessionConfig(config);
+  const split = getRecordingSession(id);
+  return split ? { ok: true, session: split.session, mapped: [] } : { ok: false, status: 500, error: 'Session disappeared after split' };
+}
+
+// Joins the session with the next one from the same device. Labels are
+// combined and notes appended.
+export function mergeRecordingSession(id: string): SessionUpdateResult {
+  const current = getRecordingSession(id);
+  if (!current) return { ok: false, status: 404, error: 'Session not found' };
+  const { sessions } = listRecordingSessions({ deviceKey: current.session.deviceKey });
+  const next = sessions
+    .filter((session) => session.firstMinute > current.session.lastMinute)
+    .sort((a, b) => a.firstMinute.localeCompare(b.firstMinute))[0];
+  if (!next) return { ok: false, status: 400, error: 'No later session from this device to merge with' };
+
+  const config = readSessionConfig();
+  config.boundaries[boundaryKey(next.deviceKey, next.firstMinute)] = 'join';
+  const labels = Array.from(new Set([...current.session.labels, ...next.labels]));
+  const notes = Array.from(new Set([current.session.notes, next.notes].filter(Boolean))).join('\n\n');
+  if (labels.length || notes) config.sessions[id] = { labels, notes, updated_at: new Date().toISOString() };
+  delete config.sessions[next.id];
+  writeSessionConfig(config);
+  const merged = getRecordingSession(id);
+  return merged ? { ok: true, session: merged.session, mapped: [] } : { ok: false, status: 500, error: 'Session disappeared after merge' };
+}
@@ -0,0 +1,7 @@
+// Request bodies arrive as untyped JSON. Parsers start from `jsonObject` and
+// narrow each field they read, so a missing or malformed body behaves like `{}`.
+export type JsonObject = Record<string, unknown>;
+
+export function jsonObject(value: unknown): JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+}
@@ -0,0 +1,308 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { MINUTES_DATA_DIR, MINUTE_RE, listMinuteSummaries, manualMinuteLabels, minuteDate } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { canonicalLabel, readLabelTaxonomy } from '@/lib/labelTaxonomy';
+import type { LabelTaxonomy } from '@/lib/labelTaxonomy';
+import { invalidateMinuteIndex } from '@/lib/minuteIndex';
+import { resolveDataPath } from '@/lib/dataRoots';
+import { jsonObject } from '@/lib/requestBody';
+
+const POLICY_FILENAME = 'retention.json';
+const AUDIT_FILENAME = 'retention-audit.jsonl';
+const SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RetentionRule = {
+  days: number | null;
+  uploadedOnly?: boolean;
+};
+
+export type RetentionPolicy = {
+  enabled: boolean;
+  defaultDays: number | null;
+  uploadedOnly: boolean;
+  labels: Record<string, RetentionRule>;
+  devices: Record<string, RetentionRule>;
+  pinned: string[];
+  updated_at?: string;
+};
+
+export type RetentionCandidate = {
+  minute: string;
+  minuteName: string;
+  relativePath: string;
+  deviceKey: string;
+  labels: string[];
+  uploaded: boolean;
+  ageDays: number;
+  retentionDays: number;
+  bytes: number;
+};
+
+export type RetentionRun = {
+  id: string;
+  at: string;
+  trigger: 'manual' | 'schedule';
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  deleted: RetentionCandidate[];
+  kept: {
+    pinned: number;
+    notUploaded: number;
+    collecting: number;
+    withinRetention: number;
+  };
+  errors: Array<{ minute: string; error: string }>;
+  bytesFreed: number;
+};
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: false,
+  defaultDays: null,
+  uploadedOnly: true,
+  labels: {},
+  devices: {},
+  pinned: [],
+};
+
+let scheduleTimer: NodeJS.Timeout | null = null;
+
+function configPath(filename: string): string {
+  return path.join(MINUTES_DATA_DIR, 'config', filename);
+}
+
+function normalizeDays(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const days = Math.floor(Number(value));
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+function normalizeRules(value: unknown): Record<string, RetentionRule> {
+  if (!value || typeof value !== 'object') return {};
+  const rules: Record<string, RetentionRule> = {};
+  Object.entries(jsonObject(value)).forEach(([key, entry]) => {
+    const name = String(key || '').trim();
+    if (!name || !entry || typeof entry !== 'object') return;
+    const rule = jsonObject(entry);
+    rules[name] = { days: normalizeDays(rule.days), uploadedOnly: rule.uploadedOnly === true };
+  });
+  return rules;
+}
+
+export function normalizeRetentionPolicy(value: unknown): RetentionPolicy {
+  const input = jsonObject(value);
+  return {
+    enabled: input.enabled === true,
+    defaultDays: normalizeDays(input.defaultDays),
+    uploadedOnly: input.uploadedOnly !== false,
+    labels: normalizeRules(input.labels),
+    devices: normalizeRules(input.devices),
+    pinned: Array.isArray(input.pinned)
+      ? Array.from(new Set(input.pinned.map((minute: unknown) => String(minute || '')).filter(Boolean))) as string[]
+      : [],
+    updated_at: typeof input.updated_at === 'string' ? input.updated_at : undefined,
+  };
+}
+
+export function readRetentionPolicy(): RetentionPolicy {
+  try {
+    return normalizeRetentionPolicy(JSON.parse(fs.readFileSync(configPath(POLICY_FILENAME), 'utf8')));
+  } catch {
+    return { ...DEFAULT_RETENTION_POLICY };
+  }
+}
+
+export function writeRetentionPolicy(value: unknown): RetentionPolicy {
+  const policy = { ...normalizeRetentionPolicy(value), updated_at: new Date().toISOString() };
+  const target = configPath(POLICY_FILENAME);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(policy, null, 2));
+  return policy;
+}
+
+export function setMinutePinned(minute: string, pinned: boolean): RetentionPolicy {
+  const policy = readRetentionPolicy();
+  const next = policy.pinned.filter((item) => item !== minute);
+  if (pinned) next.push(minute);
+  return writeRetentionPolicy({ ...policy, pinned: next });
+}
+
+// Minute IDs change when their folders move; pins follow them to the new ID.
+export function movePinnedMinutes(moves: Array<{ from: string; to: string }>) {
+  const policy = readRetentionPolicy();
+  const renamed = new Map(moves.map(({ from, to }): [string, string] => [from, to]));
+  if (!policy.pinned.some((minute) => renamed.has(minute))) return;
+  writeRetentionPolicy({ ...policy, pinned: policy.pinned.map((minute) => renamed.get(minute) || minute) });
+}
+
+// Label rules match the labels people gave a minute, compared in canonical
+// taxonomy form; a minute with only a predicted state falls to the default.
+// When several label or device rules match, the most protective one wins:
+// "keep forever" beats any day count and longer retention beats shorter.
+export function retentionRuleFor(
+  policy: RetentionPolicy,
+  minute: MinuteSummary,
+  taxonomy: LabelTaxonomy = readLabelTaxonomy(),
+): RetentionRule {
+  const labels = manualMinuteLabels(minute, taxonomy);
+  const rules = [
+    ...Object.keys(policy.labels)
+      .filter((label) => labels.includes(canonicalLabel(label, taxonomy)))
+      .map((label) => policy.labels[label]),
+    policy.devices[minute.deviceKey],
+  ].filter(Boolean) as RetentionRule[];
+  if (!rules.length) return { days: policy.defaultDays, uploadedOnly: policy.uploadedOnly };
+  return {
+    days: rules.some((rule) => rule.days === null) ? null : Math.max(...rules.map((rule) => Number(rule.days))),
+    uploadedOnly: policy.uploadedOnly || rules.some((rule) => rule.uploadedOnly),
+  };
+}
+
+function minuteAgeDays(minute: MinuteSummary, now: number): number {
+  const capturedAt = minuteDate(minute.minuteName)?.getTime() ?? new Date(minute.modified).getTime();
+  return Math.max(0, (now - capturedAt) / DAY_MS);
+}
+
+function folderSize(dir: string): number {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true }).reduce((sum, entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return sum + folderSize(entryPath);
+      try {
+        return sum + fs.statSync(entryPath).size;
+      } catch {
+        return sum;
+      }
+    }, 0);
+  } catch {
+    return 0;
+  }
+}
+
+function isDeletableMinuteDir(minute: MinuteSummary): boolean {
+  const resolved = resolveDataPath(minute.relativePath);
+  return Boolean(resolved && resolved.path === path.resolve(minute.path) && MINUTE_RE.test(path.basename(resolved.path)));
+}
+
+export function evaluateRetention(policy: RetentionPolicy, now = Date.now()): Pick<RetentionRun, 'deleted' | 'kept'> {
+  const pinned = new Set(policy.pinned);
+  const kept = { pinned: 0, notUploaded: 0, collecting: 0, withinRetention: 0 };
+  const deleted: RetentionCandidate[] = [];
+  const taxonomy = readLabelTaxonomy();
+
+  for (const minute of listMinuteSummaries()) {
+    const rule = retentionRuleFor(policy, minute, taxonomy);
+    const ageDays = minuteAgeDays(minute, now);
+    if (rule.days === null || ageDays < rule.days) {
+      kept.withinRetention += 1;
+    } else if (pinned.has(minute.minute) || minute.manifest?.pinned === true) {
+      kept.pinned += 1;
+    } else if (!minute.completed) {
+      kept.collecting += 1;
+    } else if (rule.uploadedOnly && !minute.uploaded) {
+      kept.notUploaded += 1;
+    } else if (isDeletableMinuteDir(minute)) {
+      deleted.push({
+        minute: minute.minute,
+        minuteName: minute.minuteName,
+        relativePath: minute.relativePath,
+        deviceKey: minute.deviceKey,
+        labels: manualMinuteLabels(minute, taxonomy),
+        uploaded: minute.uploaded,
+        ageDays: Math.floor(ageDays),
+        retentionDays: rule.days,
+        bytes: folderSize(minute.path),
+      });
+    }
+  }
+
+  deleted.sort((a, b) => a.minuteName.localeCompare(b.minuteName));
+  return { deleted, kept };
+}
+
+function appendAudit(run: RetentionRun) {
+  const target = configPath(AUDIT_FILENAME);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.appendFileSync(target, `${JSON.stringify(run)}\n`);
+}
+
+// `minutes` limits a real run to the candidates a user previewed and
+// confirmed: those that no longer match the policy are left alone, and
+// minutes that only started matching since the preview are not touched.
+export function runRetention({ dryRun = true, trigger = 'manual', minutes }: {
+  dryRun?: boolean;
+  trigger?: RetentionRun['trigger'];
+  minutes?: string[];
+} = {}): RetentionRun {
+  const policy = readRetentionPolicy();
+  const evaluation = evaluateRetention(policy);
+  const run: RetentionRun = {
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+    trigger,
+    dryRun,
+    policy,
+    deleted: [],
+    kept: evaluation.kept,
+    errors: [],
+    bytesFreed: 0,
+  };
+
+  if (dryRun) {
+    run.deleted = evaluation.deleted;
+    run.bytesFreed = evaluation.deleted.reduce((sum, candidate) => sum + candidate.bytes, 0);
+    return run;
+  }
+
+  const confirmed = minutes ? new Set(minutes) : null;
+  for (const candidate of evaluation.deleted) {
+    if (confirmed && !confirmed.has(candidate.minute)) continue;
+    const resolved = resolveDataPath(candidate.relativePath);
+    if (!resolved) continue;
+    try {
+      fs.rmSync(resolved.path, { recursive: true, force: true });
+      run.deleted.push(candidate);
+      run.bytesFreed += candidate.bytes;
+    } catch (error) {
+      run.errors.push({ minute: candidate.minute, error: error instanceof Error ? error.message : 'Delete failed' });
+    }
+  }
+
+  if (run.deleted.length) invalidateMinuteIndex();
+  if (trigger === 'manual' || run.deleted.length || run.errors.length) appendAudit(run);
+  return run;
+}
+
+export function readRetentionAudit(limit = 50): RetentionRun[] {
+  try {
+    return fs.readFileSync(configPath(AUDIT_FILENAME), 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .slice(-limit)
+      .map((line) => {
+        try {
+          return JSON.parse(line) as RetentionRun;
+        } catch {
+          return null;
+        }
+      })
+      .filter(Boolean)
+      .reverse() as RetentionRun[];
+  } catch {
+    return [];
+  }
+}
+
+export function startRetentionScheduler() {
+  if (scheduleTimer) return;
+  scheduleTimer = setInterval(() => {
+    try {
+      if (readRetentionPolicy().enabled) runRetention({ dryRun: false, trigger: 'schedule' });
+    } catch (error) {
+      console.error('Scheduled retention run failed:', error);
+    }
+  }, SCHEDULE_INTERVAL_MS);
+  scheduleTimer.unref?.();
+}
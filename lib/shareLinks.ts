@@ -0,0 +1,322 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { MINUTES_DATA_DIR, getMinuteDetail, getMinuteSummary } from '@/lib/minutes';
+import type { MinuteDetail } from '@/lib/minutes';
+import { getRecordingSession } from '@/lib/recordingSessions';
+import { MINUTE_ARCHIVE_KINDS, minuteArchiveEntries, parseMinuteArchiveKinds } from '@/lib/minuteArchive';
+import type { MinuteArchiveKind } from '@/lib/minuteArchive';
+import type { LabelActor } from '@/lib/labelAudit';
+import { jsonObject } from '@/lib/requestBody';
+
+const SHARES_FILENAME = 'shares.json';
+const SECRET_FILENAME = 'share-secret';
+const HOUR_MS = 60 * 60 * 1000;
+export const DEFAULT_SHARE_HOURS = 72;
+export const MAX_SHARE_HOURS = 30 * 24;
+const MIN_PASSWORD_LENGTH = 6;
+const SHARE_ID_RE = /^[A-Za-z0-9_-]{16}$/;
+
+// Files the read-only viewer plays or draws, whatever downloads were chosen.
+export const SHARED_VIEWER_FILES = ['video', 'xy_tracking'] as const;
+
+export type SharedViewerFile = typeof SHARED_VIEWER_FILES[number];
+
+export type ShareTarget = { type: 'minute' | 'session'; id: string };
+
+type SharePassword = { salt: string; hash: string };
+
+export type ShareLinkRequest = {
+  target: ShareTarget;
+  downloads: MinuteArchiveKind[];
+  expiresInHours: number;
+  password: string | null;
+};
+
+export type ShareLinkRequestParseResult =
+  | { ok: true; request: ShareLinkRequest }
+  | { ok: false; error: string };
+
+// predictions.json as the device wrote it; the viewer only reads its timeline.
+export type SharedPredictions = { timeline?: unknown[]; [key: string]: unknown };
+
+export type ShareLink = {
+  id: string;
+  target: ShareTarget;
+  // Minute ids the link opens, fixed when it is created so that later
+  // session regrouping never widens what was shared.
+  minutes: string[];
+  // Kinds offered as downloads; empty shares the viewer only.
+  downloads: MinuteArchiveKind[];
+  created_at: string;
+  expires_at: string;
+  createdBy: LabelActor;
+  password?: SharePassword;
+  revoked_at?: string;
+  revokedBy?: LabelActor;
+  accessCount: number;
+  last_accessed_at?: string;
+};
+
+// The signed token is left out: it is handed over once, when the link is
+// created, and anyone holding it can open the share.
+export type ShareLinkSummary = Omit<ShareLink, 'password'> & {
+  protected: boolean;
+  status: 'active' | 'expired' | 'revoked';
+};
+
+export type SharedMinuteItem = {
+  minute: string;
+  minuteName: string;
+  deviceLabel: string;
+  labels: string[];
+  state: MinuteDetail['state'];
+};
+
+export type SharedMinute = SharedMinuteItem & {
+  files: Record<SharedViewerFile, boolean>;
+  downloads: Partial<Record<MinuteArchiveKind, number>>;
+  progress: MinuteDetail['progress'];
+  predictions: SharedPredictions | null;
+};
+
+export type ShareResult =
+  | { ok: true; share: ShareLink }
+  | { ok: false; status: number; error: string };
+
+function configPath(filename: string): string {
+  return path.join(MINUTES_DATA_DIR, 'config', filename);
+}
+
+function readShares(): ShareLink[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath(SHARES_FILENAME), 'utf8'));
+    return Array.isArray(parsed?.shares) ? parsed.shares : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeShares(shares: ShareLink[]) {
+  const target = configPath(SHARES_FILENAME);
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(temp, JSON.stringify({ version: 1, shares }, null, 2));
+  fs.renameSync(temp, target);
+}
+
+// Tokens are signed with THOTH_SHARE_SECRET, or with a key generated on first
+// use and kept next to the other config. Replacing the key invalidates every
+// link that was handed out.
+function shareSecret(): string {
+  if (process.env.THOTH_SHARE_SECRET) return process.env.THOTH_SHARE_SECRET;
+  const target = configPath(SECRET_FILENAME);
+  try {
+    return fs.readFileSync(target, 'utf8').trim();
+  } catch {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, secret, { mode: 0o600 });
+    return secret;
+  }
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', shareSecret()).update(value).digest('base64url');
+}
+
+function sameText(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// `<id>.<expiry in seconds, base 36>.<signature>`: the expiry travels in the
+// signed token, so a link cannot be extended by editing it.
+export function shareToken(share: ShareLink): string {
+  const payload = `${share.id}.${Math.floor(Date.parse(share.expires_at) / 1000).toString(36)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+function hashPassword(password: string, salt: string): string {
+  return crypto.scryptSync(password, salt, 32).toString('base64url');
+}
+
+function shareStatus(share: ShareLink, now = Date.now()): ShareLinkSummary['status'] {
+  if (share.revoked_at) return 'revoked';
+  return Date.parse(share.expires_at) <= now ? 'expired' : 'active';
+}
+
+export function summarizeShareLink(share: ShareLink): ShareLinkSummary {
+  const { password, ...rest } = share;
+  return { ...rest, protected: Boolean(password), status: shareStatus(share) };
+}
+
+export function listShareLinks({ includeInactive = false }: { includeInactive?: boolean } = {}): ShareLinkSummary[] {
+  return readShares()
+    .map(summarizeShareLink)
+    .filter((share) => includeInactive || share.status === 'active')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function parseShareLinkRequest(body: unknown): ShareLinkRequestParseResult {
+  const input = jsonObject(body);
+  const type = input.type === 'session' || input.type === 'minute' ? input.type : null;
+  const id = typeof input.id === 'string' || typeof input.id === 'number' ? String(input.id).trim() : '';
+  if (!type || !id) return { ok: false, error: 'type (minute or session) and id are required' };
+
+  const { kinds, unknown } = parseMinuteArchiveKinds(Array.isArray(input.downloads) ? input.downloads.map(String) : []);
+  if (unknown.length) {
+    return { ok: false, error: `Unknown kind ${unknown.join(', ')}; expected ${MINUTE_ARCHIVE_KINDS.join(', ')}` };
+  }
+
+  const hours = input.expiresInHours === undefined ? DEFAULT_SHARE_HOURS : Number(input.expiresInHours);
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_SHARE_HOURS) {
+    return { ok: false, error: `expiresInHours must be between 0 and ${MAX_SHARE_HOURS}` };
+  }
+
+  const password = typeof input.password === 'string' && input.password ? input.password : null;
+  if (password && password.length < MIN_PASSWORD_LENGTH) {
+    return { ok: false, error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+
+  return { ok: true, request: { target: { type, id }, downloads: kinds || [], expiresInHours: hours, password } };
+}
+
+export function createShareLink(request: ShareLinkRequest, actor: LabelActor): ShareResult {
+  const { target } = request;
+  let minutes: string[];
+  if (target.type === 'session') {
+    const session = getRecordingSession(target.id);
+    if (!session) return { ok: false, status: 404, error: 'Session not found' };
+    minutes = session.summaries.map((summary) => summary.minute);
+  } else {
+    const summary = getMinuteSummary(target.id);
+    if (!summary) return { ok: false, status: 404, error: 'Minute folder not found' };
+    minutes = [summary.minute];
+  }
+
+  const now = Date.now();
+  const share: ShareLink = {
+    id: crypto.randomBytes(12).toString('base64url'),
+    target,
+    minutes,
+    downloads: request.downloads,
+    created_at: new Date(now).toISOString(),
+    // Whole seconds, so the expiry round-trips through the token.
+    expires_at: new Date(Math.floor((now + request.expiresInHours * HOUR_MS) / 1000) * 1000).toISOString(),
+    createdBy: actor,
+    accessCount: 0,
+  };
+  if (request.password) {
+    const salt = crypto.randomBytes(16).toString('base64url');
+    share.password = { salt, hash: hashPassword(request.password, salt) };
+  }
+  writeShares([...readShares(), share]);
+  return { ok: true, share };
+}
+
+export function revokeShareLink(id: string, actor: LabelActor): ShareResult {
+  const shares = readShares();
+  const share = shares.find((item) => item.id === id);
+  if (!share) return { ok: false, status: 404, error: 'Share not found' };
+  if (!share.revoked_at) {
+    share.revoked_at = new Date().toISOString();
+    share.revokedBy = actor;
+    writeShares(shares);
+  }
+  return { ok: true, share };
+}
+
+// Checks the signature first so a forged or edited token never reaches the
+// store, then the expiry and revocation recorded there.
+export function resolveShareToken(token: string): ShareResult {
+  const [id, expiry, signature] = String(token || '').split('.');
+  if (!SHARE_ID_RE.test(id || '') || !expiry || !signature || !sameText(signature, sign(`${id}.${expiry}`))) {
+    return { ok: false, status: 404, error: 'Share link not found' };
+  }
+  const share = readShares().find((item) => item.id === id);
+  if (!share || shareToken(share) !== token) return { ok: false, status: 404, error: 'Share link not found' };
+  const status = shareStatus(share);
+  if (status !== 'active') return { ok: false, status: 410, error: status === 'revoked' ? 'This link was revoked' : 'This link has expired' };
+  return { ok: true, share };
+}
+
+export function shareCookieName(share: ShareLink): string {
+  return `thoth_share_${share.id}`;
+}
+
+// The cookie set after the password is entered. It is tied to the password
+// salt, so it stops working if the share is recreated with a new password.
+export function shareUnlockValue(share: ShareLink): string {
+  return sign(`unlock.${share.id}.${share.password?.salt || ''}`);
+}
+
+export function isShareUnlocked(share: ShareLink, cookieValue: string | undefined): boolean {
+  return !share.password || Boolean(cookieValue && sameText(cookieValue, shareUnlockValue(share)));
+}
+
+// Resolves the token for a request that reads shared data: password-protected
+// links also need the unlock cookie, looked up through `cookie`.
+export function openShare(token: string, cookie: (name: string) => string | undefined): ShareResult {
+  const resolved = resolveShareToken(token);
+  if (!resolved.ok) return resolved;
+  if (!isShareUnlocked(resolved.share, cookie(shareCookieName(resolved.share)))) {
+    return { ok: false, status: 401, error: 'Password required' };
+  }
+  return resolved;
+}
+
+export function verifySharePassword(share: ShareLink, password: unknown): boolean {
+  if (!share.password) return true;
+  if (typeof password !== 'string' || !password) return false;
+  return sameText(hashPassword(password, share.password.salt), share.password.hash);
+}
+
+export function recordShareAccess(id: string) {
+  const shares = readShares();
+  const share = shares.find((item) => item.id === id);
+  if (!share) return;
+  share.accessCount = (share.accessCount || 0) + 1;
+  share.last_accessed_at = new Date().toISOString();
+  writeShares(shares);
+}
+
+// Minutes of the share that still exist, for the viewer's minute list.
+export function sharedMinuteItems(share: ShareLink): SharedMinuteItem[] {
+  return share.minutes.flatMap((minute) => {
+    const summary = getMinuteSummary(minute);
+    return summary
+      ? [{ minute, minuteName: summary.minuteName, deviceLabel: summary.deviceLabel, labels: summary.labels, state: summary.state }]
+      : [];
+  });
+}
+
+// The shared copy of a minute, without any path on this machine.
+export function sharedMinute(share: ShareLink, minute: string): SharedMinute | null {
+  if (!share.minutes.includes(minute)) return null;
+  const detail = getMinuteDetail(minute);
+  if (!detail) return null;
+  const downloads: Partial<Record<MinuteArchiveKind, number>> = {};
+  if (share.downloads.length) {
+    minuteArchiveEntries(detail, share.downloads).forEach((entry) => {
+      downloads[entry.kind] = (downloads[entry.kind] || 0) + entry.size;
+    });
+  }
+  return {
+    minute,
+    minuteName: detail.minuteName,
+    deviceLabel: detail.deviceLabel,
+    labels: detail.labels,
+    state: detail.state,
+    files: { video: Boolean(detail.filePaths.video), xy_tracking: Boolean(detail.filePaths.xy_tracking) },
+    downloads,
+    progress: detail.progress,
+    predictions: detail.predictions ?? null,
+  };
+}
+
+export function sharedViewerFile(share: ShareLink, minute: string, kind: string): string | null {
+  if (!share.minutes.includes(minute) || !(SHARED_VIEWER_FILES as readonly string[]).includes(kind)) return null;
+  return getMinuteDetail(minute)?.filePaths[kind] || null;
+}
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { MINUTES_DATA_DIR, listMinuteSummaries } from '@/lib/minutes';
+import type { MinuteSummary } from '@/lib/minutes';
+import { listDataRoots } from '@/lib/dataRoots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SensorKind = 'video' | 'radar' | 'csi' | 'other';
+
+export type StorageBucket = {
+  key: string;
+  label: string;
+  minutes: number;
+  bytes: number;
+  byKind: Record<SensorKind, number>;
+};
+
+export type DiskUsage = { totalBytes: number; freeBytes: number; usedBytes: number };
+
+export type StorageUsage = {
+  generatedAt: string;
+  dataDir: string;
+  disk: DiskUsage | null;
+  totals: StorageBucket;
+  byRoot: Array<StorageBucket & { dir: string; primary: boolean; disk: DiskUsage | null }>;
+  byDevice: StorageBucket[];
+  byLabel: StorageBucket[];
+  byDay: StorageBucket[];
+  growth: { windowDays: number; bytesPerDay: number };
+  projectedDaysUntilFull: number | null;
+};
+
+export function sensorKindForFile(filename: string): SensorKind {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.mp4')) return 'video';
+  if (lower.startsWith('radar_') || lower.startsWith('mmw_radar_') || lower === 'xy-tracking.json') return 'radar';
+  if (lower.startsWith('wifi_csi')) return 'csi';
+  return 'other';
+}
+
+function emptyBucket(key: string, label = key): StorageBucket {
+  return { key, label, minutes: 0, bytes: 0, byKind: { video: 0, radar: 0, csi: 0, other: 0 } };
+}
+
+export function minuteUsageByKind(minute: MinuteSummary): Record<SensorKind, number> {
+  const byKind: Record<SensorKind, number> = { video: 0, radar: 0, csi: 0, other: 0 };
+  if (minute.dataFiles?.length) {
+    minute.dataFiles.forEach((file) => {
+      byKind[sensorKindForFile(file.filename)] += file.size;
+    });
+    return byKind;
+  }
+  byKind.video = Number(minute.sizes.video || 0);
+  byKind.radar = Number(minute.sizes.radar || 0);
+  byKind.csi = Number(minute.sizes.csi_csv || 0) + Number(minute.sizes.csi_timestamped || 0) + Number(minute.sizes.csi_serial || 0);
+  return byKind;
+}
+
+function addToBucket(bucket: StorageBucket, byKind: Record<SensorKind, number>) {
+  bucket.minutes += 1;
+  (Object.keys(byKind) as SensorKind[]).forEach((kind) => {
+    bucket.byKind[kind] += byKind[kind];
+    bucket.bytes += byKind[kind];
+  });
+}
+
+function captureDay(minuteName: string): string {
+  return `${minuteName.slice(0, 4)}-${minuteName.slice(4, 6)}-${minuteName.slice(6, 8)}`;
+}
+
+function diskUsage(dir: string): DiskUsage | null {
+  try {
+    const stats = fs.statfsSync(fs.existsSync(dir) ? dir : path.dirname(dir));
+    const totalBytes = stats.blocks * stats.bsize;
+    const freeBytes = stats.bavail * stats.bsize;
+    return { totalBytes, freeBytes, usedBytes: totalBytes - stats.bfree * stats.bsize };
+  } catch {
+    return null;
+  }
+}
+
+export function computeStorageUsage(windowDays = 7, now = Date.now()): StorageUsage {
+  const totals = emptyBucket('all', 'All minutes');
+  const devices = new Map<string, StorageBucket>();
+  const labels = new Map<string, StorageBucket>();
+  const days = new Map<string, StorageBucket>();
+  const roots = new Map(listDataRoots().map((root) => [root.name, emptyBucket(root.name)]));
+
+  for (const minute of listMinuteSummaries()) {
+    const byKind = minuteUsageByKind(minute);
+    addToBucket(totals, byKind);
+    const root = roots.get(minute.root);
+    if (root) addToBucket(root, byKind);
+
+    const device = devices.get(minute.deviceKey) || emptyBucket(minute.deviceKey, minute.deviceLabel);
+    addToBucket(device, byKind);
+    devices.set(minute.deviceKey, device);
+
+    minute.labels.forEach((label) => {
+      const bucket = labels.get(label) || emptyBucket(label);
+      addToBucket(bucket, byKind);
+      labels.set(label, bucket);
+    });
+
+    const day = captureDay(minute.minuteName);
+    const dayBucket = days.get(day) || emptyBucket(day);
+    addToBucket(dayBucket, byKind);
+    days.set(day, dayBucket);
+  }
+
+  // Growth is the mean daily capture volume over the trailing window,
+  // counting days without captures as zero. New captures land on the primary
+  // root, so only its disk is used for the projection.
+  const windowStart = new Date(now - windowDays * DAY_MS).toISOString().slice(0, 10);
+  const windowBytes = Array.from(days.values())
+    .filter((bucket) => bucket.key > windowStart)
+    .reduce((sum, bucket) => sum + bucket.bytes, 0);
+  const bytesPerDay = windowDays > 0 ? windowBytes / windowDays : 0;
+  const disk = diskUsage(MINUTES_DATA_DIR);
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    dataDir: MINUTES_DATA_DIR,
+    disk,
+    totals,
+    byRoot: listDataRoots().map((root) => ({
+      ...(roots.get(root.name) || emptyBucket(root.name)),
+      dir: root.dir,
+      primary: root.primary,
+      disk: root.primary ? disk : fs.existsSync(root.dir) ? diskUsage(root.dir) : null,
+    })),
+    byDevice: Array.from(devices.values()).sort((a, b) => b.bytes - a.bytes),
+    byLabel: Array.from(labels.values()).sort((a, b) => b.bytes - a.bytes),
+    byDay: Array.from(days.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    growth: { windowDays, bytesPerDay },
+    projectedDaysUntilFull: disk && bytesPerDay > 0 ? disk.freeBytes / bytesPerDay : null,
+  };
+}
@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Entries are stored uncompressed: the archives are mostly video and radar
+// binaries that do not shrink, and storing keeps the writer a single pass.
+// Sizes and CRCs follow each entry in a data descriptor, so nothing is
+// buffered beyond one read, and ZIP64 records are written once an entry or
+// offset passes 4 GiB.
+
+export type ZipEntry = {
+  // Path inside the archive, `/`-separated.
+  name: string;
+  // A file on disk, read when the entry is reached...
+  path?: string;
+  // ...or content held in memory.
+  data?: Uint8Array | string;
+  modified?: Date;
+};
+
+export type ZipStreamOptions = {
+  // Appends a `sha256sum -c` compatible file with this name listing every
+  // entry before it.
+  checksumFile?: string;
+};
+
+const READ_SIZE = 256 * 1024;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array, previous = 0): number {
+  let crc = previous ^ MAX_32;
+  for (let index = 0; index < data.length; index += 1) crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ MAX_32) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function writeUint64(buffer: Buffer, value: number, offset: number) {
+  buffer.writeUInt32LE(value % 0x100000000, offset);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+type CentralRecord = {
+  name: Buffer;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+};
+
+function localHeader(name: Buffer, time: number, date: number, zip64: boolean): Buffer {
+  const header = Buffer.alloc(30 + name.length + (zip64 ? 20 : 0));
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(zip64 ? 45 : 20, 4);
+  // Bit 3: sizes follow in a data descriptor. Bit 11: UTF-8 names.
+  header.writeUInt16LE(0x0808, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(zip64 ? MAX_32 : 0, 18);
+  header.writeUInt32LE(zip64 ? MAX_32 : 0, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(zip64 ? 20 : 0, 28);
+  name.copy(header, 30);
+  if (zip64) {
+    header.writeUInt16LE(0x0001, 30 + name.length);
+    header.writeUInt16LE(16, 32 + name.length);
+  }
+  return header;
+}
+
+function dataDescriptor(crc: number, size: number, zip64: boolean): Buffer {
+  const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  if (zip64) {
+    writeUint64(descriptor, size, 8);
+    writeUint64(descriptor, size, 16);
+  } else {
+    descriptor.writeUInt32LE(size, 8);
+    descriptor.writeUInt32LE(size, 12);
+  }
+  return descriptor;
+}
+
+function centralHeader(record: CentralRecord): Buffer {
+  const bigOffset = record.offset >= MAX_32;
+  const extraLength = (record.zip64 ? 16 : 0) + (bigOffset ? 8 : 0);
+  const header = Buffer.alloc(46 + record.name.length + (extraLength ? 4 + extraLength : 0));
+  const zip64 = record.zip64 || bigOffset;
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(zip64 ? 45 : 20, 4);
+  header.writeUInt16LE(zip64 ? 45 : 20, 6);
+  header.writeUInt16LE(0x0808, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.zip64 ? MAX_32 : record.size, 20);
+  header.writeUInt32LE(record.zip64 ? MAX_32 : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extraLength ? 4 + extraLength : 0, 30);
+  header.writeUInt32LE(bigOffset ? MAX_32 : record.offset, 42);
+  record.name.copy(header, 46);
+  if (extraLength) {
+    let cursor = 46 + record.name.length;
+    header.writeUInt16LE(0x0001, cursor);
+    header.writeUInt16LE(extraLength, cursor + 2);
+    cursor += 4;
+    if (record.zip64) {
+      writeUint64(header, record.size, cursor);
+      writeUint64(header, record.size, cursor + 8);
+      cursor += 16;
+    }
+    if (bigOffset) writeUint64(header, record.offset, cursor);
+  }
+  return header;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const zip64 = count >= MAX_16 || size >= MAX_32 || offset >= MAX_32;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, MAX_16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_16), 10);
+  end.writeUInt32LE(Math.min(size, MAX_32), 12);
+  end.writeUInt32LE(Math.min(offset, MAX_32), 16);
+  if (!zip64) return end;
+
+  const record = Buffer.alloc(56 + 20);
+  record.writeUInt32LE(0x06064b50, 0);
+  writeUint64(record, 44, 4);
+  record.writeUInt16LE(45, 12);
+  record.writeUInt16LE(45, 14);
+  writeUint64(record, count, 24);
+  writeUint64(record, count, 32);
+  writeUint64(record, size, 40);
+  writeUint64(record, offset, 48);
+  record.writeUInt32LE(0x07064b50, 56);
+  writeUint64(record, offset + size, 64);
+  record.writeUInt32LE(1, 72);
+  return Buffer.concat([record, end]);
+}
+
+// Streams a zip archive of `entries`, reading each file only when the
+// consumer asks for more bytes.
+export function zipStream(entries: ZipEntry[], options: ZipStreamOptions = {}): ReadableStream<Uint8Array> {
+  const queue = entries.slice();
+  const records: CentralRecord[] = [];
+  const checksums: string[] = [];
+  let offset = 0;
+  let checksumAdded = false;
+  let current: {
+    record: CentralRecord;
+    fd: number | null;
+    data: Uint8Array | null;
+    hash: crypto.Hash;
+    name: string;
+  } | null = null;
+
+  const closeCurrent = () => {
+    if (current?.fd !== null && current?.fd !== undefined) fs.closeSync(current.fd);
+  };
+
+  const startEntry = (entry: ZipEntry): Buffer => {
+    const data = entry.data === undefined ? null : typeof entry.data === 'string' ? Buffer.from(entry.data) : entry.data;
+    const stat = entry.path ? fs.statSync(entry.path) : null;
+    const size = data ? data.length : stat?.size || 0;
+    const { time, date } = dosDateTime(entry.modified || stat?.mtime || new Date());
+    const name = Buffer.from(entry.name.replace(/^\/+/, ''));
+    // Files can still grow while a minute is collecting, so leave headroom
+    // before deciding an entry fits the 32-bit fields.
+    const zip64 = size >= MAX_32 - READ_SIZE * 64;
+    const record: CentralRecord = { name, time, date, crc: 0, size: 0, offset, zip64 };
+    current = {
+      record,
+      fd: entry.path ? fs.openSync(entry.path, 'r') : null,
+      data,
+      hash: crypto.createHash('sha256'),
+      name: name.toString(),
+    };
+    return localHeader(name, time, date, zip64);
+  };
+
+  const nextEntryChunk = (): Uint8Array | null => {
+    if (!current) return null;
+    let chunk: Uint8Array | null = null;
+    if (current.data) {
+      chunk = current.data;
+      current.data = null;
+    } else if (current.fd !== null) {
+      const buffer = Buffer.alloc(READ_SIZE);
+      const read = fs.readSync(current.fd, buffer, 0, READ_SIZE, null);
+      chunk = read ? buffer.subarray(0, read) : null;
+    }
+    if (chunk && chunk.length) {
+      current.record.crc = crc32(chunk, current.record.crc);
+      current.record.size += chunk.length;
+      current.hash.update(chunk);
+      return chunk;
+    }
+    return null;
+  };
+
+  const finishEntry = (): Buffer => {
+    const entry = current!;
+    closeCurrent();
+    current = null;
+    records.push(entry.record);
+    if (options.checksumFile) checksums.push(`${entry.hash.digest('hex')}  ${entry.name}\n`);
+    return dataDescriptor(entry.record.crc, entry.record.size, entry.record.zip64);
+  };
+
+  const emit = (controller: ReadableStreamDefaultController<Uint8Array>, chunk: Uint8Array) => {
+    offset += chunk.length;
+    controller.enqueue(chunk);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      try {
+        if (current) {
+          const chunk = nextEntryChunk();
+          emit(controller, chunk || finishEntry());
+          return;
+        }
+
+        let entry = queue.shift();
+        if (!entry && options.checksumFile && !checksumAdded) {
+          checksumAdded = true;
+          entry = { name: options.checksumFile, data: checksums.join('') };
+        }
+        if (entry) {
+          emit(controller, startEntry(entry));
+          return;
+        }
+
+        const centralOffset = offset;
+        const central = Buffer.concat(records.map(centralHeader));
+        emit(controller, central);
+        emit(controller, endOfCentralDirectory(records.length, central.length, centralOffset));
+        controller.close();
+      } catch (error) {
+        closeCurrent();
+        controller.error(error);
+      }
+    },
+    cancel() {
+      closeCurrent();
+    },
+  });
+}
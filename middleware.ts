@@ -5,7 +5,7 @@ export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   
   // Public routes that don't require authentication
-  const publicRoutes = ['/auth', '/api/proxy'];
+  const publicRoutes = ['/auth', '/api/proxy', '/share', '/api/share'];
   
   // Protected routes
   const protectedRoutes = ['/home', '/devices', '/data', '/processing', '/training', '/chatbot', '/settings'];
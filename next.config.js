@@ -15,6 +15,10 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Runs instrumentation.ts at server start (retention scheduler)
+  experimental: {
+    instrumentationHook: true,
+  },
 };
 
 module.exports = nextConfig;